@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { CREATE_SPECS_MODE_COMMAND, registerSpecsModeCommand } from './specsMode';
 import { AiFetchUrlLanguageModelTool } from './tools/ai_fetch_url';
-import { AskReportLanguageModelTool, openOrFocusAskReportById } from './tools/ask_report';
+import { AskReportLanguageModelTool, focusPendingAskReport, openOrFocusAskReportById, restoreAskReportPanel } from './tools/ask_report';
 import { CodeCheckerLanguageModelTool } from './tools/code_checker';
 import { Context7GetLibraryDocsTool } from './tools/context7_get_library_docs';
 import { Context7ResolveLibraryIdTool } from './tools/context7_resolve_library_id';
@@ -22,27 +22,47 @@ import { GithubSearchCodeTool } from './tools/github_search_code';
 import { GithubSearchIssuesTool } from './tools/github_search_issues';
 import { GithubSearchRepositoriesTool } from './tools/github_search_repositories';
 import { GoogleSearchTool } from './tools/google_search';
-import { openAiFetchProgressPanelByUid } from './utils/ai_fetch_progress';
+import { ListTasksLanguageModelTool } from './tools/list_tasks';
+import { ListTerminalsLanguageModelTool } from './tools/list_terminals';
+import { listCheckpointEntries, recordRestoreBackup, RestoreCheckpointLanguageModelTool } from './tools/restore_checkpoint';
+import { RunTaskLanguageModelTool } from './tools/run_task';
+import { SendTerminalInputLanguageModelTool } from './tools/send_terminal_input';
+import { TerminateCommandLanguageModelTool } from './tools/terminate_command';
+import { WaitForTerminalLanguageModelTool } from './tools/wait_for_terminal';
+import { openAiFetchProgressPanelByUid, restoreAiFetchProgressPanel } from './utils/ai_fetch_progress';
 import { initAiFetchSessionStorage, registerAiFetchSessionConfigWatcher } from './utils/ai_fetch_sessions';
 import { askReportHistory, formatTimestampSeconds, initAskReportHistoryStorage, registerAskReportHistoryConfigWatcher } from './utils/ask_report_history';
+import { initPendingAskReportsBadge } from './utils/ask_report_queue';
+import { clearCommandDiagnostics, getCommandProblemCount, initCommandDiagnostics } from './utils/command_diagnostics';
+import { commandGrants, initCommandGrantStorage } from './utils/command_grants';
+import { commandHistory, initCommandHistoryStorage, registerCommandHistoryConfigWatcher } from './utils/command_history';
+import { openCommandHistoryPanel, restoreCommandHistoryPanel } from './utils/command_history_panel';
 import { hasContext7Token, initContext7Auth, setupOrUpdateContext7Token } from './utils/context7_auth';
-import { openContext7ContentPanelByUid } from './utils/context7_content_panel';
+import { openContext7ContentPanelByUid, restoreContext7ContentPanel } from './utils/context7_content_panel';
 import { initContext7SessionStorage, registerContext7SessionConfigWatcher } from './utils/context7_content_sessions';
-import { openDuckDuckGoContentPanelByUid } from './utils/duckduckgo_search_content_panel';
+import { openDuckDuckGoContentPanelByUid, restoreDuckDuckGoContentPanel } from './utils/duckduckgo_search_content_panel';
 import { initDuckDuckGoSessionStorage, registerDuckDuckGoSessionConfigWatcher } from './utils/duckduckgo_search_content_sessions';
 import { env, initEnv } from './utils/env';
-import { openFeloContentPanelByUid } from './utils/felo_search_content_panel';
+import { openFeloContentPanelByUid, restoreFeloContentPanel } from './utils/felo_search_content_panel';
 import { initFeloSessionStorage, registerFeloSessionConfigWatcher } from './utils/felo_search_content_sessions';
+import { restoreCheckpoint } from './utils/git_checkpoint';
 import { hasGitHubToken, initGitHubAuth, setupOrUpdateGitHubToken } from './utils/github_auth';
-import { openGithubContentPanelByUid } from './utils/github_content_panel';
+import { openGithubContentPanelByUid, restoreGithubContentPanel } from './utils/github_content_panel';
 import { initGithubSessionStorage, registerGithubSessionConfigWatcher } from './utils/github_content_sessions';
 import { hasGoogleApiKey, hasGoogleSearchEngineId, initGoogleAuth, setupOrUpdateGoogleApiKey, setupOrUpdateGoogleSearchEngineId } from './utils/google_search_auth';
-import { openGoogleContentPanelByUid } from './utils/google_search_content_panel';
+import { openGoogleContentPanelByUid, restoreGoogleContentPanel } from './utils/google_search_content_panel';
 import { initGoogleSessionStorage, registerGoogleSessionConfigWatcher } from './utils/google_search_content_sessions';
+import { initLog } from './utils/log';
+import { withSecretRedaction } from './utils/redaction';
 import { statusBarActivity } from './utils/statusBar';
 
 const STATUS_MENU_COMMAND = 'reliefpilot.status.menu';
 const SHOW_ASK_REPORT_HISTORY_COMMAND = 'reliefpilot.askReport.showHistory';
+const SHOW_OLDEST_PENDING_ASK_REPORT_COMMAND = 'reliefpilot.askReport.showOldestPending';
+const SHOW_COMMAND_HISTORY_COMMAND = 'reliefpilot.commandHistory.show';
+const MANAGE_COMMAND_GRANTS_COMMAND = 'reliefpilot.commandGrants.manage';
+const CLEAR_COMMAND_PROBLEMS_COMMAND = 'reliefpilot.commandProblems.clear';
+const RESTORE_CHECKPOINT_COMMAND = 'reliefpilot.checkpoints.restore';
 const SELECT_AI_FETCH_URL_MODEL_LABEL = 'Select Model for `ai_fetch_url`';
 
 const extensionDisplayName = 'Relief Pilot';
@@ -66,6 +86,8 @@ async function showReliefPilotMenu() {
   // Build dynamic label for History with current count
   const historyCount = askReportHistory.list().length;
   const historyMenuLabel = `History "ask_report" (${historyCount})`;
+  const commandHistoryMenuLabel = `History "execute_command" (${commandHistory.list().length})`;
+  const commandGrantsMenuLabel = `Always-allowed commands (${commandGrants.list().length})`;
 
   // Detect whether tokens are already stored
   const context7TokenExists = await hasContext7Token();
@@ -98,6 +120,14 @@ async function showReliefPilotMenu() {
       label: historyMenuLabel,
       description: 'Show last ask_report entries from memory',
     },
+    {
+      label: commandHistoryMenuLabel,
+      description: 'Browse executed commands with approval decisions and output',
+    },
+    {
+      label: commandGrantsMenuLabel,
+      description: 'Review and revoke execute_command approvals granted for this session or workspace',
+    },
     {
       label: 'Create Specs Mode',
       description: 'Copy bundled Spec.chatmode.md into your prompts folder',
@@ -137,6 +167,10 @@ async function showReliefPilotMenu() {
     await selectModelForAiFetchUrl();
   } else if (pick.label === historyMenuLabel || pick.label.startsWith('History "ask_report"')) {
     await showAskReportHistoryMenu();
+  } else if (pick.label === commandHistoryMenuLabel) {
+    await openCommandHistoryPanel();
+  } else if (pick.label === commandGrantsMenuLabel) {
+    await showCommandGrantsMenu();
   } else if (pick.label === 'Create Specs Mode') {
     await vscode.commands.executeCommand(CREATE_SPECS_MODE_COMMAND);
   } else if (pick.label === tokenMenuLabel) {
@@ -150,12 +184,49 @@ async function showReliefPilotMenu() {
   }
 }
 
+// Each webview stores { uid } in its state; restorers re-render the panel from the persisted
+// session or history entry and return false when it is gone, in which case the panel is closed.
+const WEBVIEW_RESTORERS: Record<string, (panel: vscode.WebviewPanel, uid: string) => boolean> = {
+  'reliefpilot.askReport': restoreAskReportPanel,
+  'reliefpilot.aiFetchProgress': restoreAiFetchProgressPanel,
+  'reliefpilot.commandHistory': restoreCommandHistoryPanel,
+  'reliefpilot.context7Content': restoreContext7ContentPanel,
+  'reliefpilot.duckduckgoContent': restoreDuckDuckGoContentPanel,
+  'reliefpilot.feloContent': restoreFeloContentPanel,
+  'reliefpilot.githubContent': restoreGithubContentPanel,
+  'reliefpilot.googleContent': restoreGoogleContentPanel,
+};
+
+function registerWebviewSerializers(context: vscode.ExtensionContext) {
+  for (const [viewType, restore] of Object.entries(WEBVIEW_RESTORERS)) {
+    context.subscriptions.push(
+      vscode.window.registerWebviewPanelSerializer(viewType, {
+        async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: unknown) {
+          const uid = state && typeof (state as { uid?: unknown }).uid === 'string' ? (state as { uid: string }).uid : '';
+          panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')],
+          };
+          if (!uid || !restore(panel, uid)) {
+            panel.dispose();
+          }
+        },
+      }),
+    );
+  }
+}
+
 async function showAskReportHistoryMenu() {
   const refreshItems = (): Array<vscode.QuickPickItem & { id: string }> => {
     const entries = askReportHistory.list();
     return entries.map((e) => ({
       id: e.id,
       label: `${formatTimestampSeconds(e.timestamp)} ${e.topic}`,
+      description: e.result?.interrupted
+        ? 'Interrupted — unanswered'
+        : e.result?.timeout
+          ? `Timed out — policy: ${e.result.timeoutPolicy ?? 'cancel'}`
+          : e.result?.selectedOptions?.length ? `Picked: ${e.result.selectedOptions.join(', ')}` : undefined,
       buttons: [deleteButton],
     }));
   };
@@ -218,6 +289,106 @@ async function showAskReportHistoryMenu() {
   qp.show();
 }
 
+async function showCommandGrantsMenu() {
+  const revokeButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('trash'),
+    tooltip: 'Revoke this grant',
+  };
+  const revokeAllButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('clear-all'),
+    tooltip: 'Revoke all grants',
+  };
+
+  const refreshItems = (): Array<vscode.QuickPickItem & { id: string }> => {
+    return commandGrants.list().map((g) => ({
+      id: g.id,
+      label: g.command,
+      description: `${g.matchType === 'prefix' ? 'prefix' : 'exact'} · ${g.scope}`,
+      detail: `Granted ${formatTimestampSeconds(g.createdAt)}`,
+      buttons: [revokeButton],
+    }));
+  };
+
+  if (commandGrants.list().length === 0) {
+    vscode.window.showInformationMessage('No always-allowed commands. Use the "Approve and always allow" button when confirming a command.');
+    return;
+  }
+
+  const qp = vscode.window.createQuickPick<vscode.QuickPickItem & { id: string }>();
+  qp.title = 'Always-allowed Commands';
+  qp.placeholder = 'Session grants last until the window reloads; workspace grants are kept for this workspace';
+  qp.ignoreFocusOut = true;
+  qp.buttons = [revokeAllButton];
+  qp.items = refreshItems();
+
+  const dispose = () => {
+    try { qp.hide(); } catch { }
+    try { qp.dispose(); } catch { }
+  };
+
+  qp.onDidTriggerItemButton((e) => {
+    if (e.button !== revokeButton) return;
+    if (!commandGrants.remove(e.item.id)) return;
+    const next = refreshItems();
+    if (next.length === 0) {
+      vscode.window.showInformationMessage('No always-allowed commands left.');
+      dispose();
+      return;
+    }
+    qp.items = next;
+  });
+
+  qp.onDidTriggerButton((button) => {
+    if (button !== revokeAllButton) return;
+    commandGrants.clear();
+    vscode.window.showInformationMessage('All always-allowed commands were revoked.');
+    dispose();
+  });
+
+  // Selecting an entry does nothing beyond closing the list
+  qp.onDidAccept(() => dispose());
+  qp.onDidHide(() => dispose());
+
+  qp.show();
+}
+
+async function restoreCheckpointFromHistory() {
+  const entries = listCheckpointEntries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('No checkpoints recorded. Enable reliefpilot.checkpointDestructiveCommands to snapshot the workspace before destructive commands.');
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    entries.map((e) => ({
+      entry: e,
+      label: e.command ?? e.proposedCommand,
+      description: `${e.checkpoint.id} · ${formatTimestampSeconds(e.checkpoint.createdAt)}`,
+      detail: e.checkpoint.root,
+    })),
+    { title: 'Restore Checkpoint', placeHolder: 'Select the command to roll the working tree back to (state before it ran)', ignoreFocusOut: true },
+  );
+  if (!pick) return;
+
+  const { checkpoint } = pick.entry;
+  const confirmed = await vscode.window.showWarningMessage(
+    `Restore checkpoint ${checkpoint.id}?`,
+    { modal: true, detail: `Files in ${checkpoint.root} will be overwritten and files created since the checkpoint will be deleted. The current state is saved as a new checkpoint first.` },
+    'Restore',
+  );
+  if (confirmed !== 'Restore') return;
+
+  try {
+    const result = await restoreCheckpoint(checkpoint);
+    await recordRestoreBackup(checkpoint, result);
+    vscode.window.showInformationMessage(
+      `Restored checkpoint ${checkpoint.id}: ${result.restored.length} file(s) restored, ${result.removed.length} removed. The previous state was saved as checkpoint ${result.backup.id}.`,
+    );
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to restore checkpoint: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
 async function selectModelForAiFetchUrl() {
   if (!vscode.lm) {
     vscode.window.showErrorMessage('Language model APIs are unavailable in this VS Code instance.');
@@ -281,14 +452,21 @@ export const activate = async (context: vscode.ExtensionContext) => {
   const outputChannel = vscode.window.createOutputChannel(extensionDisplayName);
   outputChannel.appendLine(`Activating ${extensionDisplayName}...`);
 
-  // Initialize shared environment (extensionUri, extensionId)
+  // Initialize shared environment (extensionUri, extensionId) and route tool logs to the output channel
   initEnv(context);
+  initLog(outputChannel);
   // Initialize auth modules
   initContext7Auth(context);
   initGitHubAuth(context);
   initGoogleAuth(context);
   // Initialize ask_report history storage (load from workspace storage)
   initAskReportHistoryStorage(context);
+  // Initialize execute_command history storage
+  initCommandHistoryStorage(context);
+  // Load execute_command grants persisted for this workspace
+  initCommandGrantStorage(context);
+  // Problems parsed from execute_command output (Problems panel, code_checker)
+  initCommandDiagnostics(context);
   // Initialize session storage
   initAiFetchSessionStorage(context);
   initContext7SessionStorage(context);
@@ -303,6 +481,8 @@ export const activate = async (context: vscode.ExtensionContext) => {
   registerFeloSessionConfigWatcher(context);
   registerGithubSessionConfigWatcher(context);
   registerGoogleSessionConfigWatcher(context);
+  // Restore panels left open before a window reload (after the stores above are loaded)
+  registerWebviewSerializers(context);
 
   if (vscode.lm) {
     try {
@@ -347,7 +527,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'execute_command',
-        new ExecuteCommandLanguageModelTool(),
+        withSecretRedaction(new ExecuteCommandLanguageModelTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: execute_command.');
@@ -360,7 +540,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'get_terminal_output',
-        new GetTerminalOutputLanguageModelTool(),
+        withSecretRedaction(new GetTerminalOutputLanguageModelTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: get_terminal_output.');
@@ -370,10 +550,101 @@ export const activate = async (context: vscode.ExtensionContext) => {
       );
     }
 
+    try {
+      const disposable = vscode.lm.registerTool(
+        'terminate_command',
+        withSecretRedaction(new TerminateCommandLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: terminate_command.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool terminate_command: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'list_terminals',
+        withSecretRedaction(new ListTerminalsLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: list_terminals.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool list_terminals: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'wait_for_terminal',
+        withSecretRedaction(new WaitForTerminalLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: wait_for_terminal.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool wait_for_terminal: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'send_terminal_input',
+        withSecretRedaction(new SendTerminalInputLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: send_terminal_input.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool send_terminal_input: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'list_tasks',
+        withSecretRedaction(new ListTasksLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: list_tasks.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool list_tasks: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'restore_checkpoint',
+        withSecretRedaction(new RestoreCheckpointLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: restore_checkpoint.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool restore_checkpoint: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    try {
+      const disposable = vscode.lm.registerTool(
+        'run_task',
+        withSecretRedaction(new RunTaskLanguageModelTool()),
+      );
+      context.subscriptions.push(disposable);
+      outputChannel.appendLine('Registered language model tool: run_task.');
+    } catch (err) {
+      outputChannel.appendLine(
+        `Failed to register language model tool run_task: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
     try {
       const disposable = vscode.lm.registerTool(
         'ai_fetch_url',
-        new AiFetchUrlLanguageModelTool(),
+        withSecretRedaction(new AiFetchUrlLanguageModelTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: ai_fetch_url.');
@@ -386,7 +657,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'context7_resolve-library-id',
-        new Context7ResolveLibraryIdTool(),
+        withSecretRedaction(new Context7ResolveLibraryIdTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: context7_resolve-library-id.');
@@ -399,7 +670,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'context7_get-library-docs',
-        new Context7GetLibraryDocsTool(),
+        withSecretRedaction(new Context7GetLibraryDocsTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: context7_get-library-docs.');
@@ -412,7 +683,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_search_repositories',
-        new GithubSearchRepositoriesTool(),
+        withSecretRedaction(new GithubSearchRepositoriesTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_search_repositories.');
@@ -425,7 +696,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_get_file_contents',
-        new GithubGetFileContentsTool(),
+        withSecretRedaction(new GithubGetFileContentsTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_get_file_contents.');
@@ -438,7 +709,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_get_directory_contents',
-        new GithubGetDirectoryContentsTool(),
+        withSecretRedaction(new GithubGetDirectoryContentsTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_get_directory_contents.');
@@ -451,7 +722,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_search_code',
-        new GithubSearchCodeTool(),
+        withSecretRedaction(new GithubSearchCodeTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_search_code.');
@@ -464,7 +735,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'google_search',
-        new GoogleSearchTool(),
+        withSecretRedaction(new GoogleSearchTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: google_search.');
@@ -476,7 +747,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'felo_search',
-        new FeloSearchTool(),
+        withSecretRedaction(new FeloSearchTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: felo_search.');
@@ -489,7 +760,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'duckduckgo_search',
-        new DuckDuckGoSearchTool(),
+        withSecretRedaction(new DuckDuckGoSearchTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: duckduckgo_search.');
@@ -502,7 +773,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_list_releases',
-        new GithubListReleasesTool(),
+        withSecretRedaction(new GithubListReleasesTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_list_releases.');
@@ -515,7 +786,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_get_latest_release',
-        new GithubGetLatestReleaseTool(),
+        withSecretRedaction(new GithubGetLatestReleaseTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_get_latest_release.');
@@ -528,7 +799,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_search_issues',
-        new GithubSearchIssuesTool(),
+        withSecretRedaction(new GithubSearchIssuesTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_search_issues.');
@@ -541,7 +812,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_list_issues',
-        new GithubListIssuesTool(),
+        withSecretRedaction(new GithubListIssuesTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_list_issues.');
@@ -554,7 +825,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_issue_read',
-        new GithubIssueReadTool(),
+        withSecretRedaction(new GithubIssueReadTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_issue_read.');
@@ -567,7 +838,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_list_pull_requests',
-        new GithubListPullRequestsTool(),
+        withSecretRedaction(new GithubListPullRequestsTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_list_pull_requests.');
@@ -580,7 +851,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
     try {
       const disposable = vscode.lm.registerTool(
         'github_pull_request_read',
-        new GithubPullRequestReadTool(),
+        withSecretRedaction(new GithubPullRequestReadTool()),
       );
       context.subscriptions.push(disposable);
       outputChannel.appendLine('Registered language model tool: github_pull_request_read.');
@@ -598,11 +869,36 @@ export const activate = async (context: vscode.ExtensionContext) => {
   context.subscriptions.push(serverStatusBarItem);
   // Initialize activity tracker with the created status bar item and render initial state
   statusBarActivity.init(serverStatusBarItem);
+  // Badge counting unanswered ask_report requests; shown only while some are pending
+  const pendingAskReportsItem = vscode.window.createStatusBarItem('reliefpilot.askReport.pending', vscode.StatusBarAlignment.Left, -101);
+  pendingAskReportsItem.name = 'Relief Pilot: Pending ask_report';
+  pendingAskReportsItem.command = SHOW_OLDEST_PENDING_ASK_REPORT_COMMAND;
+  context.subscriptions.push(pendingAskReportsItem, initPendingAskReportsBadge(pendingAskReportsItem));
   // Register command that the status bar item invokes to show the Relief Pilot menu
   context.subscriptions.push(
     vscode.commands.registerCommand(STATUS_MENU_COMMAND, () => showReliefPilotMenu()),
     // Public command to open ask_report history menu (bindable to keybindings)
     vscode.commands.registerCommand(SHOW_ASK_REPORT_HISTORY_COMMAND, () => showAskReportHistoryMenu()),
+    // Public command to jump to the oldest unanswered ask_report
+    vscode.commands.registerCommand(SHOW_OLDEST_PENDING_ASK_REPORT_COMMAND, () => {
+      if (!focusPendingAskReport()) {
+        vscode.window.showInformationMessage('No pending ask_report.');
+      }
+    }),
+    // Public command to open the execute_command history browser; also used by the chat link with { uid }
+    vscode.commands.registerCommand(SHOW_COMMAND_HISTORY_COMMAND, async (args?: { uid?: string }) => {
+      await openCommandHistoryPanel(args?.uid);
+    }),
+    // Public command to review and revoke execute_command grants
+    vscode.commands.registerCommand(MANAGE_COMMAND_GRANTS_COMMAND, () => showCommandGrantsMenu()),
+    // Public command to drop problems parsed from execute_command output
+    vscode.commands.registerCommand(CLEAR_COMMAND_PROBLEMS_COMMAND, () => {
+      const count = getCommandProblemCount();
+      clearCommandDiagnostics();
+      vscode.window.showInformationMessage(`Cleared ${count} problem(s) parsed from command output.`);
+    }),
+    // Public command to roll the working tree back to a checkpoint taken before a destructive command
+    vscode.commands.registerCommand(RESTORE_CHECKPOINT_COMMAND, () => restoreCheckpointFromHistory()),
     // Internal command (not contributed) for possible programmatic usage/tests
     vscode.commands.registerCommand('reliefpilot.context7.setupToken', () => setupOrUpdateContext7Token()),
     vscode.commands.registerCommand('reliefpilot.github.setupToken', () => setupOrUpdateGitHubToken()),
@@ -665,6 +961,8 @@ export const activate = async (context: vscode.ExtensionContext) => {
 
   // Watch ask_report history size changes
   registerAskReportHistoryConfigWatcher(context);
+  // Watch execute_command history size changes
+  registerCommandHistoryConfigWatcher(context);
 
   outputChannel.appendLine(`${extensionDisplayName} activated.`);
 };
@@ -12,9 +12,11 @@
 
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
+import { log } from "../../utils/log"
 import { arePathsEqual } from "../../utils/path"
+import { delay } from "../../utils/time.js"
 import { mergePromise, TerminalProcess, TerminalProcessResultPromise } from "./TerminalProcess"
-import { TerminalInfo, TerminalRegistry } from "./TerminalRegistry"
+import { TerminalInfo, TerminalProfile, TerminalRegistry } from "./TerminalRegistry"
 
 /*
 TerminalManager:
@@ -92,10 +94,45 @@ declare module "vscode" {
 	}
 }
 
+// Upper bound for the per-terminal output log
+const MAX_OUTPUT_LOG_LINES = 5000
+// How often idle terminals are checked against reliefpilot.terminalIdleTimeoutMinutes
+const IDLE_CHECK_INTERVAL_MS = 60_000
+
+// Maximum number of Relief Pilot terminals (0 = unlimited)
+function getTerminalPoolSize(): number {
+	const n = vscode.workspace.getConfiguration("reliefpilot").get<number>("terminalPoolSize", 5)
+	return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0
+}
+
+// Minutes after which an idle Relief Pilot terminal is disposed (0 = never)
+function getTerminalIdleTimeoutMinutes(): number {
+	const n = vscode.workspace.getConfiguration("reliefpilot").get<number>("terminalIdleTimeoutMinutes", 30)
+	return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+export type OutputWaitResult = {
+	reason: "matched" | "completed" | "timeout"
+	// Line that matched the pattern when reason is "matched"
+	matchedLine?: string
+}
+
+// Bounded log of output lines. Positions are absolute (counted since the terminal was created),
+// so they stay valid when old lines are dropped.
+interface OutputLog {
+	lines: string[]
+	// Absolute position of lines[0]
+	start: number
+	// Absolute position up to which output has been returned to the agent
+	retrieved: number
+}
+
 export class TerminalManager {
 	private static instance: TerminalManager | null = null
 	private terminalIds: Set<number> = new Set()
 	private processes: Map<number, TerminalProcess> = new Map()
+	// Recent output lines per terminal, kept beyond the lifetime of a single execute_command call
+	private outputLogs: Map<number, OutputLog> = new Map()
 	private disposables: vscode.Disposable[] = []
 
 	private constructor() {
@@ -112,18 +149,15 @@ export class TerminalManager {
 			this.disposables.push(disposable)
 		}
 
+		const idleTimer = setInterval(() => this.disposeIdleTerminals(), IDLE_CHECK_INTERVAL_MS)
+		this.disposables.push({ dispose: () => clearInterval(idleTimer) })
+
 		this.disposables.push(
 			vscode.window.onDidCloseTerminal((terminal) => {
 				try {
 					const terminalInfo = TerminalRegistry.getTerminalByInstance(terminal)
 					if (terminalInfo) {
-						const process = this.processes.get(terminalInfo.id)
-						if (process) {
-							process.emit("continue")
-						}
-						this.terminalIds.delete(terminalInfo.id)
-						this.processes.delete(terminalInfo.id)
-						TerminalRegistry.removeTerminal(terminalInfo.id)
+						this.forgetTerminal(terminalInfo)
 					}
 				} catch (error) {
 					console.error("Error handling terminal closure:", error)
@@ -142,11 +176,21 @@ export class TerminalManager {
 	runCommand(terminalInfo: TerminalInfo, command: string): TerminalProcessResultPromise {
 		terminalInfo.busy = true
 		terminalInfo.lastCommand = command
+		terminalInfo.lastUsedAt = Date.now()
 		const process = new TerminalProcess()
 		this.processes.set(terminalInfo.id, process)
 
+		process.once("started", (execution) => {
+			terminalInfo.lastExecution = execution
+		})
+
+		process.on("line", (line) => {
+			this.appendOutput(terminalInfo.id, line)
+		})
+
 		process.once("completed", () => {
 			terminalInfo.busy = false
+			terminalInfo.lastUsedAt = Date.now()
 		})
 
 		// if shell integration is not available, remove terminal so it does not get reused as it may be running a long-running process
@@ -188,11 +232,46 @@ export class TerminalManager {
 		return mergePromise(process, promise)
 	}
 
-	async getOrCreateTerminal(cwd: string): Promise<TerminalInfo> {
+	/**
+	 * Terminal for the next command. With a terminalName the logical terminal of that name is used
+	 * (created on first use, moved to cwd if needed); it fails if that terminal is still busy.
+	 * Unnamed commands reuse idle unnamed terminals, preferring one already in cwd.
+	 * Only terminals created with the same profile (shell and environment) are reused.
+	 * New terminals respect reliefpilot.terminalPoolSize by disposing the least recently used idle terminal.
+	 */
+	async getOrCreateTerminal(cwd: string, terminalName?: string, profile?: TerminalProfile): Promise<TerminalInfo> {
+		const profileKey = profile?.key ?? ""
 		const terminals = TerminalRegistry.getAllTerminals()
 
+		if (terminalName) {
+			let named = TerminalRegistry.getTerminalByName(terminalName)
+			if (named?.busy) {
+				throw new Error(
+					`Terminal "${terminalName}" (id: ${named.id}) is still running \`${named.lastCommand}\`. ` +
+					`Wait for it, terminate it with terminate_command, or use another terminalName.`,
+				)
+			}
+			if (named && named.profileKey !== profileKey) {
+				// A different shell or environment needs a fresh terminal under the same name
+				this.disposeTerminal(named)
+				named = undefined
+			}
+			if (named) {
+				const namedCwd = named.terminal.shellIntegration?.cwd
+				if (!namedCwd || !arePathsEqual(vscode.Uri.file(cwd).fsPath, namedCwd.fsPath)) {
+					await this.runCommand(named, `cd "${cwd}"`)
+				}
+				this.terminalIds.add(named.id)
+				return named
+			}
+			return this.createPooledTerminal(cwd, terminalName, profile)
+		}
+
+		// Named terminals stay dedicated to their logical task
+		const unnamed = terminals.filter((t) => !t.terminalName && t.profileKey === profileKey)
+
 		// Find available terminal from our pool first (created for this task)
-		const matchingTerminal = terminals.find((t) => {
+		const matchingTerminal = unnamed.find((t) => {
 			if (t.busy) {
 				return false
 			}
@@ -208,7 +287,7 @@ export class TerminalManager {
 		}
 
 		// If no matching terminal exists, try to find any non-busy terminal
-		const availableTerminal = terminals.find((t) => !t.busy)
+		const availableTerminal = unnamed.find((t) => !t.busy)
 		if (availableTerminal) {
 			// Navigate back to the desired directory
 			await this.runCommand(availableTerminal, `cd "${cwd}"`)
@@ -217,11 +296,202 @@ export class TerminalManager {
 		}
 
 		// If all terminals are busy, create a new one
-		const newTerminalInfo = TerminalRegistry.createTerminal(cwd)
+		return this.createPooledTerminal(cwd, undefined, profile)
+	}
+
+	private createPooledTerminal(cwd: string, terminalName?: string, profile?: TerminalProfile): TerminalInfo {
+		const poolSize = getTerminalPoolSize()
+		const terminals = TerminalRegistry.getAllTerminals()
+		if (poolSize > 0 && terminals.length >= poolSize) {
+			// Idle terminals whose output the agent has not read yet are kept: disposing them would lose it
+			const idle = terminals
+				.filter((t) => !t.busy && this.getUnretrievedLineCount(t.id) === 0)
+				.sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+			if (idle.length === 0) {
+				throw new Error(
+					`All ${terminals.length} Relief Pilot terminals are busy or have unread output (reliefpilot.terminalPoolSize = ${poolSize}). ` +
+					`Read pending output with get_terminal_output, terminate a terminal with terminate_command, or wait for a command to finish.`,
+				)
+			}
+			// Free as many slots as possible (up to what is needed), least recently used first
+			for (const info of idle.slice(0, terminals.length - poolSize + 1)) {
+				log(`Disposing idle terminal ${info.id} to stay within reliefpilot.terminalPoolSize`)
+				this.disposeTerminal(info)
+			}
+		}
+		const newTerminalInfo = TerminalRegistry.createTerminal(cwd, terminalName, profile)
 		this.terminalIds.add(newTerminalInfo.id)
 		return newTerminalInfo
 	}
 
+	/**
+	 * Dispose idle terminals unused for longer than reliefpilot.terminalIdleTimeoutMinutes.
+	 * Terminals with output the agent has not retrieved yet are kept.
+	 */
+	disposeIdleTerminals(now: number = Date.now()): number {
+		const minutes = getTerminalIdleTimeoutMinutes()
+		if (minutes <= 0) return 0
+		const stale = TerminalRegistry.getAllTerminals().filter(
+			(t) => !t.busy && now - t.lastUsedAt >= minutes * 60_000 && this.getUnretrievedLineCount(t.id) === 0,
+		)
+		for (const info of stale) {
+			log(`Disposing terminal ${info.id} after ${minutes} idle minutes`)
+			this.disposeTerminal(info)
+		}
+		return stale.length
+	}
+
+	private disposeTerminal(terminalInfo: TerminalInfo) {
+		terminalInfo.terminal.dispose()
+		// Release it right away: onDidCloseTerminal arrives later and getOrCreateTerminal must not pick it up meanwhile
+		this.forgetTerminal(terminalInfo)
+	}
+
+	/**
+	 * Stop the command running in a terminal: send Ctrl+C, wait up to gracePeriodMs for the
+	 * command to finish, then dispose the terminal if it is still busy.
+	 * The output tail is captured before disposal since closing the terminal drops its output log.
+	 */
+	async terminate(
+		terminalInfo: TerminalInfo,
+		gracePeriodMs: number,
+		tailLines: number,
+	): Promise<{ stopped: boolean; disposed: boolean; tail: string[] }> {
+		terminalInfo.terminal.sendText("\x03", false)
+		const stopped = await pWaitFor(() => !terminalInfo.busy, { interval: 100, timeout: gracePeriodMs }).then(
+			() => true,
+			() => false,
+		)
+		// Allow the last output lines to flush
+		await delay(50)
+		const tail = this.getOutputTail(terminalInfo.id, tailLines)
+		this.markOutputRetrieved(terminalInfo.id)
+		if (stopped) {
+			return { stopped: true, disposed: false, tail }
+		}
+		const process = this.processes.get(terminalInfo.id)
+		if (process?.execution && process.execution.endedAt === undefined) {
+			// Closing the terminal hangs up the shell and everything it started
+			process.execution.endedAt = Date.now()
+			process.execution.signal = "SIGHUP"
+		}
+		this.disposeTerminal(terminalInfo)
+		return { stopped: false, disposed: true, tail }
+	}
+
+	/** Drop all state kept for a terminal that was closed or is being disposed. */
+	private forgetTerminal(terminalInfo: TerminalInfo) {
+		terminalInfo.busy = false
+		const process = this.processes.get(terminalInfo.id)
+		if (process) {
+			process.emit("continue")
+		}
+		this.terminalIds.delete(terminalInfo.id)
+		this.processes.delete(terminalInfo.id)
+		this.outputLogs.delete(terminalInfo.id)
+		TerminalRegistry.removeTerminal(terminalInfo.id)
+	}
+
+	/** Last maxLines output lines captured for a terminal (oldest first). */
+	getOutputTail(terminalId: number, maxLines: number): string[] {
+		// slice(-0) would copy the whole log
+		if (maxLines <= 0) return []
+		const log = this.outputLogs.get(terminalId)
+		return log ? log.lines.slice(-maxLines) : []
+	}
+
+	/** Number of captured output lines not yet returned to the agent. */
+	getUnretrievedLineCount(terminalId: number): number {
+		const log = this.outputLogs.get(terminalId)
+		return log ? log.start + log.lines.length - Math.max(log.retrieved, log.start) : 0
+	}
+
+	/**
+	 * Read captured output from an absolute cursor (default: everything still kept) and mark it as retrieved.
+	 * Returns the cursor to pass next time and how many lines after sinceCursor were already dropped from the log.
+	 * Undefined when nothing was captured for the terminal (e.g. no shell integration).
+	 */
+	readOutput(terminalId: number, sinceCursor?: number): { lines: string[]; cursor: number; skipped: number } | undefined {
+		const log = this.outputLogs.get(terminalId)
+		if (!log) {
+			return undefined
+		}
+		const end = log.start + log.lines.length
+		const from = Math.min(Math.max(sinceCursor ?? log.start, 0), end)
+		const skipped = Math.max(0, log.start - from)
+		const lines = log.lines.slice(Math.max(from, log.start) - log.start)
+		log.retrieved = end
+		return { lines, cursor: end, skipped }
+	}
+
+	/** Captured output lines not yet returned to the agent (does not mark them as retrieved). */
+	getUnretrievedOutput(terminalId: number): string[] {
+		const log = this.outputLogs.get(terminalId)
+		return log ? log.lines.slice(Math.max(log.retrieved, log.start) - log.start) : []
+	}
+
+	/**
+	 * Wait until a line of output matches pattern, the command in the terminal completes, or timeoutMs elapses.
+	 * With checkUnretrieved, output captured earlier but not yet returned to the agent is matched first,
+	 * so a server that printed its ready message before the call is detected immediately.
+	 */
+	waitForOutput(
+		terminalInfo: TerminalInfo,
+		pattern: RegExp | undefined,
+		timeoutMs: number,
+		checkUnretrieved: boolean = false,
+	): Promise<OutputWaitResult> {
+		if (pattern && checkUnretrieved) {
+			const line = this.getUnretrievedOutput(terminalInfo.id).find((l) => pattern.test(l))
+			if (line !== undefined) {
+				return Promise.resolve({ reason: "matched", matchedLine: line })
+			}
+		}
+		const process = this.processes.get(terminalInfo.id)
+		if (!terminalInfo.busy || !process) {
+			return Promise.resolve({ reason: "completed" })
+		}
+		return new Promise<OutputWaitResult>((resolve) => {
+			const finish = (result: OutputWaitResult) => {
+				clearTimeout(timer)
+				process.off("line", onLine)
+				process.off("completed", onCompleted)
+				resolve(result)
+			}
+			const onLine = (line: string) => {
+				if (pattern?.test(line)) {
+					finish({ reason: "matched", matchedLine: line })
+				}
+			}
+			const onCompleted = () => finish({ reason: "completed" })
+			const timer = setTimeout(() => finish({ reason: "timeout" }), timeoutMs)
+			process.on("line", onLine)
+			process.once("completed", onCompleted)
+		})
+	}
+
+	/** Mark everything captured so far as seen by the agent. */
+	markOutputRetrieved(terminalId: number) {
+		const log = this.outputLogs.get(terminalId)
+		if (log) {
+			log.retrieved = log.start + log.lines.length
+		}
+	}
+
+	private appendOutput(terminalId: number, line: string) {
+		let log = this.outputLogs.get(terminalId)
+		if (!log) {
+			log = { lines: [], start: 0, retrieved: 0 }
+			this.outputLogs.set(terminalId, log)
+		}
+		log.lines.push(line)
+		if (log.lines.length > MAX_OUTPUT_LOG_LINES) {
+			const overflow = log.lines.length - MAX_OUTPUT_LOG_LINES
+			log.lines.splice(0, overflow)
+			log.start += overflow
+		}
+	}
+
 	getTerminals(busy: boolean): { id: number; lastCommand: string }[] {
 		return Array.from(this.terminalIds)
 			.map((id) => TerminalRegistry.getTerminal(id))
@@ -235,6 +505,7 @@ export class TerminalManager {
 		// }
 		this.terminalIds.clear()
 		this.processes.clear()
+		this.outputLogs.clear()
 		this.disposables.forEach((disposable) => disposable.dispose())
 		this.disposables = []
 	}
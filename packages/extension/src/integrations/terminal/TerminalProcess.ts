@@ -12,9 +12,28 @@
 
 import { EventEmitter } from "events"
 import * as vscode from "vscode"
-import { stripAnsi } from "./ansiUtils.js"
+import { collapseProgressLines, resolveCarriageReturns, stripAnsi } from "./ansiUtils.js"
+
+// Outcome of a single command run through TerminalProcess. The object is shared with TerminalInfo.lastExecution
+// and updated in place, so readers always see the latest state of the command.
+export interface CommandExecution {
+	command: string
+	startedAt: number
+	// Set when the shell integration stream closes; stays undefined while running or without shell integration
+	endedAt?: number
+	// Exit code reported via onDidEndTerminalShellExecution; undefined when the shell did not report one
+	exitCode?: number
+	// Signal that ended the command when it was killed (headless runs only)
+	signal?: string
+	// False when the command was sent with sendText, so its completion and exit code cannot be observed
+	shellIntegration: boolean
+}
+
+// How long to wait for onDidEndTerminalShellExecution after the output stream has closed
+const EXIT_CODE_GRACE_MS = 500
 
 export interface TerminalProcessEvents {
+	started: [execution: CommandExecution]
 	line: [line: string]
 	continue: []
 	completed: []
@@ -26,10 +45,24 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 	waitForShellIntegration: boolean = true
 	private isListening: boolean = true
 	private buffer: string = ""
+	execution?: CommandExecution
 
 	async run(terminal: vscode.Terminal, command: string) {
+		const hasShellIntegration = !!(terminal.shellIntegration && terminal.shellIntegration.executeCommand)
+		this.execution = { command, startedAt: Date.now(), shellIntegration: hasShellIntegration }
+		this.emit("started", this.execution)
 		if (terminal.shellIntegration && terminal.shellIntegration.executeCommand) {
 			const execution = terminal.shellIntegration.executeCommand(command)
+			// Subscribe before reading so a fast command cannot end before we listen
+			let exitCode: number | undefined
+			let resolveEnded: () => void = () => { }
+			const ended = new Promise<void>((resolve) => (resolveEnded = resolve))
+			const endListener = vscode.window.onDidEndTerminalShellExecution?.((e) => {
+				if (e.execution === execution) {
+					exitCode = e.exitCode
+					resolveEnded()
+				}
+			})
 			const stream = execution.read()
 			// todo: need to handle errors
 			let isFirstChunk = true
@@ -68,8 +101,8 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 					if (outputBetweenSequences) {
 						data = outputBetweenSequences + "\n" + data
 					}
-					// remove ansi
-					data = stripAnsi(data)
+					// collapse redrawn progress lines, then remove ansi
+					data = stripAnsi(collapseProgressLines(data))
 					// Split data by newlines
 					let lines = data ? data.split("\n") : []
 					// Remove non-human readable characters from the first line
@@ -91,7 +124,7 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 					data = lines.join("\n")
 					isFirstChunk = false
 				} else {
-					data = stripAnsi(data)
+					data = stripAnsi(collapseProgressLines(data))
 				}
 
 				// first few chunks could be the command being echoed back, so we must ignore
@@ -120,6 +153,12 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 
 			this.emitRemainingBufferIfListening()
 
+			this.execution.endedAt = Date.now()
+			// The end event may be delivered slightly after the stream closes
+			await Promise.race([ended, new Promise((resolve) => setTimeout(resolve, EXIT_CODE_GRACE_MS))])
+			endListener?.dispose()
+			this.execution.exitCode = exitCode
+
 			this.emit("completed")
 			this.emit("continue")
 		} else {
@@ -141,7 +180,8 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 		this.buffer += chunk
 		let lineEndIndex: number
 		while ((lineEndIndex = this.buffer.indexOf("\n")) !== -1) {
-			let line = this.buffer.slice(0, lineEndIndex).trimEnd() // removes trailing \r
+			// progress updates split across chunks still contain \r; keep the final state of the line
+			let line = resolveCarriageReturns(this.buffer.slice(0, lineEndIndex)).trimEnd() // removes trailing \r
 			// Remove \r if present (for Windows-style line endings)
 			// if (line.endsWith("\r")) {
 			// 	line = line.slice(0, -1)
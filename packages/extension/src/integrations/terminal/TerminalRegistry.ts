@@ -11,12 +11,32 @@
 */
 
 import * as vscode from "vscode"
+import type { CommandExecution } from "./TerminalProcess"
 
 export interface TerminalInfo {
 	terminal: vscode.Terminal
 	busy: boolean
 	lastCommand: string
 	id: number
+	// Working directory the terminal was created with (the shell may have moved since)
+	initialCwd?: string
+	createdAt: number
+	// Last time a command was started or finished in the terminal (idle cleanup)
+	lastUsedAt: number
+	// Shell/environment the terminal was created with ("" for the default profile); see TerminalProfile
+	profileKey: string
+	// Logical name given by the agent (execute_command terminalName); named terminals are never reused for other names
+	terminalName?: string
+	// Timing and exit code of the last command started through TerminalManager
+	lastExecution?: CommandExecution
+}
+
+// Non-default shell and environment for a terminal (execute_command shell/env/envPreset)
+export interface TerminalProfile {
+	shellPath?: string
+	env?: Record<string, string>
+	// Equal keys mean interchangeable terminals
+	key: string
 }
 
 // Although vscode.window.terminals provides a list of all open terminals, there's no way to know whether they're busy or not (exitStatus does not provide useful information for most commands). In order to prevent creating too many terminals, we need to keep track of terminals through the life of the extension, as well as session specific terminals for the life of a task (to get latest unretrieved output).
@@ -25,10 +45,12 @@ export class TerminalRegistry {
 	private static terminals: TerminalInfo[] = []
 	private static nextTerminalId = 1
 
-	static createTerminal(cwd?: string | vscode.Uri | undefined): TerminalInfo {
+	static createTerminal(cwd?: string | vscode.Uri | undefined, terminalName?: string, profile?: TerminalProfile): TerminalInfo {
 		const terminal = vscode.window.createTerminal({
 			cwd,
-			name: "Relief Pilot",
+			shellPath: profile?.shellPath,
+			env: profile?.env && Object.keys(profile.env).length > 0 ? profile.env : undefined,
+			name: terminalName ? `Relief Pilot: ${terminalName}` : "Relief Pilot",
 			iconPath: new vscode.ThemeIcon("reliefpilot-logo"),
 		})
 		const newInfo: TerminalInfo = {
@@ -36,6 +58,11 @@ export class TerminalRegistry {
 			busy: false,
 			lastCommand: "",
 			id: this.nextTerminalId++,
+			initialCwd: typeof cwd === "string" ? cwd : cwd?.fsPath,
+			createdAt: Date.now(),
+			lastUsedAt: Date.now(),
+			profileKey: profile?.key ?? "",
+			terminalName,
 		}
 		this.terminals.push(newInfo)
 		return newInfo
@@ -50,6 +77,10 @@ export class TerminalRegistry {
 		return terminalInfo
 	}
 
+	static getTerminalByName(terminalName: string): TerminalInfo | undefined {
+		return this.getAllTerminals().find((t) => t.terminalName === terminalName)
+	}
+
 	static getTerminalByInstance(terminal: vscode.Terminal): TerminalInfo | undefined {
 		return this.terminals.find((t) => t.terminal === terminal)
 	}
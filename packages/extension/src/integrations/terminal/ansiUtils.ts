@@ -24,3 +24,42 @@ export function ansiRegex({ onlyFirst = false } = {}) {
 export function stripAnsi(string: string): string {
 	return string.replace(ansiRegex(), "")
 }
+
+/**
+ * Resolve in-place progress updates before stripAnsi removes the escape sequences that make them
+ * overwrite each other: a line starting with cursor-up (ESC[nA, optionally with erase-line ESC[2K)
+ * replaces the previous n lines of the chunk, and within a line only the text after the last
+ * carriage return is kept. Without this, every redraw of a progress bar becomes a separate line.
+ */
+export function collapseProgressLines(data: string): string {
+	const out: string[] = []
+	for (const rawLine of data.split("\n")) {
+		let line = rawLine
+		let cursorUp = /^(?:\x1b\[\d*[GK]|\r)*\x1b\[(\d*)A/.exec(line)
+		while (cursorUp) {
+			const count = Math.max(1, Number(cursorUp[1] || "1"))
+			out.splice(Math.max(0, out.length - count), count)
+			line = line.slice(cursorUp[0].length)
+			cursorUp = /^(?:\x1b\[\d*[GK]|\r)*\x1b\[(\d*)A/.exec(line)
+		}
+		out.push(resolveCarriageReturns(line))
+	}
+	return out.join("\n")
+}
+
+/** Keep the text after the last carriage return that is followed by content ("a\rb" -> "b", "a\r" -> "a\r"). */
+export function resolveCarriageReturns(line: string): string {
+	const segments = line.split("\r")
+	if (segments.length === 1) {
+		return line
+	}
+	// A trailing \r (CRLF endings) is preserved so callers can trim it as before
+	const trailing = segments[segments.length - 1] === "" ? "\r" : ""
+	const content = segments.filter((s, i) => i < segments.length - 1 || s !== "")
+	for (let i = content.length - 1; i >= 0; i--) {
+		if (stripAnsi(content[i]).trim() !== "") {
+			return content[i] + trailing
+		}
+	}
+	return line
+}
@@ -0,0 +1,67 @@
+import type { CommandExecution } from "./TerminalProcess"
+
+export type ExecutionState = "succeeded" | "failed" | "running" | "unknown"
+
+export function getExecutionState(execution: CommandExecution): ExecutionState {
+	if (!execution.shellIntegration) {
+		return "unknown"
+	}
+	if (execution.endedAt === undefined) {
+		return "running"
+	}
+	if (execution.signal) {
+		return "failed"
+	}
+	if (execution.exitCode === undefined) {
+		return "unknown"
+	}
+	return execution.exitCode === 0 ? "succeeded" : "failed"
+}
+
+/**
+ * Structured header describing a command's outcome, one `Key: value` per line, e.g.
+ *
+ * Status: failed
+ * Exit code: 1
+ * Started: 2025-01-01T10:00:00.000Z
+ * Ended: 2025-01-01T10:00:01.250Z
+ * Duration: 1.25s
+ */
+export function formatExecutionHeader(execution: CommandExecution, now: number = Date.now()): string {
+	const state = getExecutionState(execution)
+	const lines = [`Status: ${state}`]
+
+	if (!execution.shellIntegration) {
+		lines.push("Exit code: unknown (shell integration unavailable; completion and exit code cannot be observed)")
+	} else if (state === "running") {
+		lines.push("Exit code: pending")
+	} else if (execution.signal && execution.exitCode === undefined) {
+		lines.push(`Exit code: none (killed by ${execution.signal})`)
+	} else if (execution.exitCode === undefined) {
+		lines.push("Exit code: unknown (not reported by the shell, e.g. interrupted or a sub-shell was opened)")
+	} else {
+		lines.push(`Exit code: ${execution.exitCode}`)
+	}
+
+	lines.push(`Started: ${new Date(execution.startedAt).toISOString()}`)
+	if (execution.endedAt !== undefined) {
+		lines.push(`Ended: ${new Date(execution.endedAt).toISOString()}`)
+		lines.push(`Duration: ${formatDuration(execution.endedAt - execution.startedAt)}`)
+	} else if (execution.shellIntegration) {
+		lines.push(`Elapsed: ${formatDuration(now - execution.startedAt)}`)
+	}
+	return lines.join("\n")
+}
+
+export function formatDuration(ms: number): string {
+	const value = Math.max(0, Math.round(ms))
+	if (value < 1000) {
+		return `${value}ms`
+	}
+	if (value < 60_000) {
+		return `${(value / 1000).toFixed(2).replace(/\.?0+$/, "")}s`
+	}
+	const minutes = Math.floor(value / 60_000)
+	const seconds = Math.floor((value % 60_000) / 1000)
+	return `${minutes}m ${seconds}s`
+}
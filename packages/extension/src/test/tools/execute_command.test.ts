@@ -1,7 +1,9 @@
 import * as assert from 'assert';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { TerminalRegistry } from '../../integrations/terminal/TerminalRegistry';
 import { ExecuteCommandTool } from '../../tools/execute_command';
+import { commandHistory } from '../../utils/command_history';
 
 // Extend ExecuteCommandTool to override the ask method for testing
 class TestableExecuteCommandTool extends ExecuteCommandTool {
@@ -19,6 +21,13 @@ class TestableExecuteCommandTool extends ExecuteCommandTool {
   }
 }
 
+// Denies every command with feedback, as a user would in the confirmation UI
+class DenyingExecuteCommandTool extends ExecuteCommandTool {
+  protected async ask(_command: string) {
+    return { approved: false, feedback: 'use npm instead' };
+  }
+}
+
 suite('Execute Command Tool Test Suite', function () {
   this.timeout(10000); // Set a longer timeout for all tests in this suite
 
@@ -116,6 +125,9 @@ suite('Execute Command Tool Test Suite', function () {
 
     assert.strictEqual(userRejected, false, 'Command should not be user rejected');
     assert.match(response.text, /No such file/, 'Should show error message');
+    // Exit code comes from shell integration; "unknown" when the shell does not report it
+    assert.match(response.text, /Exit code: (1|unknown)/, 'Should report the exit code');
+    assert.match(response.text, /Duration: \d/, 'Should report the duration');
   });
 
   test('Non-existent working directory', async function () {
@@ -150,6 +162,66 @@ suite('Execute Command Tool Test Suite', function () {
     }
   });
 
+  test('Headless mode captures stdout, stderr and exit code', async function () {
+    const [userRejected, response] = await tool.execute(
+      'cat test.txt && cat nonexistent.txt',
+      undefined,
+      false,
+      false,
+      5000,
+      { mode: 'headless' },
+    );
+
+    assert.strictEqual(userRejected, false, 'Command should not be user rejected');
+    assert.match(response.text, /finished \(headless\)/, 'Response should mention headless execution');
+    assert.match(response.text, /Stdout:\ntest content/, 'Stdout should contain file content');
+    assert.match(response.text, /Stderr:\n.*No such file/, 'Stderr should contain the error');
+    assert.match(response.text, /Exit code: 1/, 'Should report the exit code');
+  });
+
+  test('Executed commands are recorded in the command history', async function () {
+    const historyId = `test-${Date.now()}`;
+    await tool.execute('cat test.txt', undefined, false, false, 5000, { mode: 'headless', historyId });
+
+    const entry = commandHistory.getById(historyId);
+    assert.ok(entry, 'History entry should be recorded under the given id');
+    assert.strictEqual(entry.proposedCommand, 'cat test.txt');
+    assert.strictEqual(entry.command, 'cat test.txt');
+    assert.strictEqual(entry.decision, 'auto-approved');
+    assert.strictEqual(entry.mode, 'headless');
+    assert.strictEqual(entry.execution?.exitCode, 0, 'Exit code should be recorded');
+    assert.match(entry.output ?? '', /test content/, 'Tool result should be recorded');
+  });
+
+  test('Declined commands are recorded with the user feedback', async function () {
+    const historyId = `test-denied-${Date.now()}`;
+    const [userRejected] = await new DenyingExecuteCommandTool(tmpDir).execute('yarn install', undefined, true, false, 5000, { historyId });
+
+    assert.strictEqual(userRejected, true, 'Command should be rejected');
+    const entry = commandHistory.getById(historyId);
+    assert.ok(entry, 'Declined command should still be recorded');
+    assert.strictEqual(entry.decision, 'denied');
+    assert.strictEqual(entry.feedback, 'use npm instead');
+    assert.strictEqual(entry.execution, undefined, 'Declined command should not have run');
+  });
+
+  test('Keeps commands with the same terminalName in one dedicated terminal', async function () {
+    this.timeout(15000);
+    const terminalIdOf = (text: string) => text.match(/terminal \(id: (\d+)\)/)?.[1];
+    const [, first] = await tool.execute('echo "named 1"', undefined, false, false, 300000, { terminalName: 'named-test' });
+    const [, second] = await tool.execute('echo "named 2"', undefined, false, false, 300000, { terminalName: 'named-test' });
+    const [, unnamed] = await tool.execute('echo "unnamed"', undefined, false);
+
+    const namedId = terminalIdOf(first.text);
+    assert.ok(namedId, 'Response should include terminal ID');
+    assert.strictEqual(terminalIdOf(second.text), namedId, 'Same terminalName should reuse the terminal');
+    assert.notStrictEqual(terminalIdOf(unnamed.text), namedId, 'Unnamed commands should not use named terminals');
+
+    const info = TerminalRegistry.getTerminal(Number(namedId));
+    assert.strictEqual(info?.terminalName, 'named-test');
+    assert.strictEqual(info?.terminal.name, 'Relief Pilot: named-test');
+  });
+
   suite('DestructiveFlag Tests', function () {
     setup(function () {
       // Reset the test tool before each test
@@ -259,6 +331,51 @@ suite('Execute Command Tool Test Suite', function () {
       assert.match(response.text, /terminal \(id: "?\d+"?\)/, 'Response should include terminal ID');
     });
 
+    test('Command should return as soon as waitFor pattern matches', async function () {
+      const startTime = Date.now();
+
+      const [userRejected, response] = await tool.execute(
+        'echo "starting" && sleep 1 && echo "Listening on 3000" && sleep 5',
+        undefined,
+        false,
+        false,
+        300000,
+        { waitFor: 'Listening on \\d+', waitForTimeout: 4000 },
+      );
+
+      const duration = Date.now() - startTime;
+      assert.strictEqual(userRejected, false, 'Command should not be user rejected');
+      assert.ok(duration < 4500, `Command returned in ${duration}ms, should not wait for the command to exit`);
+      assert.match(response.text, /matched waitFor pattern/, 'Response should report the matched pattern');
+      assert.match(response.text, /Listening on 3000/, 'Response should include the matched line');
+    });
+
+    test('killAfter should stop a hung command and report it', async function () {
+      const startTime = Date.now();
+
+      const [userRejected, response] = await tool.execute(
+        'echo "hanging" && sleep 30',
+        undefined,
+        false,
+        false,
+        20000,
+        { killAfter: 1000 },
+      );
+
+      const duration = Date.now() - startTime;
+      assert.strictEqual(userRejected, false, 'Command should not be user rejected');
+      assert.ok(duration < 8000, `Command returned in ${duration}ms, should not wait for sleep to finish`);
+      assert.match(response.text, /killed after 1000ms \(killAfter\)/, 'Response should report the kill');
+      assert.match(response.text, /terminal \(id: \d+\)/, 'Response should include terminal ID');
+    });
+
+    test('Invalid waitFor pattern should be rejected before running', async function () {
+      await assert.rejects(
+        tool.execute('echo "never"', undefined, false, false, 1000, { waitFor: '([' }),
+        /Invalid waitFor pattern/,
+      );
+    });
+
     test('Command should include terminal ID in normal execution', async function () {
       console.log('Running terminal ID test for normal execution');
 
@@ -97,6 +97,20 @@ suite('Get Terminal Output Tool Test Suite', function () {
     assert.match(response.text, /Line 4[0-9]|Line 50/, 'Output should contain the last lines');
   });
 
+  test('Get output with cursor and grep', async function () {
+    await execTool.execute('echo "cursor alpha" && echo "cursor ERROR beta" && echo "cursor gamma"', undefined, false);
+
+    const first = await getOutputTool.execute(testTerminalId, 100, undefined, { sinceCursor: 0, grep: 'ERROR' });
+    assert.match(first.text, /\d+:cursor ERROR beta/, 'Grep should return the matching line with its number');
+    assert.doesNotMatch(first.text, /cursor gamma/, 'Non-matching lines should be filtered out');
+    const cursorMatch = first.text.match(/Next cursor: (\d+)/);
+    assert.ok(cursorMatch, 'Response should include the next cursor');
+    assert.strictEqual(first.nextCursor, parseInt(cursorMatch[1], 10), 'The cursor should also be returned apart from the text');
+
+    const second = await getOutputTool.execute(testTerminalId, 100, undefined, { sinceCursor: parseInt(cursorMatch[1], 10) });
+    assert.doesNotMatch(second.text, /cursor alpha/, 'Output before the cursor should not be returned again');
+  });
+
   test('Get output from non-existent terminal', async function () {
     // Try to get output from a non-existent terminal ID
     const response = await getOutputTool.execute(99999);
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { describeTaskCommand, findTaskDependencies, toTaskSnapshot } from '../../tools/list_tasks';
+
+suite('List Tasks Tool Test Suite', function () {
+  test('Describes shell and process task command lines', function () {
+    const shell = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'build', 'Workspace', new vscode.ShellExecution('npm run build'));
+    assert.strictEqual(describeTaskCommand(shell), 'npm run build');
+
+    const args = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'grep', 'Workspace', new vscode.ShellExecution('grep', ['-R', 'hello world', 'src']));
+    assert.strictEqual(describeTaskCommand(args), 'grep -R "hello world" src');
+
+    const proc = new vscode.Task({ type: 'process' }, vscode.TaskScope.Workspace, 'test', 'Workspace', new vscode.ProcessExecution('node', ['--test']));
+    assert.strictEqual(describeTaskCommand(proc), 'node --test');
+  });
+
+  test('Snapshots are JSON-safe and report custom executions without a command', function () {
+    const custom = new vscode.Task(
+      { type: 'custom' },
+      vscode.TaskScope.Workspace,
+      'custom',
+      'Extension',
+      new vscode.CustomExecution(async () => ({ onDidWrite: new vscode.EventEmitter<string>().event, open() { }, close() { } })),
+    );
+    const snapshot = toTaskSnapshot(custom);
+    assert.strictEqual(snapshot.command, null);
+    assert.strictEqual(snapshot.source, 'Extension');
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(snapshot)), snapshot);
+  });
+
+  test('Finds the dependencies of a tasks.json entry', function () {
+    const entries = [
+      { label: 'build', type: 'shell', command: 'tsc', dependsOn: ['clean', { type: 'npm', script: 'codegen' }] },
+      { label: 'clean', type: 'shell', command: 'rm -rf dist' },
+      { label: 'ci', dependsOn: 'build' },
+    ];
+    assert.deepStrictEqual(findTaskDependencies(entries, 'build'), ['clean', 'codegen']);
+    assert.deepStrictEqual(findTaskDependencies(entries, 'ci'), ['build']);
+    assert.deepStrictEqual(findTaskDependencies(entries, 'clean'), []);
+    assert.deepStrictEqual(findTaskDependencies(undefined, 'build'), []);
+  });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExecuteCommandTool } from '../../tools/execute_command';
+import { GetTerminalOutputTool } from '../../tools/get_terminal_output';
+import { collectTerminals } from '../../tools/list_terminals';
+
+// Testing version of ExecuteCommandTool
+class TestableExecuteCommandTool extends ExecuteCommandTool {
+  constructor(cwd: string) {
+    super(cwd);
+  }
+
+  // Override ask to avoid UI prompts during tests
+  protected async ask(_command: string) {
+    return { approved: true, updatedCommand: _command };
+  }
+}
+
+suite('List Terminals Tool Test Suite', function () {
+  this.timeout(15000);
+
+  const tmpDir = path.join(__dirname, '../../test-tmp');
+  let execTool: TestableExecuteCommandTool;
+
+  suiteSetup(async function () {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(tmpDir));
+    execTool = new TestableExecuteCommandTool(tmpDir);
+  });
+
+  suiteTeardown(async function () {
+    await vscode.workspace.fs.delete(vscode.Uri.file(tmpDir), { recursive: true });
+  });
+
+  test('Lists a terminal created by execute_command', async function () {
+    const [, response] = await execTool.execute('echo "list terminals test"', undefined, false);
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+
+    const entry = collectTerminals().find((t) => t.terminalId === match[1]);
+    assert.ok(entry, 'Terminal should be listed');
+    assert.strictEqual(entry.lastCommand, 'echo "list terminals test"', 'Last command should be reported');
+    assert.ok(!Number.isNaN(Date.parse(entry.createdAt)), 'createdAt should be an ISO timestamp');
+  });
+
+  test('Counts output produced after a background start as unretrieved', async function () {
+    const [, response] = await execTool.execute('echo "pending 1" && echo "pending 2"', undefined, false, true);
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    await new Promise(r => setTimeout(r, 1500));
+
+    const before = collectTerminals().find((t) => t.terminalId === match[1]);
+    assert.ok(before, 'Terminal should be listed');
+    // Output lines are only captured with shell integration
+    if (before.shellIntegration) {
+      assert.ok(before.unretrievedOutputLines >= 2, 'Background output should be pending');
+    }
+
+    await new GetTerminalOutputTool().execute(match[1]);
+    const after = collectTerminals().find((t) => t.terminalId === match[1]);
+    assert.strictEqual(after?.unretrievedOutputLines, 0, 'Retrieving output should clear the pending count');
+  });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExecuteCommandTool } from '../../tools/execute_command';
+import { describeTerminalInput, SendTerminalInputTool } from '../../tools/send_terminal_input';
+
+// Testing version of ExecuteCommandTool
+class TestableExecuteCommandTool extends ExecuteCommandTool {
+  constructor(cwd: string) {
+    super(cwd);
+  }
+
+  // Override ask to avoid UI prompts during tests
+  protected async ask(_command: string) {
+    return { approved: true, updatedCommand: _command };
+  }
+}
+
+// Testing version of SendTerminalInputTool with a scripted confirmation answer
+class TestableSendTerminalInputTool extends SendTerminalInputTool {
+  public askCalled = false;
+  public approve = true;
+  public warnings: string[] = [];
+
+  protected async ask(_terminalId: number, _preview: string, warnings: string[] = []) {
+    this.askCalled = true;
+    this.warnings = warnings;
+    return this.approve ? { approved: true } : { approved: false, feedback: 'not now' };
+  }
+}
+
+suite('Send Terminal Input Tool Test Suite', function () {
+  this.timeout(20000);
+
+  const tmpDir = path.join(__dirname, '../../test-tmp');
+  let execTool: TestableExecuteCommandTool;
+  let inputTool: TestableSendTerminalInputTool;
+
+  suiteSetup(async function () {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(tmpDir));
+    execTool = new TestableExecuteCommandTool(tmpDir);
+    inputTool = new TestableSendTerminalInputTool();
+  });
+
+  suiteTeardown(async function () {
+    await vscode.workspace.fs.delete(vscode.Uri.file(tmpDir), { recursive: true });
+  });
+
+  setup(function () {
+    inputTool.askCalled = false;
+    inputTool.approve = true;
+    inputTool.warnings = [];
+  });
+
+  test('Describes text and keys', function () {
+    assert.strictEqual(describeTerminalInput('y', ['enter']), '"y" <enter>');
+    assert.strictEqual(describeTerminalInput(undefined, ['ctrl-c']), '<ctrl-c>');
+  });
+
+  test('Answers an interactive prompt', async function () {
+    const [, response] = await execTool.execute(
+      'read -p "Are you sure? [y/N] " answer && echo "answer=$answer"',
+      undefined,
+      false,
+      true,
+    );
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    await new Promise(r => setTimeout(r, 1000));
+
+    const [userRejected, result] = await inputTool.execute(match[1], 'y', ['enter'], 1000);
+
+    assert.strictEqual(inputTool.askCalled, true, 'Sending input should require confirmation');
+    assert.strictEqual(userRejected, false, 'Input should not be user rejected');
+    assert.match(result.text, /answer=y/, 'Output should show the answered prompt');
+  });
+
+  test('Declined input is not sent', async function () {
+    const [, response] = await execTool.execute('echo "idle terminal"', undefined, false);
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    inputTool.approve = false;
+
+    const [userRejected, result] = await inputTool.execute(match[1], 'echo should-not-run', ['enter']);
+
+    assert.strictEqual(userRejected, true, 'Input should be user rejected');
+    assert.match(result.text, /not now/, 'Response should include user feedback');
+  });
+
+  test('Text for an idle shell is analyzed like a command', async function () {
+    const [, response] = await execTool.execute('echo "idle shell"', undefined, false);
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    inputTool.approve = false;
+
+    await inputTool.execute(match[1], 'rm -rf build', ['enter']);
+
+    assert.match(inputTool.warnings.join(), /`rm` modifies files/, 'Confirmation should show the classifier reasons');
+  });
+
+  test('Requires text or keys', async function () {
+    const [, result] = await inputTool.execute(1);
+    assert.match(result.text, /Nothing to send/, 'Should reject empty input');
+    assert.strictEqual(inputTool.askCalled, false, 'No confirmation for empty input');
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TerminalRegistry } from '../../integrations/terminal/TerminalRegistry';
+import { ExecuteCommandTool } from '../../tools/execute_command';
+import { TerminateCommandTool } from '../../tools/terminate_command';
+
+// Testing version of ExecuteCommandTool
+class TestableExecuteCommandTool extends ExecuteCommandTool {
+  constructor(cwd: string) {
+    super(cwd);
+  }
+
+  // Override ask to avoid UI prompts during tests
+  protected async ask(_command: string) {
+    return { approved: true, updatedCommand: _command };
+  }
+}
+
+// Testing version of TerminateCommandTool with a scripted confirmation answer
+class TestableTerminateCommandTool extends TerminateCommandTool {
+  public askCalled = false;
+  public approve = true;
+
+  protected async ask(_terminalId: number, _command: string) {
+    this.askCalled = true;
+    return this.approve ? { approved: true } : { approved: false, feedback: 'keep it running' };
+  }
+}
+
+suite('Terminate Command Tool Test Suite', function () {
+  this.timeout(20000);
+
+  const tmpDir = path.join(__dirname, '../../test-tmp');
+  let execTool: TestableExecuteCommandTool;
+  let terminateTool: TestableTerminateCommandTool;
+
+  suiteSetup(async function () {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(tmpDir));
+    execTool = new TestableExecuteCommandTool(tmpDir);
+    terminateTool = new TestableTerminateCommandTool();
+  });
+
+  suiteTeardown(async function () {
+    await vscode.workspace.fs.delete(vscode.Uri.file(tmpDir), { recursive: true });
+  });
+
+  setup(function () {
+    terminateTool.askCalled = false;
+    terminateTool.approve = true;
+  });
+
+  async function startBackground(command: string): Promise<number> {
+    const [userRejected, response] = await execTool.execute(command, undefined, false, true);
+    assert.strictEqual(userRejected, false, 'Command should not be user rejected');
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    // Give the shell time to start the command
+    await new Promise(r => setTimeout(r, 1500));
+    return parseInt(match[1], 10);
+  }
+
+  test('Stops a background command with an interrupt', async function () {
+    const tid = await startBackground('echo "server started" && sleep 60');
+
+    const [userRejected, response] = await terminateTool.execute(tid, 3000);
+
+    assert.strictEqual(terminateTool.askCalled, true, 'Termination should require confirmation');
+    assert.strictEqual(userRejected, false, 'Termination should not be user rejected');
+    assert.match(response.text, /stopped after interrupt|terminal was disposed/, 'Response should report how the command stopped');
+    assert.match(response.text, new RegExp(`terminal \\(id: ${tid}\\)`), 'Response should include terminal ID');
+  });
+
+  test('Declined termination leaves the command running', async function () {
+    const tid = await startBackground('sleep 60');
+    terminateTool.approve = false;
+
+    const [userRejected, response] = await terminateTool.execute(tid);
+
+    assert.strictEqual(userRejected, true, 'Termination should be user rejected');
+    assert.match(response.text, /keep it running/, 'Response should include user feedback');
+    assert.ok(TerminalRegistry.getTerminal(tid)?.busy, 'Command should still be running');
+
+    // Clean up the still running command
+    terminateTool.approve = true;
+    await terminateTool.execute(tid, 1000);
+  });
+
+  test('Reports unknown terminals without confirmation', async function () {
+    const [, notFound] = await terminateTool.execute(99999);
+    assert.match(notFound.text, /not found/, 'Should indicate terminal not found');
+    assert.strictEqual(terminateTool.askCalled, false, 'No confirmation for unknown terminals');
+  });
+});
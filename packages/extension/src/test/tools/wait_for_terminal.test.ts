@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExecuteCommandTool } from '../../tools/execute_command';
+import { WaitForTerminalTool } from '../../tools/wait_for_terminal';
+
+// Testing version of ExecuteCommandTool
+class TestableExecuteCommandTool extends ExecuteCommandTool {
+  constructor(cwd: string) {
+    super(cwd);
+  }
+
+  // Override ask to avoid UI prompts during tests
+  protected async ask(_command: string) {
+    return { approved: true, updatedCommand: _command };
+  }
+}
+
+suite('Wait For Terminal Tool Test Suite', function () {
+  this.timeout(20000);
+
+  const tmpDir = path.join(__dirname, '../../test-tmp');
+  let execTool: TestableExecuteCommandTool;
+  let waitTool: WaitForTerminalTool;
+
+  suiteSetup(async function () {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(tmpDir));
+    execTool = new TestableExecuteCommandTool(tmpDir);
+    waitTool = new WaitForTerminalTool();
+  });
+
+  suiteTeardown(async function () {
+    await vscode.workspace.fs.delete(vscode.Uri.file(tmpDir), { recursive: true });
+  });
+
+  async function startBackground(command: string): Promise<number> {
+    const [, response] = await execTool.execute(command, undefined, false, true);
+    const match = response.text.match(/terminal \(id: (\d+)\)/);
+    assert.ok(match, 'Response should include terminal ID');
+    return parseInt(match[1], 10);
+  }
+
+  test('Waits for a pattern in a background command', async function () {
+    const tid = await startBackground('sleep 1 && echo "Compiled successfully" && sleep 3');
+
+    const response = await waitTool.execute(tid, 'Compiled successfully', 5000);
+
+    assert.match(response.text, /matched/, 'Response should report the match');
+    assert.match(response.text, /Compiled successfully/, 'Response should include the matched output');
+  });
+
+  test('Detects a pattern printed before the call', async function () {
+    const tid = await startBackground('echo "ready now" && sleep 3');
+    await new Promise(r => setTimeout(r, 1500));
+
+    const startTime = Date.now();
+    const response = await waitTool.execute(tid, 'ready now', 5000);
+
+    assert.ok(Date.now() - startTime < 1000, 'Already printed output should match immediately');
+    assert.match(response.text, /matched/, 'Response should report the match');
+  });
+
+  test('Waits for completion without a pattern', async function () {
+    const tid = await startBackground('sleep 1 && echo "all done"');
+
+    const response = await waitTool.execute(tid, undefined, 5000);
+
+    assert.match(response.text, /is not running/, 'Response should report completion');
+    assert.match(response.text, /all done/, 'Response should include the new output');
+  });
+
+  test('Reports non-existent terminal', async function () {
+    const response = await waitTool.execute(99999, 'x', 100);
+    assert.match(response.text, /not found/, 'Should indicate terminal not found');
+  });
+});
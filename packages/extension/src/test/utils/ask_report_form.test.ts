@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { initialFormValues, normalizeFormFields, validateFormValues } from '../../utils/ask_report_form';
+
+suite('ask_report form fields', () => {
+    const { fields } = normalizeFormFields([
+        { name: 'approve', type: 'boolean', label: 'Approve requirements?' },
+        { name: 'tasks', type: 'multiselect', options: ['1.1', '1.2', '2.1'], required: true },
+        { name: 'env', type: 'select', options: ['dev', 'prod'], default: 'dev' },
+        { name: 'retries', type: 'number', min: 0, max: 5 },
+        { name: 'notes', type: 'multiline' },
+    ]);
+
+    test('normalizes fields and reports invalid ones', () => {
+        assert.strictEqual(fields.length, 5);
+        assert.deepStrictEqual(initialFormValues(fields), { approve: false, tasks: null, env: 'dev', retries: null, notes: null });
+
+        const { fields: kept, errors } = normalizeFormFields([
+            { name: 'ok', type: 'text' },
+            { name: 'ok', type: 'text' },
+            { name: 'bad type', type: 'text' },
+            { name: 'color', type: 'color' },
+            { name: 'pick', type: 'select' },
+            { name: 'level', type: 'select', options: ['a'], default: 'b' },
+        ]);
+        assert.deepStrictEqual(kept.map(f => f.name), ['ok']);
+        assert.strictEqual(errors.length, 5);
+        assert.deepStrictEqual(normalizeFormFields('nope').errors, ['form must be an array of fields.']);
+    });
+
+    test('returns typed values for every field', () => {
+        const { values, errors } = validateFormValues(fields, {
+            approve: true,
+            tasks: ['2.1', '1.1'],
+            env: 'prod',
+            retries: '3',
+            notes: '   ',
+            extra: 'ignored',
+        });
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(values, { approve: true, tasks: ['1.1', '2.1'], env: 'prod', retries: 3, notes: null });
+    });
+
+    test('rejects missing required values, unknown options and out-of-range numbers', () => {
+        const { values, errors } = validateFormValues(fields, { tasks: [], env: 'staging', retries: 9 });
+        assert.deepStrictEqual(errors, [
+            'tasks is required.',
+            'env: "staging" is not one of the options.',
+            'retries: must be at most 5.',
+        ]);
+        assert.strictEqual(values.approve, false);
+    });
+});
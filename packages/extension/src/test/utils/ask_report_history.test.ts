@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+
+import { askReportHistory } from '../../utils/ask_report_history';
+
+function memento(initial: Record<string, unknown>): vscode.Memento & { data: Record<string, unknown> } {
+    const data = { ...initial };
+    return {
+        data,
+        keys: () => Object.keys(data),
+        get: <T>(key: string, fallback?: T) => (key in data ? data[key] : fallback) as T,
+        update: async (key: string, value: unknown) => { data[key] = value; },
+    };
+}
+
+suite('ask_report history', () => {
+    test('marks entries left without a result as interrupted on load', async () => {
+        const storage = memento({
+            'reliefpilot.askReportHistory.entries': [
+                { id: 'pending', timestamp: 2, topic: 'Refactor?', markdown: 'Which files?' },
+                { id: 'done', timestamp: 1, topic: 'Done', markdown: 'OK?', result: { decision: 'Submit', value: 'Yes' } },
+            ],
+        });
+        askReportHistory.initStorage(storage);
+
+        const pending = askReportHistory.getById('pending');
+        assert.deepStrictEqual(pending?.result, { decision: 'Cancel', value: '', interrupted: true });
+        assert.strictEqual(pending?.markdown, 'Which files?');
+        assert.deepStrictEqual(askReportHistory.getById('done')?.result, { decision: 'Submit', value: 'Yes' });
+
+        await new Promise(resolve => setImmediate(resolve));
+        const stored = storage.data['reliefpilot.askReportHistory.entries'] as Array<{ id: string; result?: { interrupted?: boolean } }>;
+        assert.strictEqual(stored.find(e => e.id === 'pending')?.result?.interrupted, true);
+    });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+
+import { normalizePredefinedOptions, resolveSelectedOptions, toAskReportOptions } from '../../utils/ask_report_options';
+
+suite('ask_report predefined options', () => {
+    test('accepts bare strings and described options', () => {
+        const { options, errors } = normalizePredefinedOptions([
+            'src/a.ts',
+            { label: ' src/b.ts ', description: '  400 lines  ', recommended: true },
+            { label: 'src/c.ts', description: '', recommended: 'yes' },
+        ]);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(options, [
+            { label: 'src/a.ts' },
+            { label: 'src/b.ts', description: '400 lines', recommended: true },
+            { label: 'src/c.ts' },
+        ]);
+    });
+
+    test('reports duplicates, empty labels and malformed items', () => {
+        const { options, errors } = normalizePredefinedOptions(['Yes', 'Yes', '  ', { description: 'no label' }, 42]);
+        assert.deepStrictEqual(options.map(o => o.label), ['Yes']);
+        assert.strictEqual(errors.length, 4);
+        assert.deepStrictEqual(normalizePredefinedOptions('Yes').errors, ['predefinedOptions must be an array.']);
+        assert.deepStrictEqual(normalizePredefinedOptions(undefined), { options: [], errors: [] });
+    });
+
+    test('upgrades history entries stored as bare strings', () => {
+        assert.deepStrictEqual(toAskReportOptions(['Yes', 'No']), [{ label: 'Yes' }, { label: 'No' }]);
+        assert.deepStrictEqual(toAskReportOptions(undefined), []);
+    });
+
+    test('keeps only known selections in option order', () => {
+        const options = toAskReportOptions(['a', 'b', 'c']);
+        assert.deepStrictEqual(resolveSelectedOptions(options, ['c', 'x', 'a', 1]), ['a', 'c']);
+        assert.deepStrictEqual(resolveSelectedOptions(options, 'a'), []);
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+
+import { askReportQueue } from '../../utils/ask_report_queue';
+
+suite('ask_report pending queue', () => {
+    teardown(() => {
+        askReportQueue.list().forEach(i => askReportQueue.remove(i.id));
+    });
+
+    test('keeps pending reports oldest first', () => {
+        askReportQueue.add({ id: 'b', title: 'Second', createdAt: 2 });
+        askReportQueue.add({ id: 'a', title: 'First', createdAt: 1 });
+        askReportQueue.add({ id: 'c', title: 'Third', createdAt: 3 });
+        assert.deepStrictEqual(askReportQueue.list().map(i => i.id), ['a', 'b', 'c']);
+        assert.strictEqual(askReportQueue.oldest()?.id, 'a');
+        assert.strictEqual(askReportQueue.size, 3);
+    });
+
+    test('ignores duplicates and unknown removals', () => {
+        askReportQueue.add({ id: 'a', title: 'First', createdAt: 1 });
+        askReportQueue.add({ id: 'a', title: 'Again', createdAt: 5 });
+        assert.strictEqual(askReportQueue.size, 1);
+        assert.strictEqual(askReportQueue.remove('missing'), false);
+        assert.strictEqual(askReportQueue.remove('a'), true);
+        assert.strictEqual(askReportQueue.oldest(), undefined);
+        assert.ok(!askReportQueue.has('a'));
+    });
+});
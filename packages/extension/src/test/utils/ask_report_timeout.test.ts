@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { normalizeFormFields } from '../../utils/ask_report_form';
+import { toAskReportOptions } from '../../utils/ask_report_options';
+import { describeTimeout, normalizeTimeoutPolicy, resolveTimeoutPolicy, resolveTimeoutSeconds } from '../../utils/ask_report_timeout';
+
+suite('ask_report timeout policies', () => {
+    const options = toAskReportOptions([
+        'a.ts',
+        { label: 'b.ts', recommended: true },
+        { label: 'c.ts', recommended: true },
+    ]);
+    const cannedReply = 'Continue with your best judgement.';
+
+    test('caps the agent hint by the user maximum', () => {
+        assert.strictEqual(resolveTimeoutSeconds(undefined, 600), 600);
+        assert.strictEqual(resolveTimeoutSeconds(30, 600), 30);
+        assert.strictEqual(resolveTimeoutSeconds(3600, 600), 600);
+        assert.strictEqual(resolveTimeoutSeconds(0.4, 600), 1);
+        assert.strictEqual(resolveTimeoutSeconds(-5, 600), 600);
+        // 0 disables the timeout
+        assert.strictEqual(resolveTimeoutSeconds(30, 0), 0);
+        assert.strictEqual(normalizeTimeoutPolicy('bogus'), 'cancel');
+    });
+
+    test('submits recommended options', () => {
+        const single = resolveTimeoutPolicy('recommended', { options, multiSelect: false, cannedReply });
+        assert.deepStrictEqual(single, { policy: 'recommended', decision: 'Submit', value: 'b.ts', selectedOptions: ['b.ts'], formValues: undefined });
+
+        const multi = resolveTimeoutPolicy('recommended', { options, multiSelect: true, cannedReply });
+        assert.deepStrictEqual(multi.selectedOptions, ['b.ts', 'c.ts']);
+        assert.strictEqual(multi.value, '');
+    });
+
+    test('falls back to cancel when the policy cannot apply', () => {
+        const none = resolveTimeoutPolicy('recommended', { options: toAskReportOptions(['x']), multiSelect: false, cannedReply });
+        assert.strictEqual(none.policy, 'cancel');
+        assert.strictEqual(none.decision, 'Cancel');
+        assert.match(none.fallbackReason ?? '', /no option is marked recommended/);
+
+        const { fields } = normalizeFormFields([{ name: 'reason', type: 'text', required: true }]);
+        assert.strictEqual(resolveTimeoutPolicy('recommended', { options, multiSelect: false, form: fields, cannedReply }).policy, 'cancel');
+
+        const empty = resolveTimeoutPolicy('cannedReply', { options: [], multiSelect: false, cannedReply: '  ' });
+        assert.strictEqual(empty.policy, 'cancel');
+        assert.ok(describeTimeout(60, empty.policy, empty.fallbackReason).includes('"cannedReply" did not apply'));
+    });
+
+    test('submits the canned reply with valid form defaults', () => {
+        const { fields } = normalizeFormFields([{ name: 'env', type: 'select', options: ['dev', 'prod'], default: 'dev' }]);
+        const res = resolveTimeoutPolicy('cannedReply', { options, multiSelect: false, form: fields, cannedReply });
+        assert.deepStrictEqual(res, {
+            policy: 'cannedReply',
+            decision: 'Submit',
+            value: cannedReply,
+            selectedOptions: [],
+            formValues: { env: 'dev' },
+        });
+        assert.strictEqual(resolveTimeoutPolicy('cancel', { options, multiSelect: false, cannedReply }).fallbackReason, undefined);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { matchesCommandGrant, suggestGrantPrefix } from '../../utils/command_grants';
+
+suite('Command grants', () => {
+    test('prefix suggestion keeps the executable and its subcommand', () => {
+        assert.strictEqual(suggestGrantPrefix('npm test'), 'npm test');
+        assert.strictEqual(suggestGrantPrefix('npm test -- --grep foo'), 'npm test');
+        assert.strictEqual(suggestGrantPrefix('git status --short'), 'git status');
+        assert.strictEqual(suggestGrantPrefix('npm run build --watch'), 'npm run build');
+        assert.strictEqual(suggestGrantPrefix('ls -la src'), 'ls');
+        assert.strictEqual(suggestGrantPrefix('git -C packages/app log --oneline'), 'git log');
+    });
+
+    test('commands the classifier flags only get exact grants', () => {
+        assert.strictEqual(suggestGrantPrefix('rm -rf dist'), undefined);
+        assert.strictEqual(suggestGrantPrefix('chmod -R 777 .'), undefined);
+        assert.strictEqual(suggestGrantPrefix('git push --force'), undefined);
+        assert.strictEqual(suggestGrantPrefix('rm -rf'), undefined);
+    });
+
+    test('no prefix is suggested for chains, redirections or env assignments', () => {
+        assert.strictEqual(suggestGrantPrefix('npm test && npm run lint'), undefined);
+        assert.strictEqual(suggestGrantPrefix('npm test > out.txt'), undefined);
+        assert.strictEqual(suggestGrantPrefix('CI=1 npm test'), undefined);
+    });
+
+    test('exact grants match the whole command line only', () => {
+        const grant = { matchType: 'exact' as const, command: 'npm test' };
+        assert.strictEqual(matchesCommandGrant(grant, '  npm test '), true);
+        assert.strictEqual(matchesCommandGrant(grant, 'npm test --watch'), false);
+    });
+
+    test('prefix grants match plain commands with further arguments', () => {
+        const grant = { matchType: 'prefix' as const, command: 'npm test' };
+        assert.strictEqual(matchesCommandGrant(grant, 'npm test'), true);
+        assert.strictEqual(matchesCommandGrant(grant, 'npm test -- --grep foo'), true);
+        assert.strictEqual(matchesCommandGrant(grant, 'npm testing'), false);
+        assert.strictEqual(matchesCommandGrant(grant, 'npm run test'), false);
+        const log = { matchType: 'prefix' as const, command: 'git log' };
+        assert.strictEqual(matchesCommandGrant(log, 'git -C packages/app log --oneline'), true);
+        assert.strictEqual(matchesCommandGrant(log, 'git -C log status'), false);
+    });
+
+    test('prefix grants do not add operands to commands the classifier flags', () => {
+        const rm = { matchType: 'prefix' as const, command: 'rm -rf dist' };
+        assert.strictEqual(matchesCommandGrant(rm, 'rm -rf dist'), true);
+        assert.strictEqual(matchesCommandGrant(rm, 'rm -rf dist /'), false);
+        assert.strictEqual(matchesCommandGrant(rm, 'rm -rf dist ~'), false);
+        const chmod = { matchType: 'prefix' as const, command: 'chmod -R 777' };
+        assert.strictEqual(matchesCommandGrant(chmod, 'chmod -R 777 .'), false);
+        assert.strictEqual(matchesCommandGrant(chmod, 'chmod -R 777 /etc'), false);
+    });
+
+    test('prefix grants never cover chained, piped, redirected or substituted commands', () => {
+        const grant = { matchType: 'prefix' as const, command: 'npm test' };
+        for (const cmd of ['npm test && rm -rf dist', 'npm test; rm -rf dist', 'npm test | sh', 'npm test > out.txt', 'npm test $(rm -rf dist)']) {
+            assert.strictEqual(matchesCommandGrant(grant, cmd), false, cmd);
+        }
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+
+import {
+    evaluateCommandPolicy,
+    getExecutableName,
+    normalizeRules,
+    splitCommandSegments,
+} from '../../utils/command_policy';
+
+const rules = normalizeRules([
+    { action: 'deny', command: 'rm -rf /', description: 'no root wipe' },
+    { action: 'deny', command: 'git push*--force*' },
+    { action: 'allow', command: 'git status' },
+    { action: 'allow', command: '^npm (test|run lint)$', matchType: 'regex' },
+    { action: 'confirm', executable: 'curl' },
+    { action: 'allow', executable: 'ls', cwd: '/repo*' },
+], 'workspace');
+
+suite('Command policy engine', () => {
+    test('splits chains on unquoted operators only', () => {
+        assert.deepStrictEqual(
+            splitCommandSegments('git status && echo "a && b" | grep a; ls\nnpm test'),
+            ['git status', 'echo "a && b"', 'grep a', 'ls', 'npm test'],
+        );
+    });
+
+    test('extracts executable skipping env assignments', () => {
+        assert.strictEqual(getExecutableName('CI=1 NODE_ENV=test /usr/bin/npm test'), 'npm');
+    });
+
+    test('allows a command matched by an allow rule', () => {
+        const decision = evaluateCommandPolicy(rules, { command: 'git status', cwd: '/repo' });
+        assert.strictEqual(decision.action, 'allow');
+    });
+
+    test('regex rules match', () => {
+        const decision = evaluateCommandPolicy(rules, { command: 'npm test', cwd: '/repo' });
+        assert.strictEqual(decision.action, 'allow');
+    });
+
+    test('denies when any segment is denied and reports the rule', () => {
+        const decision = evaluateCommandPolicy(rules, { command: 'git status && rm -rf /', cwd: '/repo' });
+        assert.strictEqual(decision.action, 'deny');
+        assert.strictEqual(decision.rule?.description, 'no root wipe');
+        assert.strictEqual(decision.segment, 'rm -rf /');
+    });
+
+    test('deny rules see through wrappers, assignments and extra whitespace', () => {
+        for (const command of ['sudo rm -rf /', 'rm  -rf /', 'FOO=1 timeout 5 rm -rf /', "env -i 'rm' -rf /"]) {
+            assert.strictEqual(evaluateCommandPolicy(rules, { command, cwd: '/repo' }).action, 'deny', command);
+        }
+        assert.strictEqual(evaluateCommandPolicy(rules, { command: 'sudo curl example.com', cwd: '/repo' }).action, 'confirm');
+        const regexDeny = normalizeRules([{ action: 'deny', command: '^rm -rf ', matchType: 'regex' }], 'user');
+        assert.strictEqual(evaluateCommandPolicy(regexDeny, { command: 'nohup rm -rf build', cwd: '/repo' }).action, 'deny');
+    });
+
+    test('allow rules do not extend to wrapped commands', () => {
+        const allowRm = normalizeRules([{ action: 'allow', executable: 'rm' }, { action: 'allow', command: 'rm *' }], 'user');
+        assert.strictEqual(evaluateCommandPolicy(allowRm, { command: 'rm dist/a.js', cwd: '/repo' }).action, 'allow');
+        assert.strictEqual(evaluateCommandPolicy(allowRm, { command: 'sudo rm dist/a.js', cwd: '/repo' }).action, undefined);
+    });
+
+    test('allow rules do not cover segments that redirect into a file', () => {
+        const allowAll = normalizeRules([{ action: 'allow', command: 'git status*' }, { action: 'allow', executable: 'echo' }], 'user');
+        assert.strictEqual(evaluateCommandPolicy(rules, { command: 'git status > ~/.bashrc', cwd: '/repo' }).action, undefined);
+        assert.strictEqual(evaluateCommandPolicy(allowAll, { command: 'git status >> ~/.bashrc', cwd: '/repo' }).action, undefined);
+        assert.strictEqual(evaluateCommandPolicy(allowAll, { command: 'echo x > .git/hooks/pre-commit', cwd: '/repo' }).action, undefined);
+        assert.strictEqual(evaluateCommandPolicy(allowAll, { command: 'git status 2> /dev/null', cwd: '/repo' }).action, 'allow');
+    });
+
+    test('does not auto-allow chains with uncovered segments', () => {
+        const decision = evaluateCommandPolicy(rules, { command: 'git status && make', cwd: '/repo' });
+        assert.strictEqual(decision.action, undefined);
+    });
+
+    test('confirm rules win over allow rules in the same chain', () => {
+        const decision = evaluateCommandPolicy(rules, { command: 'git status; curl example.com', cwd: '/repo' });
+        assert.strictEqual(decision.action, 'confirm');
+    });
+
+    test('cwd pattern restricts a rule', () => {
+        assert.strictEqual(evaluateCommandPolicy(rules, { command: 'ls -la', cwd: '/repo/sub' }).action, 'allow');
+        assert.strictEqual(evaluateCommandPolicy(rules, { command: 'ls -la', cwd: '/etc' }).action, undefined);
+    });
+
+    test('reports a mode only when all segments agree', () => {
+        const modeRules = normalizeRules([
+            { action: 'allow', executable: 'rg', mode: 'headless' },
+            { action: 'allow', executable: 'wc', mode: 'headless' },
+            { action: 'allow', executable: 'ls' },
+        ], 'user');
+        assert.strictEqual(evaluateCommandPolicy(modeRules, { command: 'rg foo | wc -l', cwd: '/repo' }).mode, 'headless');
+        assert.strictEqual(evaluateCommandPolicy(modeRules, { command: 'rg foo && ls', cwd: '/repo' }).mode, undefined);
+        assert.strictEqual(evaluateCommandPolicy(modeRules, { command: 'rg foo && make', cwd: '/repo' }).mode, undefined);
+    });
+
+    test('ignores rules without action or patterns', () => {
+        const normalized = normalizeRules([{ action: 'allow' }, { command: 'ls' }, null], 'user');
+        assert.strictEqual(normalized.length, 0);
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CHECKPOINT_REF_PREFIX, createCheckpoint, findGitRoot, pruneCheckpoints, restoreCheckpoint } from '../../utils/git_checkpoint';
+
+function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+}
+
+suite('Git checkpoints', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rp-checkpoint-')));
+        git(root, 'init', '-q');
+        git(root, 'config', 'user.name', 'Test');
+        git(root, 'config', 'user.email', 'test@example.com');
+        fs.writeFileSync(path.join(root, '.gitignore'), 'build/\n');
+        fs.writeFileSync(path.join(root, 'a.txt'), 'one\n');
+        git(root, 'add', '-A');
+        git(root, 'commit', '-q', '-m', 'initial');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('returns undefined outside a git work tree', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rp-nogit-'));
+        try {
+            assert.strictEqual(await findGitRoot(dir), undefined);
+            assert.strictEqual(await createCheckpoint(dir, 'x'), undefined);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('snapshots tracked and untracked files without touching the index', async () => {
+        fs.writeFileSync(path.join(root, 'a.txt'), 'two\n');
+        fs.writeFileSync(path.join(root, 'new.txt'), 'untracked\n');
+        git(root, 'add', 'a.txt');
+        const statusBefore = git(root, 'status', '--porcelain');
+
+        const checkpoint = await createCheckpoint(path.join(root), 'before rm');
+        assert.ok(checkpoint);
+        assert.strictEqual(checkpoint.root, root);
+        assert.strictEqual(checkpoint.ref, `${CHECKPOINT_REF_PREFIX}${checkpoint.createdAt}-${checkpoint.id}`);
+        assert.strictEqual(git(root, 'rev-parse', checkpoint.ref), checkpoint.commit);
+        assert.strictEqual(git(root, 'show', `${checkpoint.commit}:new.txt`), 'untracked');
+        assert.strictEqual(git(root, 'status', '--porcelain'), statusBefore);
+        assert.strictEqual(git(root, 'stash', 'list'), '');
+    });
+
+    test('restores changed and deleted files and removes files created since', async () => {
+        fs.mkdirSync(path.join(root, 'build'));
+        fs.writeFileSync(path.join(root, 'build', 'out.js'), 'ignored\n');
+        fs.writeFileSync(path.join(root, 'keep.txt'), 'keep\n');
+        const checkpoint = await createCheckpoint(root, 'before changes');
+        assert.ok(checkpoint);
+
+        fs.writeFileSync(path.join(root, 'a.txt'), 'clobbered\n');
+        fs.rmSync(path.join(root, 'keep.txt'));
+        fs.writeFileSync(path.join(root, 'created.txt'), 'created\n');
+        fs.rmSync(path.join(root, 'build', 'out.js'));
+
+        const result = await restoreCheckpoint(checkpoint);
+        assert.deepStrictEqual(result.restored.sort(), ['a.txt', 'keep.txt']);
+        assert.deepStrictEqual(result.removed, ['created.txt']);
+        assert.strictEqual(fs.readFileSync(path.join(root, 'a.txt'), 'utf8'), 'one\n');
+        assert.strictEqual(fs.readFileSync(path.join(root, 'keep.txt'), 'utf8'), 'keep\n');
+        assert.ok(!fs.existsSync(path.join(root, 'created.txt')));
+        // Ignored files are not part of checkpoints
+        assert.ok(!fs.existsSync(path.join(root, 'build', 'out.js')));
+        // The pre-restore state can still be recovered
+        assert.strictEqual(git(root, 'show', `${result.backup.commit}:created.txt`), 'created');
+    });
+
+    test('prunes all but the newest checkpoints', async () => {
+        const refs: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            const checkpoint = await createCheckpoint(root, `checkpoint ${i}`);
+            assert.ok(checkpoint);
+            refs.push(checkpoint.ref);
+        }
+        assert.strictEqual(await pruneCheckpoints(root, 2), 1);
+        // Checkpoints taken within the same second are still ordered by creation
+        assert.deepStrictEqual(git(root, 'for-each-ref', '--format=%(refname)', CHECKPOINT_REF_PREFIX).split('\n').sort(), refs.slice(1).sort());
+    });
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as os from 'os';
+
+import { runHeadless } from '../../utils/headless_runner';
+
+const options = { cwd: os.tmpdir(), timeoutMs: 10000, maxOutputBytes: 64 * 1024 };
+
+suite('Headless runner', function () {
+    this.timeout(15000);
+
+    test('captures stdout, stderr and exit code separately', async () => {
+        const result = await runHeadless('echo out && echo err 1>&2 && exit 3', options);
+        assert.strictEqual(result.stdout.trim(), 'out');
+        assert.strictEqual(result.stderr.trim(), 'err');
+        assert.strictEqual(result.exitCode, 3);
+        assert.strictEqual(result.timedOut, false);
+        assert.ok(result.endedAt >= result.startedAt);
+    });
+
+    test('runs with the requested shell and extra environment', async function () {
+        if (process.platform === 'win32') this.skip();
+        const result = await runHeadless('echo "$RP_TEST_VALUE"', { ...options, shell: '/bin/sh', env: { ...process.env, RP_TEST_VALUE: 'from-env' } });
+        assert.strictEqual(result.stdout.trim(), 'from-env');
+        assert.strictEqual(result.exitCode, 0);
+    });
+
+    test('kills the process when the timeout elapses', async function () {
+        if (process.platform === 'win32') this.skip();
+        const start = Date.now();
+        const result = await runHeadless('echo before && sleep 5 && echo after', { ...options, timeoutMs: 500 });
+        assert.ok(Date.now() - start < 3000, 'Process should be killed near the timeout');
+        assert.strictEqual(result.timedOut, true);
+        assert.strictEqual(result.exitCode, null);
+        assert.match(result.stdout, /before/);
+        assert.doesNotMatch(result.stdout, /after/);
+    });
+
+    test('keeps only the tail of output beyond the byte cap', async function () {
+        if (process.platform === 'win32') this.skip();
+        const result = await runHeadless('for i in $(seq 1 2000); do echo "line $i"; done', { ...options, maxOutputBytes: 1024 });
+        assert.ok(Buffer.byteLength(result.stdout) <= 1024);
+        assert.ok(result.droppedBytes.stdout > 0);
+        assert.match(result.stdout, /line 2000\n$/);
+    });
+
+    test('reports spawn failures for a missing working directory', async () => {
+        const result = await runHeadless('echo hi', { ...options, cwd: '/definitely/not/here' });
+        assert.ok(result.error, 'Spawn error should be reported');
+        assert.strictEqual(result.exitCode, null);
+    });
+});
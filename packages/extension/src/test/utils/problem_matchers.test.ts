@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { BUILT_IN_PROBLEM_MATCHERS, parseProblems, resolveProblemMatchers } from '../../utils/problem_matchers';
+
+const cwd = path.resolve('/work/project');
+const builtIn = resolveProblemMatchers(['tsc', 'eslint', 'pytest', 'go']).matchers;
+
+suite('Problem matchers', () => {
+    test('parses tsc output in plain and pretty formats', () => {
+        const output = [
+            "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+            '\u001b[96msrc/b.ts\u001b[0m:3:1 - \u001b[91merror\u001b[0m TS2304: Cannot find name \'foo\'.',
+            'Found 2 errors.',
+        ].join('\n');
+        const problems = parseProblems(output, cwd, BUILT_IN_PROBLEM_MATCHERS.tsc);
+        assert.deepStrictEqual(problems.map(p => [p.file, p.line, p.column, p.severity, p.code, p.source]), [
+            [path.join(cwd, 'src/a.ts'), 12, 5, 'error', 'TS2322', 'tsc'],
+            [path.join(cwd, 'src/b.ts'), 3, 1, 'error', 'TS2304', 'tsc'],
+        ]);
+        assert.strictEqual(problems[1].message, "Cannot find name 'foo'.");
+    });
+
+    test('parses eslint stylish output using the preceding file line', () => {
+        const file = path.join(cwd, 'src', 'index.js');
+        const output = [
+            '',
+            file,
+            '   4:10  error    \'x\' is defined but never used  no-unused-vars',
+            '  12:1   warning  Unexpected console statement     no-console',
+            '',
+            '✖ 2 problems (1 error, 1 warning)',
+        ].join('\n');
+        const problems = parseProblems(output, cwd, builtIn);
+        assert.deepStrictEqual(problems.map(p => [p.file, p.line, p.column, p.severity, p.code, p.message]), [
+            [file, 4, 10, 'error', 'no-unused-vars', '\'x\' is defined but never used'],
+            [file, 12, 1, 'warning', 'no-console', 'Unexpected console statement'],
+        ]);
+    });
+
+    test('parses pytest and go locations', () => {
+        const output = [
+            'tests/test_app.py:12: AssertionError',
+            './cmd/main.go:7:2: undefined: foo',
+            '    util_test.go:30: expected 1, got 2',
+        ].join('\n');
+        const problems = parseProblems(output, cwd, builtIn);
+        assert.deepStrictEqual(problems.map(p => [path.relative(cwd, p.file), p.line, p.column, p.source, p.message]), [
+            [path.join('tests', 'test_app.py'), 12, 1, 'pytest', 'AssertionError'],
+            [path.join('cmd', 'main.go'), 7, 2, 'go', 'undefined: foo'],
+            ['util_test.go', 30, 1, 'go', 'expected 1, got 2'],
+        ]);
+    });
+
+    test('drops problems for files that do not exist and duplicates', () => {
+        const output = 'src/a.ts(1,1): error TS1005: \';\' expected.\nsrc/a.ts(1,1): error TS1005: \';\' expected.\nmissing.ts(2,2): error TS1005: x';
+        const problems = parseProblems(output, cwd, builtIn, file => file.endsWith('a.ts'));
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].file, path.join(cwd, 'src/a.ts'));
+    });
+
+    test('resolves custom matchers and reports invalid entries', () => {
+        const { matchers, errors } = resolveProblemMatchers([
+            'tsc',
+            'unknown',
+            { name: 'lint', regexp: '^(\\S+) line (\\d+): (.*)$', file: 1, line: 2, message: 3, defaultSeverity: 'warning' },
+            { regexp: '(', file: 1, line: 2, message: 3 },
+            { regexp: '^x$' },
+        ]);
+        assert.strictEqual(matchers.length, BUILT_IN_PROBLEM_MATCHERS.tsc.length + 1);
+        assert.strictEqual(errors.length, 3);
+        const problems = parseProblems('lib/a.sh line 3: unbound variable', cwd, matchers.slice(-1));
+        assert.deepStrictEqual(problems.map(p => [p.line, p.severity, p.source, p.message]), [[3, 'warning', 'lint', 'unbound variable']]);
+    });
+});
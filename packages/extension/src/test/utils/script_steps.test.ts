@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+
+import { joinScriptSteps, splitScriptSteps } from '../../utils/script_steps';
+
+const texts = (script: string) => splitScriptSteps(script).map((s) => s.text);
+
+suite('Script steps', () => {
+    test('chains and lines are split into steps with their separators', () => {
+        assert.deepStrictEqual(splitScriptSteps('npm ci && npm run build || echo failed; ls'), [
+            { text: 'npm ci', separator: '&&' },
+            { text: 'npm run build', separator: '||' },
+            { text: 'echo failed', separator: ';' },
+            { text: 'ls' },
+        ]);
+        assert.deepStrictEqual(texts('cd app\n\nnpm test\n'), ['cd app', 'npm test']);
+    });
+
+    test('pipelines, quotes and substitutions stay in one step', () => {
+        assert.deepStrictEqual(texts('git log | head -5 && echo "a && b; c"'), ['git log | head -5', 'echo "a && b; c"']);
+        assert.deepStrictEqual(texts('echo $(date && whoami) && ls'), ['echo $(date && whoami)', 'ls']);
+        assert.deepStrictEqual(texts("(cd src && make) && echo 'done; really'"), ['(cd src && make)', "echo 'done; really'"]);
+    });
+
+    test('compound commands stay in one step', () => {
+        const script = 'if [ -f a ]; then\n  echo a\nfi\nfor f in *.ts; do echo $f; done\nls';
+        assert.deepStrictEqual(texts(script), ['if [ -f a ]; then\n  echo a\nfi', 'for f in *.ts; do echo $f; done', 'ls']);
+        assert.deepStrictEqual(texts('case $x in a) echo a;; b) echo b;; esac && ls'), ['case $x in a) echo a;; b) echo b;; esac', 'ls']);
+        assert.deepStrictEqual(texts('{ echo a; echo b; } > out.txt\nls'), ['{ echo a; echo b; } > out.txt', 'ls']);
+    });
+
+    test('here-documents and line continuations belong to their step', () => {
+        const script = "cat <<'EOF' > notes.txt\nline 1 && not a step\nEOF\necho done";
+        assert.deepStrictEqual(texts(script), ["cat <<'EOF' > notes.txt\nline 1 && not a step\nEOF", 'echo done']);
+        assert.deepStrictEqual(texts('npm install \\\n  --no-audit && ls'), ['npm install \\\n  --no-audit', 'ls']);
+    });
+
+    test('comments do not split steps', () => {
+        assert.deepStrictEqual(texts('# build it; then test\nnpm test'), ['# build it; then test', 'npm test']);
+    });
+
+    test('joining skips disabled steps and keeps the remaining separators', () => {
+        const steps = splitScriptSteps('npm ci && npm run build && npm test\necho ok').map((s) => ({ ...s, enabled: true }));
+        assert.strictEqual(joinScriptSteps(steps), 'npm ci && npm run build && npm test\necho ok');
+        steps[1].enabled = false;
+        steps[2].text = 'npm test -- --bail';
+        assert.strictEqual(joinScriptSteps(steps), 'npm ci && npm test -- --bail\necho ok');
+        assert.strictEqual(joinScriptSteps(steps.map((s) => ({ ...s, enabled: false }))), '');
+    });
+
+    test('joins across disabled steps with the separator before the next kept step', () => {
+        const steps = splitScriptSteps('a && b || c; d').map((s) => ({ ...s, enabled: true }));
+        steps[1].enabled = false;
+        assert.strictEqual(joinScriptSteps(steps), 'a || c; d');
+        steps[2].enabled = false;
+        assert.strictEqual(joinScriptSteps(steps), 'a; d');
+        steps[0].enabled = false;
+        assert.strictEqual(joinScriptSteps(steps), 'd');
+    });
+});
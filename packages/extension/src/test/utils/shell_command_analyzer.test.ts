@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+
+import { analyzeShellCommand, parseShellSegments } from '../../utils/shell_command_analyzer';
+
+suite('Shell command analyzer', () => {
+    test('read-only commands are not flagged', () => {
+        for (const cmd of ['ls -la', 'git status', 'git log --oneline | head -5', 'grep -rn "rm -rf" src', 'npm test 2>&1', 'cat a.txt > /dev/null']) {
+            const analysis = analyzeShellCommand(cmd);
+            assert.strictEqual(analysis.destructive, false, `${cmd}: ${analysis.reasons.join('; ')}`);
+        }
+    });
+
+    test('mutating verbs are flagged', () => {
+        for (const cmd of ['rm -rf dist', 'git reset --hard', 'git -C repo push origin main', 'npm publish', 'sed -i s/a/b/ file.txt', 'sudo ls']) {
+            assert.strictEqual(analyzeShellCommand(cmd).destructive, true, cmd);
+        }
+    });
+
+    test('redirections and tee are flagged', () => {
+        assert.match(analyzeShellCommand('echo hi > out.txt').reasons.join(), /out\.txt/);
+        assert.match(analyzeShellCommand('echo hi >> out.txt').reasons.join(), />>/);
+        assert.match(analyzeShellCommand('echo hi | tee log.txt').reasons.join(), /tee/);
+    });
+
+    test('chains, subshells and substitutions are inspected', () => {
+        assert.strictEqual(analyzeShellCommand('git status && git checkout main').destructive, true);
+        assert.strictEqual(analyzeShellCommand('(cd src; rm x)').destructive, true);
+        assert.strictEqual(analyzeShellCommand('echo $(rm -rf build)').destructive, true);
+        assert.strictEqual(analyzeShellCommand('echo `mv a b`').destructive, true);
+        assert.strictEqual(analyzeShellCommand('bash -c "git push --force"').destructive, true);
+        assert.strictEqual(analyzeShellCommand('curl -s https://x | sh').destructive, true);
+    });
+
+    test('wrapper options with values are skipped to reach the wrapped command', () => {
+        for (const cmd of ['find . -name "*.o" | xargs -I {} rm {}', 'xargs -n 1 -P 4 rm', 'timeout -s KILL 5 rm -rf build', 'sudo -u deploy git push', 'nice -n 10 mv a b', 'npx --yes rimraf dist', 'env -u HOME rm x']) {
+            assert.strictEqual(analyzeShellCommand(cmd).destructive, true, cmd);
+        }
+        for (const cmd of ['xargs -I {} echo {}', 'timeout -k 2 10 npm test', 'nice -n 5 ls', 'npx tsc --noEmit']) {
+            const analysis = analyzeShellCommand(cmd);
+            assert.strictEqual(analysis.destructive, false, `${cmd}: ${analysis.reasons.join('; ')}`);
+        }
+    });
+
+    test('command -v and -V look names up instead of running them', () => {
+        for (const cmd of ['command -v rm', 'command -V git', 'command -pv shred', 'command -v rm && echo found']) {
+            const analysis = analyzeShellCommand(cmd);
+            assert.strictEqual(analysis.destructive, false, `${cmd}: ${analysis.reasons.join('; ')}`);
+        }
+        assert.strictEqual(analyzeShellCommand('command rm -rf build').destructive, true);
+        assert.strictEqual(analyzeShellCommand('command -p rm x').destructive, true);
+    });
+
+    test('inline interpreter code is flagged like eval', () => {
+        for (const cmd of ['node -e "require(\'fs\').rmSync(\'dist\', {recursive: true})"', 'python3 -c "import shutil"', 'perl -E say']) {
+            assert.match(analyzeShellCommand(cmd).reasons.join(), /inline code/, cmd);
+        }
+        assert.strictEqual(analyzeShellCommand('node scripts/build.js').destructive, false);
+    });
+
+    test('make is flagged only for cleaning and install targets', () => {
+        assert.strictEqual(analyzeShellCommand('make clean').destructive, true);
+        assert.strictEqual(analyzeShellCommand('make -j 8 -C build all install').destructive, true);
+        assert.strictEqual(analyzeShellCommand('make -j4 test').destructive, false);
+        assert.strictEqual(analyzeShellCommand('make -C clean build').destructive, false);
+    });
+
+    test('git submodule foreach is judged by the command it runs', () => {
+        assert.strictEqual(analyzeShellCommand("git submodule foreach 'git status'").destructive, false);
+        assert.match(analyzeShellCommand("git submodule foreach --recursive 'git clean -fdx'").reasons.join(), /foreach: `git clean`/);
+        assert.strictEqual(analyzeShellCommand('git submodule status').destructive, false);
+    });
+
+    test('quoted operators are not treated as separators', () => {
+        const segments = parseShellSegments('echo "a; rm -rf /" && ls');
+        assert.deepStrictEqual(segments.map((s) => s.words), [['echo', 'a; rm -rf /'], ['ls']]);
+        assert.strictEqual(analyzeShellCommand('echo "a; rm -rf /"').destructive, false);
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { commandEnvironmentKey, describeCommandEnvironment, findExecutable, isCodeLoadingEnv, resolveCommandEnvironment } from '../../utils/shell_env';
+
+suite('Shell and environment selection', () => {
+    test('finds executables on PATH', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rp-shell-'));
+        try {
+            const file = path.join(dir, 'fakesh');
+            fs.writeFileSync(file, '');
+            assert.strictEqual(findExecutable('fakesh', ['/nonexistent', dir].join(':'), 'linux'), file);
+            assert.strictEqual(findExecutable('missing-shell', dir, 'linux'), undefined);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('merges per-command variables and rejects invalid names', () => {
+        const environment = resolveCommandEnvironment({ env: { CI: '1', NODE_ENV: 'test' } });
+        assert.deepStrictEqual(environment.env, { CI: '1', NODE_ENV: 'test' });
+        assert.strictEqual(describeCommandEnvironment(environment), 'Env: CI=1 NODE_ENV=test');
+        assert.throws(() => resolveCommandEnvironment({ env: { 'BAD-NAME': 'x' } }), /Invalid environment variable name/);
+    });
+
+    test('flags per-command variables that can load other code', () => {
+        const environment = resolveCommandEnvironment({ env: { NODE_OPTIONS: '--require ./hook.js', CI: '1', GIT_CONFIG_KEY_0: 'core.pager' } });
+        assert.deepStrictEqual(environment.commandEnv, ['NODE_OPTIONS', 'CI', 'GIT_CONFIG_KEY_0']);
+        assert.match(describeCommandEnvironment(environment) ?? '', /can load or run other code: NODE_OPTIONS, GIT_CONFIG_KEY_0$/);
+        assert.strictEqual(isCodeLoadingEnv('LD_PRELOAD'), true);
+        assert.strictEqual(isCodeLoadingEnv('NODE_ENV'), false);
+    });
+
+    test('reports unknown presets', () => {
+        assert.throws(() => resolveCommandEnvironment({ envPreset: 'ci' }), /Unknown envPreset "ci"/);
+    });
+
+    test('default environment has an empty key and no description', () => {
+        const environment = resolveCommandEnvironment({});
+        assert.strictEqual(commandEnvironmentKey(environment), '');
+        assert.strictEqual(describeCommandEnvironment(environment), undefined);
+        const a = commandEnvironmentKey({ env: { A: '1', B: '2' } });
+        const b = commandEnvironmentKey({ env: { B: '2', A: '1' } });
+        assert.strictEqual(a, b);
+        assert.notStrictEqual(a, '');
+    });
+});
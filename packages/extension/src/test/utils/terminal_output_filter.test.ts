@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { collapseProgressLines, resolveCarriageReturns } from '../../integrations/terminal/ansiUtils';
+import { collapseRepeatedProgressLines, grepLines, selectOutputLines } from '../../utils/terminal_output_filter';
+
+const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+suite('Terminal output filter', () => {
+    test('resolves carriage-return redraws before stripping ANSI', () => {
+        assert.strictEqual(resolveCarriageReturns('[=   ] 10%\r[==  ] 50%\r[====] 100%'), '[====] 100%');
+        assert.strictEqual(resolveCarriageReturns('done\r'), 'done\r');
+        assert.strictEqual(
+            collapseProgressLines('start\n50%\n\x1b[1A\x1b[2K75%\n\x1b[1A\x1b[2K100%\nend'),
+            'start\n\x1b[2K100%\nend',
+        );
+    });
+
+    test('keeps the last non-empty carriage-return overwrite in a chain', () => {
+        assert.strictEqual(resolveCarriageReturns('a\rb\rc'), 'c');
+        assert.strictEqual(resolveCarriageReturns('building\r\r'), 'building\r');
+        assert.strictEqual(resolveCarriageReturns('50%\r   \r'), '50%\r');
+        assert.strictEqual(resolveCarriageReturns('\x1b[32mok\x1b[0m\r\x1b[2K'), '\x1b[32mok\x1b[0m');
+        assert.strictEqual(resolveCarriageReturns('plain line'), 'plain line');
+    });
+
+    test('collapses redraws between normal lines and keeps trailing partial lines', () => {
+        // Erase-line codes are left for stripAnsi
+        assert.strictEqual(
+            collapseProgressLines('install\n 10%\r 60%\r100%\nbuilt a\n\x1b[2A\x1b[2Krewritten\ntail 3%\r tail 9%'),
+            'install\n\x1b[2Krewritten\n tail 9%',
+        );
+        // A cursor-up count larger than the chunk drops what is there
+        assert.strictEqual(collapseProgressLines('one\n\x1b[5Atwo'), 'two');
+        assert.strictEqual(collapseProgressLines('partial'), 'partial');
+        assert.strictEqual(collapseProgressLines('line\r\n'), 'line\r\n');
+    });
+
+    test('collapses consecutive progress lines that differ only in numbers', () => {
+        const result = collapseRepeatedProgressLines([
+            'Downloading 10% (1/10)',
+            'Downloading 55% (5/10)',
+            'Downloading 100% (10/10)',
+            'Compiling',
+            'Test 1 passed',
+            'Test 2 passed',
+        ]);
+        assert.deepStrictEqual(result.lines, ['Downloading 100% (10/10)', 'Compiling', 'Test 1 passed', 'Test 2 passed']);
+        assert.strictEqual(result.collapsed, 2);
+    });
+
+    test('greps with context, line numbers and group separators', () => {
+        const result = grepLines(['a', 'ERROR one', 'b', 'c', 'd', 'ERROR two'], /ERROR/, 1);
+        assert.deepStrictEqual(result.lines, ['1-a', '2:ERROR one', '3-b', '--', '5-d', '6:ERROR two']);
+        assert.strictEqual(result.matches, 2);
+    });
+
+    test('selects head, tail and range views', () => {
+        assert.deepStrictEqual(selectOutputLines(lines, { view: 'head', maxLines: 2 }).lines, ['line 1', 'line 2']);
+        const tail = selectOutputLines(lines, { view: 'tail', maxLines: 2 });
+        assert.deepStrictEqual(tail.lines, ['line 19', 'line 20']);
+        assert.strictEqual(tail.firstLine, 19);
+        assert.deepStrictEqual(
+            selectOutputLines(lines, { view: 'range', maxLines: 100, startLine: 5, endLine: 7 }).lines,
+            ['line 5', 'line 6', 'line 7'],
+        );
+    });
+
+    test('keeps the first error when combining grep and head', () => {
+        const log = ['ok', 'error: first', ...lines, 'error: last'];
+        const result = selectOutputLines(log, { view: 'head', maxLines: 1, grep: /^error/ });
+        assert.deepStrictEqual(result.lines, ['2:error: first']);
+        assert.strictEqual(result.totalLines, 2);
+    });
+});
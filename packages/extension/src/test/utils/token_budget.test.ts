@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+
+import { estimateTokens, prepareContentWithinBudget, truncateToTokenBudget } from '../../utils/token_budget';
+
+suite('Token budget', () => {
+    test('estimates about four characters per token', async () => {
+        assert.strictEqual(await estimateTokens(''), 0);
+        assert.strictEqual(await estimateTokens('x'.repeat(10)), 3);
+    });
+
+    test('keeps the start of documents and the end of command output', async () => {
+        const text = Array.from({ length: 200 }, (_, i) => `line ${i}`).join('\n');
+        const head = await truncateToTokenBudget(text, 50);
+        assert.ok(head.truncated);
+        assert.ok(head.text.startsWith('line 0\n'));
+        assert.ok(head.tokenCount <= 50);
+
+        const tail = await truncateToTokenBudget(text, 50, undefined, 'end');
+        assert.ok(tail.text.endsWith('line 199'));
+        assert.ok(tail.tokenCount <= 50);
+    });
+
+    test('leaves content that fits the model input untouched', async () => {
+        const prepared = await prepareContentWithinBudget('short output', 'prompt', { id: 'm', maxInputTokens: 1000 }, 'end');
+        assert.deepStrictEqual([prepared.text, prepared.truncated], ['short output', false]);
+        const unknownLimit = await prepareContentWithinBudget('x'.repeat(10000), 'prompt', { id: 'm' });
+        assert.strictEqual(unknownLimit.truncated, false);
+    });
+});
@@ -7,7 +7,11 @@ import type {
     PreparedToolInvocation,
 } from 'vscode'
 import * as vscode from 'vscode'
-import { askReportHistory } from '../utils/ask_report_history'
+import { AskReportField, AskReportFormValues, initialFormValues, normalizeFormFields, validateFormValues } from '../utils/ask_report_form'
+import { AskReportHistoryEntry, askReportHistory } from '../utils/ask_report_history'
+import { AskReportOption, AskReportOptionInput, normalizePredefinedOptions, resolveSelectedOptions, toAskReportOptions } from '../utils/ask_report_options'
+import { askReportQueue } from '../utils/ask_report_queue'
+import { AskReportTimeoutPolicy, describeTimeout, normalizeTimeoutPolicy, resolveTimeoutPolicy, resolveTimeoutSeconds } from '../utils/ask_report_timeout'
 import { env } from '../utils/env'
 import { statusBarActivity } from '../utils/statusBar'
 
@@ -20,10 +24,22 @@ export type AskReportOptions = {
     markdown: string
     // Optional pre-filled value for the textarea in the webview
     initialValue?: string
-    // Optional predefined options to render as radio buttons
-    predefinedOptions?: string[]
+    // Optional predefined options to render as radio buttons (checkboxes with multiSelect)
+    predefinedOptions?: AskReportOptionInput[]
+    // Let the user pick any number of predefined options
+    multiSelect?: boolean
+    // Read-only viewer: options the user picked
+    selectedOptions?: string[]
+    // Optional structured form rendered above the options/textarea
+    form?: AskReportField[]
+    // Values shown in the form (read-only viewer: the submitted ones); defaults when omitted
+    formValues?: AskReportFormValues
     // When true, render as read-only viewer: disable all controls and hide timer
     readOnly?: boolean
+    // Status line shown above the markdown (e.g. an interrupted, never answered question)
+    notice?: string
+    // Agent hint for the countdown; capped by reliefpilot.askReportTimeoutSeconds
+    timeoutSeconds?: number
     // Internal link to history entry to keep single webview per report
     // Not part of the public tool API; used by tool/commands integration only
     historyId?: string
@@ -34,23 +50,382 @@ export type AskUserResult = {
     decision: 'Submit' | 'Cancel'
     // The submitted value (empty string for Cancel/close)
     value: string
-    // True when the result was resolved due to timeout (not used in this scaffold)
+    // Typed form values keyed by field name (Submit with a form only)
+    formValues?: AskReportFormValues
+    // Predefined options the user picked (Submit only)
+    selectedOptions?: string[]
+    // True when the result was resolved due to timeout
     timeout?: boolean
+    // reliefpilot.askReportTimeoutPolicy outcome when timeout is true
+    timeoutPolicy?: AskReportTimeoutPolicy
+    // Why the configured policy fell back to "cancel"
+    timeoutFallback?: string
 }
 
 export type AskReportInput = {
     topicName: string
     message: string
-    predefinedOptions?: string[]
+    predefinedOptions?: AskReportOptionInput[]
+    multiSelect?: boolean
+    form?: AskReportField[]
+    timeoutSeconds?: number
 }
 
-// Create a webview panel for ask_report and return a placeholder Cancel result for now.
+// Interactive reports share one panel (a tab per pending report, see ask_report_queue);
+// read-only viewers opened from history get a panel each.
 export async function askReport(opts: AskReportOptions): Promise<AskUserResult> {
-    const title = opts.title ?? 'Ask Report'
+    if (!opts.readOnly) {
+        return await enqueueAskReport(opts)
+    }
+    return await showReadOnlyReport(createAskReportPanel(opts.title ?? 'Ask Report', true), opts)
+}
+
+async function showReadOnlyReport(panel: vscode.WebviewPanel, opts: AskReportOptions): Promise<AskUserResult> {
+    // Bind this panel instance to history entry (if any) to avoid duplicates
+    if (opts.historyId) {
+        try {
+            const entry = askReportHistory.getById(opts.historyId)
+            if (entry) {
+                entry.panel = panel
+            }
+        } catch { /* ignore */ }
+    }
+
+    // Resolves Cancel when the viewer is closed
+    return await new Promise<AskUserResult>((resolve) => {
+        const disposables: vscode.Disposable[] = []
+        disposables.push(
+            panel.webview.onDidReceiveMessage(async (msg: any) => {
+                if (!msg || typeof msg !== 'object') return
+                await handleSharedMessage(msg)
+            }),
+        )
+        disposables.push(
+            panel.onDidDispose(() => {
+                if (opts.historyId) {
+                    try {
+                        const entry = askReportHistory.getById(opts.historyId)
+                        if (entry) entry.panel = undefined
+                    } catch { /* ignore */ }
+                }
+                resolve({ decision: 'Cancel', value: '' })
+                disposables.forEach((d) => {
+                    try { d.dispose() } catch { /* noop */ }
+                })
+            }),
+        )
+        void panel.webview.postMessage({
+            type: 'init',
+            payload: buildInitPayload(opts, toAskReportOptions(opts.predefinedOptions), opts.historyId),
+        })
+    })
+}
+
+// A pending interactive report waiting in the shared panel
+type QueuedAskReport = {
+    opts: AskReportOptions
+    options: AskReportOption[]
+    // Webview state (reply text, selection) saved when the user switched to another report
+    snapshot?: unknown
+    resolve: (res: AskUserResult) => void
+    // Countdown owned by the extension so reports keep counting down while another tab is shown;
+    // the webview only displays it. 0 seconds means no timeout.
+    timeoutSeconds: number
+    // The countdown starts the first time the report is shown, never while it waits unseen behind another tab
+    shown: boolean
+    // Time left when paused, or when the timer was last (re)started
+    remainingMs: number
+    paused: boolean
+    timer?: ReturnType<typeof setTimeout>
+    // Epoch ms at which the running timer fires
+    deadline?: number
+}
+
+const queuedReports = new Map<string, QueuedAskReport>()
+let queuePanel: vscode.WebviewPanel | undefined
+// Report currently rendered in queuePanel
+let activeReportId: string | undefined
+
+async function enqueueAskReport(opts: AskReportOptions): Promise<AskUserResult> {
+    const id = opts.historyId ?? randomUUID()
+    return await new Promise<AskUserResult>((resolve) => {
+        const timeoutSeconds = getTimeoutSeconds(opts.timeoutSeconds)
+        const item: QueuedAskReport = {
+            opts,
+            options: toAskReportOptions(opts.predefinedOptions),
+            resolve,
+            timeoutSeconds,
+            remainingMs: timeoutSeconds * 1000,
+            paused: false,
+            shown: false,
+        }
+        queuedReports.set(id, item)
+        askReportQueue.add({ id, title: opts.title ?? 'Ask Report', createdAt: Date.now() })
+        if (!queuePanel) {
+            openQueuePanel()
+        }
+        if (!activeReportId) {
+            showQueuedReport(id)
+        } else {
+            // Keep the user on the report they are answering; the new one shows up as a tab
+            postQueueState()
+        }
+    })
+}
+
+function openQueuePanel(): void {
+    const panel = createAskReportPanel('Ask Report', false)
+    queuePanel = panel
+    const disposables: vscode.Disposable[] = []
+
+    disposables.push(
+        panel.webview.onDidReceiveMessage(async (msg: any) => {
+            if (!msg || typeof msg !== 'object') return
+            // Decisions carry the id of the report they answer; the active one is assumed otherwise
+            const id = typeof msg.id === 'string' ? msg.id : activeReportId
+            const item = id ? queuedReports.get(id) : undefined
+            switch (msg.type) {
+                case 'submit': {
+                    if (!id || !item) return
+                    const value = typeof msg.value === 'string' ? msg.value : ''
+                    const picked = resolveSelectedOptions(item.options, msg.selectedOptions)
+                    const selectedOptions = item.options.length > 0 ? picked : undefined
+                    const form = item.opts.form
+                    if (!form || form.length === 0) {
+                        settleQueuedReport(id, { decision: 'Submit', value, selectedOptions })
+                        return
+                    }
+                    // The webview validates too, but only values checked here reach the agent
+                    const checked = validateFormValues(form, msg.formValues)
+                    if (checked.errors.length > 0) {
+                        void panel.webview.postMessage({ type: 'formErrors', errors: checked.errors, ...countdownOf(item) })
+                        return
+                    }
+                    settleQueuedReport(id, { decision: 'Submit', value, selectedOptions, formValues: checked.values })
+                    return
+                }
+                case 'cancel': {
+                    if (id) settleQueuedReport(id, { decision: 'Cancel', value: '' })
+                    return
+                }
+                case 'pause': {
+                    if (!id || !item) return
+                    setQueuedReportPaused(id, item, msg.paused === true)
+                    return
+                }
+                case 'switch': {
+                    if (item) item.snapshot = msg.snapshot
+                    const target = typeof msg.target === 'string' ? msg.target : ''
+                    if (queuedReports.has(target)) showQueuedReport(target)
+                    return
+                }
+                default:
+                    await handleSharedMessage(msg)
+                    return
+            }
+        }),
+    )
+
+    // Closing the panel cancels every report still waiting in it
+    disposables.push(
+        panel.onDidDispose(() => {
+            if (queuePanel === panel) {
+                queuePanel = undefined
+                activeReportId = undefined
+                const pending = [...queuedReports.entries()]
+                queuedReports.clear()
+                for (const [id, item] of pending) {
+                    if (item.timer) clearTimeout(item.timer)
+                    askReportQueue.remove(id)
+                    item.resolve({ decision: 'Cancel', value: '' })
+                }
+            }
+            disposables.forEach((d) => {
+                try { d.dispose() } catch { /* noop */ }
+            })
+        }),
+    )
+}
+
+// Render a pending report in the shared panel, restoring its saved webview state
+function showQueuedReport(id: string): void {
+    const item = queuedReports.get(id)
+    if (!item || !queuePanel) return
+    activeReportId = id
+    queuePanel.title = item.opts.title ?? 'Ask Report'
+    if (!item.shown) {
+        item.shown = true
+        startDeadline(id, item)
+    }
+    void queuePanel.webview.postMessage({
+        type: 'init',
+        payload: { ...buildInitPayload(item.opts, item.options, id), ...countdownOf(item) },
+        restore: item.snapshot,
+    })
+    postQueueState()
+}
+
+function postQueueState(): void {
+    void queuePanel?.webview.postMessage({
+        type: 'queue',
+        activeId: activeReportId,
+        items: askReportQueue.list().map((i) => ({ id: i.id, title: i.title })),
+    })
+}
+
+function settleQueuedReport(id: string, res: AskUserResult): void {
+    const item = queuedReports.get(id)
+    if (!item) return
+    if (item.timer) clearTimeout(item.timer)
+    queuedReports.delete(id)
+    askReportQueue.remove(id)
+    item.resolve(res)
+    if (activeReportId === id) activeReportId = undefined
+
+    const next = askReportQueue.oldest()
+    if (!next) {
+        const panel = queuePanel
+        queuePanel = undefined
+        try { panel?.dispose() } catch { /* noop */ }
+        return
+    }
+    if (!activeReportId) {
+        showQueuedReport(next.id)
+    } else {
+        postQueueState()
+    }
+}
+
+function startDeadline(id: string, item: QueuedAskReport): void {
+    if (item.timeoutSeconds <= 0 || item.paused || !item.shown) return
+    item.deadline = Date.now() + item.remainingMs
+    item.timer = setTimeout(() => expireQueuedReport(id), item.remainingMs)
+}
+
+// Pausing keeps the time left; resuming restarts the timer from it
+function setQueuedReportPaused(id: string, item: QueuedAskReport, paused: boolean): void {
+    if (item.timeoutSeconds <= 0 || item.paused === paused) return
+    if (paused) {
+        if (item.timer) clearTimeout(item.timer)
+        item.timer = undefined
+        item.remainingMs = Math.max(0, (item.deadline ?? Date.now()) - Date.now())
+        item.deadline = undefined
+        item.paused = true
+        return
+    }
+    item.paused = false
+    startDeadline(id, item)
+}
+
+// Countdown state for the webview (whole seconds left)
+function countdownOf(item: QueuedAskReport): { remaining: number; paused: boolean } {
+    const ms = item.deadline !== undefined ? item.deadline - Date.now() : item.remainingMs
+    return { remaining: Math.max(0, Math.ceil(ms / 1000)), paused: item.paused }
+}
+
+// Settle a report whose countdown ran out with reliefpilot.askReportTimeoutPolicy, shown or not
+function expireQueuedReport(id: string): void {
+    const item = queuedReports.get(id)
+    if (!item) return
+    const cfg = vscode.workspace.getConfiguration('reliefpilot')
+    const resolved = resolveTimeoutPolicy(normalizeTimeoutPolicy(cfg.get('askReportTimeoutPolicy', 'cancel')), {
+        options: item.options,
+        multiSelect: item.opts.multiSelect === true,
+        form: item.opts.form,
+        cannedReply: cfg.get<string>('askReportTimeoutReply', '') ?? '',
+    })
+    settleQueuedReport(id, {
+        decision: resolved.decision,
+        value: resolved.value,
+        selectedOptions: resolved.selectedOptions,
+        formValues: resolved.formValues,
+        timeout: true,
+        timeoutPolicy: resolved.policy,
+        timeoutFallback: resolved.fallbackReason,
+    })
+}
 
+/**
+ * Reveal the shared panel on a pending report (the oldest one when no id is given).
+ * Returns false when there is no such pending report.
+ */
+export function focusPendingAskReport(id?: string): boolean {
+    const target = id ?? askReportQueue.oldest()?.id
+    if (!target || !queuedReports.has(target) || !queuePanel) return false
+    queuePanel.reveal(undefined, false)
+    if (target !== activeReportId) {
+        // Let the webview save the current report's state before switching
+        void queuePanel.webview.postMessage({ type: 'switchTo', id: target })
+    }
+    return true
+}
+
+// Effective countdown: the agent's hint capped by the user's maximum (0 disables the timeout)
+function getTimeoutSeconds(hint: unknown): number {
+    const max = vscode.workspace
+        .getConfiguration('reliefpilot')
+        .get<number>('askReportTimeoutSeconds', 60)
+    return resolveTimeoutSeconds(hint, max)
+}
+
+function buildInitPayload(opts: AskReportOptions, options: AskReportOption[], id: string | undefined) {
+    return {
+        id,
+        markdown: opts.markdown,
+        initialValue: opts.initialValue ?? '',
+        options,
+        multiSelect: opts.multiSelect === true,
+        selectedOptions: opts.selectedOptions,
+        form: opts.form ?? [],
+        formValues: opts.formValues ?? initialFormValues(opts.form ?? []),
+        timeout: opts.readOnly ? 0 : getTimeoutSeconds(opts.timeoutSeconds),
+        readonly: opts.readOnly === true,
+        notice: opts.notice ?? '',
+    }
+}
+
+// Links, copy and save requests are handled the same way for interactive and read-only panels
+async function handleSharedMessage(msg: any): Promise<void> {
+    switch (msg.type) {
+        case 'openExternal': {
+            const url = typeof msg.url === 'string' ? msg.url : ''
+            if (url) {
+                try {
+                    await vscode.env.openExternal(vscode.Uri.parse(url))
+                } catch {
+                    // ignore
+                }
+            }
+            return
+        }
+        case 'copy': {
+            const text = typeof msg.text === 'string' ? msg.text : ''
+            try {
+                await vscode.env.clipboard.writeText(text)
+            } catch {
+                // ignore clipboard errors
+            }
+            return
+        }
+        case 'save': {
+            const text = typeof msg.text === 'string' ? msg.text : ''
+            try {
+                const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: text })
+                await vscode.window.showTextDocument(doc)
+            } catch {
+                // ignore errors silently (no notifications)
+            }
+            return
+        }
+        default:
+            return
+    }
+}
+
+// Create an ask_report webview panel; the webview renders once it receives an 'init' message
+function createAskReportPanel(title: string, readOnly: boolean): vscode.WebviewPanel {
     // Resolve extension media folder for localResourceRoots
-    const extensionUri = env.extensionUri
-    const mediaRoot = vscode.Uri.joinPath(extensionUri, 'media')
+    const mediaRoot = vscode.Uri.joinPath(env.extensionUri, 'media')
 
     const panel = vscode.window.createWebviewPanel(
         'reliefpilot.askReport',
@@ -62,22 +437,32 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
             localResourceRoots: [mediaRoot],
         },
     )
+    setupAskReportPanel(panel, readOnly)
+    return panel
+}
 
-    // Bind this panel instance to history entry (if any) to avoid duplicates
-    if (opts.historyId) {
-        try {
-            const entry = askReportHistory.getById(opts.historyId)
-            if (entry) {
-                entry.panel = panel
-            }
-        } catch { /* ignore */ }
-    }
+/**
+ * Reopen a panel restored after a window reload. The tool call that waited for it died with the
+ * previous extension host, so the report is shown read-only from history. False when the entry is gone.
+ */
+export function restoreAskReportPanel(panel: vscode.WebviewPanel, id: string): boolean {
+    const entry = askReportHistory.getById(id)
+    if (!entry || entry.panel) return false
+    panel.title = entry.topic
+    setupAskReportPanel(panel, true)
+    void showReadOnlyReport(panel, historyViewerOptions(entry))
+    return true
+}
+
+function setupAskReportPanel(panel: vscode.WebviewPanel, readOnly: boolean): void {
+    const extensionUri = env.extensionUri
+    const title = panel.title
 
     // Set the webview tab icon depending on mode:
     // - Active (interactive) report: colored icon.png
     // - Read-only (opened from history): monochrome icon_mono.png
     try {
-        const iconFile = opts.readOnly ? 'icon_mono.png' : 'icon.png'
+        const iconFile = readOnly ? 'icon_mono.png' : 'icon.png'
         const iconUri = vscode.Uri.joinPath(extensionUri, iconFile)
         panel.iconPath = iconUri
     } catch {
@@ -128,11 +513,15 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
             <button id="pauseBtn" class="btn secondary icon-btn" aria-label="Pause timer" title="Pause"></button>
             <span id="timer" class="timer" aria-live="polite">0</span>
         </header>
+        <div id="notice" class="notice" role="status" style="display: none;"></div>
+        <nav id="queueTabs" class="queue-tabs" role="tablist" aria-label="Pending reports" style="display: none;"></nav>
         <main class="askreport__main">
             <section id="markdown" class="markdown" aria-label="Markdown content" tabindex="0"></section>
         </main>
         <footer class="askreport__footer askreport__dock" id="bottomDock">
             <div class="controls">
+                <div id="formFields" class="form" aria-label="Ask report form"></div>
+                <div id="formErrors" class="form-errors" role="alert"></div>
                 <fieldset id="optionsFieldset" class="options" aria-label="Ask report options"></fieldset>
                 <textarea id="customText" class="textarea" aria-label="Custom response" placeholder="Type your response…"></textarea>
             </div>
@@ -146,18 +535,22 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
         <script nonce="${nonce}">
             // Webview script — no external deps; relies on VS Code API provided object
             const vscode = acquireVsCodeApi();
-            /** @type {{ markdown: string; initialValue?: string; options?: string[]; timeout?: number; readonly?: boolean }} */
-            let initData = { markdown: '', initialValue: '', options: [], timeout: 0, readonly: false };
+            /** @type {{ id?: string; notice?: string; markdown: string; initialValue?: string; options?: Array<string | { label: string; description?: string; recommended?: boolean }>; multiSelect?: boolean; selectedOptions?: string[]; form?: any[]; formValues?: Record<string, any>; timeout?: number; remaining?: number; paused?: boolean; readonly?: boolean }} */
+            let initData = { markdown: '', initialValue: '', options: [], multiSelect: false, selectedOptions: [], form: [], formValues: {}, timeout: 0, readonly: false };
 
             // cache DOM
             const el = {
                 markdown: document.getElementById('markdown'),
+                queue: document.getElementById('queueTabs'),
+                notice: document.getElementById('notice'),
                 copyBtn: document.getElementById('copyBtn'),
                 saveBtn: document.getElementById('saveBtn'),
                 pauseBtn: document.getElementById('pauseBtn'),
                 timer: document.getElementById('timer'),
                 progress: document.getElementById('progressLine'),
                 options: document.getElementById('optionsFieldset'),
+                form: document.getElementById('formFields'),
+                formErrors: document.getElementById('formErrors'),
                 textarea: document.getElementById('customText'),
                 submit: document.getElementById('submitBtn'),
                 cancel: document.getElementById('cancelBtn'),
@@ -165,9 +558,16 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
             };
 
             let selected = '';
+            /** @type {string[]} */
+            let selectedList = [];
             let usingCustom = false;
+            /** @type {Record<string, any>} */
+            let formValues = {};
             /** @type {number} */
             let remaining = 0;
+            // Display only: the extension owns the countdown and settles the report when it runs out
+            /** @type {number} */
+            let deadlineAt = 0;
             /** @type {boolean} */
             let paused = false;
             /** @type {number | undefined} */
@@ -236,9 +636,18 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                 try { el.cancel.disabled = true; } catch {}
                 try { el.textarea.disabled = true; } catch {}
                 try { (el.options).setAttribute('disabled', ''); } catch {}
+                try { el.form.querySelectorAll('input, select, textarea').forEach((n) => { n.disabled = true; }); } catch {}
                 try { el.pauseBtn.disabled = true; } catch {}
             }
 
+            // The shared panel moves on to the next pending report after a timeout
+            function enableAllInputs() {
+                try { el.cancel.disabled = false; } catch {}
+                try { el.textarea.disabled = false; } catch {}
+                try { (el.options).removeAttribute('disabled'); } catch {}
+                try { el.pauseBtn.disabled = false; } catch {}
+            }
+
             function startTimer() {
                 stopTimer();
                 if (!initData.timeout || initData.timeout <= 0) {
@@ -246,27 +655,53 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                     renderTimer();
                     return;
                 }
-                if (remaining <= 0) remaining = initData.timeout;
+                deadlineAt = Date.now() + remaining * 1000;
                 intervalId = setInterval(() => {
                     if (paused) {
                         return;
                     }
-                    remaining -= 1;
+                    remaining = Math.max(0, Math.ceil((deadlineAt - Date.now()) / 1000));
                     renderTimer();
                     if (remaining <= 0) {
                         stopTimer();
-                        // Deactivate inputs and notify extension
+                        // The extension applies the timeout policy; inputs stay off until it moves on
                         disableAllInputs();
-                        vscode.postMessage({ type: 'timeout' });
                     }
                 }, 1000);
                 renderTimer();
             }
+            function hasForm() {
+                return Array.isArray(initData.form) && initData.form.length > 0;
+            }
+
+            // Mirrors validateFormValues on the extension side, which has the final word
+            function fieldIsValid(field, value) {
+                const empty = value === null || value === undefined
+                    || (typeof value === 'string' && value.trim() === '')
+                    || (Array.isArray(value) && value.length === 0);
+                if (empty) return !field.required;
+                if (field.type === 'number') {
+                    if (typeof value !== 'number' || !isFinite(value)) return false;
+                    if (typeof field.min === 'number' && value < field.min) return false;
+                    if (typeof field.max === 'number' && value > field.max) return false;
+                }
+                return true;
+            }
+
+            function formIsValid() {
+                if (!hasForm()) return true;
+                return initData.form.every((f) => fieldIsValid(f, formValues[f.name]));
+            }
+
             /** Enable/disable submit based on current selection rules */
             function updateSubmitState() {
+                if (!formIsValid()) {
+                    el.submit.disabled = true;
+                    return;
+                }
                 if (!initData.options || initData.options.length === 0) {
-                    // Only textarea mode
-                    const valid = (el.textarea.value || '').trim().length > 0;
+                    // Only textarea mode; with a form the textarea is an optional comment
+                    const valid = hasForm() || (el.textarea.value || '').trim().length > 0;
                     el.submit.disabled = !valid;
                     return;
                 }
@@ -274,9 +709,127 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                     el.submit.disabled = ((el.textarea.value || '').trim().length === 0);
                     return;
                 }
+                if (initData.multiSelect === true) {
+                    el.submit.disabled = (selectedList.length === 0);
+                    return;
+                }
                 el.submit.disabled = (selected === '');
             }
 
+            // Multi-select: read the checked options (and the Custom box) back from the DOM
+            function syncMultiSelection() {
+                const boxes = Array.from(el.options.querySelectorAll('input[type=checkbox]'));
+                selectedList = boxes
+                    .filter((n) => n.id !== 'opt_custom' && /** @type {HTMLInputElement} */ (n).checked)
+                    .map((n) => /** @type {HTMLInputElement} */ (n).value);
+                const custom = /** @type {HTMLInputElement | null} */ (el.options.querySelector('#opt_custom'));
+                usingCustom = !!(custom && custom.checked);
+            }
+
+            function setFieldValue(field, row, value) {
+                formValues[field.name] = value;
+                row.classList.toggle('invalid', !fieldIsValid(field, value) && value !== null && value !== '');
+                el.formErrors.textContent = '';
+                updateSubmitState();
+                persistState();
+            }
+
+            function renderForm(fields) {
+                el.form.innerHTML = '';
+                if (!fields || fields.length === 0) {
+                    el.form.style.display = 'none';
+                    return;
+                }
+                el.form.style.display = '';
+                fields.forEach((field, idx) => {
+                    const id = 'field_' + idx;
+                    const value = formValues[field.name];
+                    const row = document.createElement('div');
+                    row.className = 'form-field form-field--' + field.type;
+                    const label = document.createElement('label');
+                    label.className = 'form-label';
+                    label.htmlFor = id;
+                    label.textContent = (field.label || field.name) + (field.required ? ' *' : '');
+                    /** @type {HTMLElement} */
+                    let control;
+                    if (field.type === 'multiline') {
+                        const input = document.createElement('textarea');
+                        input.className = 'textarea';
+                        input.value = typeof value === 'string' ? value : '';
+                        input.addEventListener('input', () => setFieldValue(field, row, input.value));
+                        control = input;
+                    } else if (field.type === 'boolean') {
+                        const input = document.createElement('input');
+                        input.type = 'checkbox';
+                        input.checked = value === true;
+                        input.addEventListener('change', () => setFieldValue(field, row, input.checked));
+                        control = input;
+                    } else if (field.type === 'select') {
+                        const input = document.createElement('select');
+                        const placeholder = document.createElement('option');
+                        placeholder.value = '';
+                        placeholder.textContent = '—';
+                        input.appendChild(placeholder);
+                        (field.options || []).forEach((opt) => {
+                            const o = document.createElement('option');
+                            o.value = opt;
+                            o.textContent = opt;
+                            input.appendChild(o);
+                        });
+                        input.value = typeof value === 'string' ? value : '';
+                        input.addEventListener('change', () => setFieldValue(field, row, input.value));
+                        control = input;
+                    } else if (field.type === 'multiselect') {
+                        const group = document.createElement('div');
+                        group.className = 'checkbox-group';
+                        const picked = Array.isArray(value) ? value : [];
+                        (field.options || []).forEach((opt, optIdx) => {
+                            const optLabel = document.createElement('label');
+                            const input = document.createElement('input');
+                            input.type = 'checkbox';
+                            input.value = opt;
+                            input.checked = picked.includes(opt);
+                            if (optIdx === 0) input.id = id;
+                            input.addEventListener('change', () => {
+                                const checked = Array.from(group.querySelectorAll('input[type=checkbox]'))
+                                    .filter((n) => /** @type {HTMLInputElement} */ (n).checked)
+                                    .map((n) => /** @type {HTMLInputElement} */ (n).value);
+                                setFieldValue(field, row, checked);
+                            });
+                            const span = document.createElement('span');
+                            span.textContent = opt;
+                            optLabel.appendChild(input);
+                            optLabel.appendChild(span);
+                            group.appendChild(optLabel);
+                        });
+                        control = group;
+                    } else {
+                        const input = document.createElement('input');
+                        input.type = field.type === 'number' ? 'number' : 'text';
+                        if (field.type === 'number') {
+                            if (typeof field.min === 'number') input.min = String(field.min);
+                            if (typeof field.max === 'number') input.max = String(field.max);
+                            input.value = typeof value === 'number' ? String(value) : '';
+                            input.addEventListener('input', () => setFieldValue(field, row, input.value.trim() === '' ? null : Number(input.value)));
+                        } else {
+                            input.value = typeof value === 'string' ? value : '';
+                            input.addEventListener('input', () => setFieldValue(field, row, input.value));
+                        }
+                        control = input;
+                    }
+                    if (field.type !== 'multiselect') control.id = id;
+                    row.appendChild(label);
+                    row.appendChild(control);
+                    if (field.description) {
+                        const hint = document.createElement('div');
+                        hint.className = 'form-description';
+                        hint.textContent = field.description;
+                        row.appendChild(hint);
+                    }
+                    el.form.appendChild(row);
+                });
+            }
+
             function updateTextareaVisibility() {
                 // Explicitly control display instead of relying on stylesheet defaults
                 // to avoid being overridden by "textarea { display: none; }" in CSS.
@@ -305,43 +858,67 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                     return;
                 }
                 el.options.style.display = '';
+                const multi = initData.multiSelect === true;
+                const inputType = multi ? 'checkbox' : 'radio';
                 const group = document.createElement('div');
                 group.className = 'radio-group';
-                options.forEach((opt, idx) => {
+                options.forEach((raw, idx) => {
+                    const opt = typeof raw === 'string' ? { label: raw } : raw;
                     const id = 'opt_' + idx;
                     const label = document.createElement('label');
                     label.className = 'radio';
                     const input = document.createElement('input');
-                    input.type = 'radio';
+                    input.type = inputType;
                     input.name = 'ask_report_option';
                     input.id = id;
-                    input.value = opt;
+                    input.value = opt.label;
+                    if (opt.recommended) input.dataset.recommended = 'true';
                     input.addEventListener('change', () => {
-                        usingCustom = false;
-                        selected = input.value;
+                        if (multi) {
+                            syncMultiSelection();
+                        } else {
+                            usingCustom = false;
+                            selected = input.value;
+                        }
                         updateSubmitState();
                         updateTextareaVisibility();
                         updateDockHeightVar();
                         persistState();
                     });
                     const span = document.createElement('span');
-                    span.textContent = opt;
+                    span.textContent = opt.label;
                     label.appendChild(input);
                     label.appendChild(span);
+                    if (opt.recommended) {
+                        const badge = document.createElement('span');
+                        badge.className = 'option-badge';
+                        badge.textContent = 'Recommended';
+                        label.appendChild(badge);
+                    }
+                    if (opt.description) {
+                        const description = document.createElement('div');
+                        description.className = 'option-description';
+                        description.textContent = opt.description;
+                        label.appendChild(description);
+                    }
                     group.appendChild(label);
                 });
                 // Custom option (always last)
                 const customLabel = document.createElement('label');
                 customLabel.className = 'radio';
                 const customInput = document.createElement('input');
-                customInput.type = 'radio';
+                customInput.type = inputType;
                 customInput.name = 'ask_report_option';
                 customInput.id = 'opt_custom';
                 customInput.value = '__CUSTOM__';
                 customInput.addEventListener('change', () => {
-                    usingCustom = true;
-                    selected = '';
-                    el.textarea.focus();
+                    if (multi) {
+                        syncMultiSelection();
+                    } else {
+                        usingCustom = true;
+                        selected = '';
+                    }
+                    if (usingCustom) el.textarea.focus();
                     updateSubmitState();
                     updateTextareaVisibility();
                     updateDockHeightVar();
@@ -354,22 +931,28 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                 group.appendChild(customLabel);
                 el.options.appendChild(group);
 
-                // Preselect first predefined option (matches reference UX)
-                const first = group.querySelector('input[type=radio][id^="opt_"]');
-                if (first) {
-                    /** @type {HTMLInputElement} */ (first).checked = true;
-                    selected = /** @type {HTMLInputElement} */ (first).value;
+                // Preselect recommended options; single-select falls back to the first option (matches reference UX)
+                const inputs = Array.from(group.querySelectorAll('input[id^="opt_"]')).filter((n) => n.id !== 'opt_custom');
+                let preselect = inputs.filter((n) => /** @type {HTMLInputElement} */ (n).dataset.recommended === 'true');
+                if (!multi) preselect = preselect.length > 0 ? preselect.slice(0, 1) : inputs.slice(0, 1);
+                preselect.forEach((n) => { /** @type {HTMLInputElement} */ (n).checked = true; });
+                if (multi) {
+                    syncMultiSelection();
+                } else if (preselect.length > 0) {
+                    selected = /** @type {HTMLInputElement} */ (preselect[0]).value;
                     usingCustom = false;
-                    // Ensure any listeners depending on change are fired
-                    first.dispatchEvent(new Event('change'));
-                } else {
-                    updateSubmitState();
-                    updateTextareaVisibility();
-                    updateDockHeightVar();
                 }
+                updateSubmitState();
+                updateTextareaVisibility();
+                updateDockHeightVar();
             }
 
             function focusFirst() {
+                const firstField = el.form.querySelector('input, select, textarea');
+                if (firstField) {
+                    /** @type {HTMLElement} */ (firstField).focus();
+                    return;
+                }
                 const firstRadio = el.options.querySelector('input[type=radio]');
                 if (firstRadio) {
                     /** @type {HTMLInputElement} */ (firstRadio).focus();
@@ -385,7 +968,13 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                 if (usingCustom) {
                     return (el.textarea.value || '').trim();
                 }
-                return selected;
+                return initData.multiSelect === true ? '' : selected;
+            }
+
+            function getSelectedOptions() {
+                if (!initData.options || initData.options.length === 0) return [];
+                if (initData.multiSelect === true) return selectedList;
+                return (!usingCustom && selected) ? [selected] : [];
             }
 
         function sendSubmit() {
@@ -393,14 +982,42 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                 if (!el.submit.disabled) {
                     stopTimer();
             persistState();
-                    vscode.postMessage({ type: 'submit', value });
+                    vscode.postMessage({ type: 'submit', id: initData.id, value, selectedOptions: getSelectedOptions(), formValues: hasForm() ? formValues : undefined });
                 }
             }
 
             function sendCancel() {
                 stopTimer();
                 persistState();
-                vscode.postMessage({ type: 'cancel' });
+                vscode.postMessage({ type: 'cancel', id: initData.id });
+            }
+
+            // Tabs for the other pending reports sharing this panel (hidden with a single report)
+            function renderQueue(items, activeId) {
+                el.queue.innerHTML = '';
+                if (!Array.isArray(items) || items.length < 2) {
+                    el.queue.style.display = 'none';
+                    return;
+                }
+                el.queue.style.display = '';
+                items.forEach((item, idx) => {
+                    const tab = document.createElement('button');
+                    const active = item.id === activeId;
+                    tab.className = 'queue-tab' + (active ? ' active' : '');
+                    tab.setAttribute('role', 'tab');
+                    tab.setAttribute('aria-selected', active ? 'true' : 'false');
+                    tab.title = item.title;
+                    tab.textContent = (idx + 1) + '. ' + item.title;
+                    tab.addEventListener('click', () => requestSwitch(item.id));
+                    el.queue.appendChild(tab);
+                });
+            }
+
+            // The extension re-initializes the panel with the target report; this one's state travels along
+            function requestSwitch(id) {
+                if (!id || id === initData.id) return;
+                stopTimer();
+                vscode.postMessage({ type: 'switch', id: initData.id, target: id, snapshot: snapshotState() });
             }
 
             // Keyboard handler: Ctrl/Cmd+Enter for submit
@@ -437,9 +1054,11 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                     el.pauseBtn.setAttribute('title', 'Resume');
                 } else {
                     paused = false;
+                    deadlineAt = Date.now() + remaining * 1000;
                     el.pauseBtn.setAttribute('aria-label', 'Pause timer');
                     el.pauseBtn.setAttribute('title', 'Pause');
                 }
+                vscode.postMessage({ type: 'pause', id: initData.id, paused });
                 setPausePlayIcon();
                 renderTimer();
                 persistState();
@@ -452,8 +1071,33 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
 
             window.addEventListener('message', (event) => {
                 const msg = event.data;
+                // Submitted form rejected by the extension: show why and let the user fix it
+                if (msg && msg.type === 'formErrors') {
+                    el.formErrors.textContent = (msg.errors || []).join(' ');
+                    updateDockHeightVar();
+                    if (typeof msg.remaining === 'number') remaining = msg.remaining;
+                    startTimer();
+                    return;
+                }
+                if (msg && msg.type === 'queue') {
+                    renderQueue(msg.items, msg.activeId);
+                    return;
+                }
+                if (msg && msg.type === 'switchTo') {
+                    requestSwitch(msg.id);
+                    return;
+                }
                 if (!msg || msg.type !== 'init') return;
                 initData = msg.payload || initData;
+                // The panel may be showing another report: start from a clean slate
+                stopTimer();
+                selected = '';
+                selectedList = [];
+                usingCustom = false;
+                el.formErrors.textContent = '';
+                if (!initData.readonly) enableAllInputs();
+                el.notice.textContent = initData.notice || '';
+                el.notice.style.display = initData.notice ? '' : 'none';
                 try {
                     if (window.ReliefPilotMarkdownEnhancer) {
                         window.ReliefPilotMarkdownEnhancer.render(el.markdown, initData.markdown || '', (text) => { try { vscode.postMessage({ type: 'copy', text }); } catch {} });
@@ -463,20 +1107,35 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                         el.markdown.textContent = initData.markdown || '';
                     }
                 } catch { el.markdown.textContent = initData.markdown || ''; }
-                // Try restoring from saved state if present
-                const savedState = vscode.getState() || {};
+                // Restore the state saved when switching away from this report, or after a webview reload
+                const stored = vscode.getState();
+                const savedState = (msg.restore && typeof msg.restore === 'object')
+                    ? msg.restore
+                    : ((stored && stored.initData && stored.initData.id === initData.id) ? stored : {});
 
                 // Base textarea value from init unless saved has a specific value
                 el.textarea.value = (typeof savedState.textareaValue === 'string')
                     ? savedState.textareaValue
                     : (initData.initialValue || '');
 
+                formValues = (savedState.formValues && typeof savedState.formValues === 'object')
+                    ? savedState.formValues
+                    : Object.assign({}, initData.formValues || {});
+                renderForm(initData.form || []);
+                if (hasForm()) el.textarea.placeholder = 'Optional comment…';
+
                 // Hide textarea by default until options logic decides otherwise
                 el.textarea.style.display = 'none';
                 renderOptions(initData.options || []);
 
                 // Restore selected option/custom if saved
-                if (savedState && (savedState.usingCustom === true || typeof savedState.selected === 'string')) {
+                if (initData.multiSelect === true && Array.isArray(savedState.selectedList)) {
+                    el.options.querySelectorAll('input[type=checkbox]').forEach((n) => {
+                        const box = /** @type {HTMLInputElement} */ (n);
+                        box.checked = box.id === 'opt_custom' ? savedState.usingCustom === true : savedState.selectedList.includes(box.value);
+                    });
+                    syncMultiSelection();
+                } else if (savedState && (savedState.usingCustom === true || typeof savedState.selected === 'string')) {
                     if (savedState.usingCustom) {
                         const custom = el.options.querySelector('#opt_custom');
                         if (custom) {
@@ -495,19 +1154,29 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                     }
                 }
 
+                // Read-only viewer: show what the user picked instead of the defaults
+                if (initData.readonly && Array.isArray(initData.selectedOptions)) {
+                    el.options.querySelectorAll('input').forEach((n) => {
+                        const input = /** @type {HTMLInputElement} */ (n);
+                        input.checked = initData.selectedOptions.includes(input.value);
+                    });
+                }
+
                 updateSubmitState();
                 updateTextareaVisibility();
 
                 // Focus management
                 focusFirst();
 
-                // Init timer (restore remaining/pause if saved)
+                // Init timer from the extension's countdown (saved state only matters without one)
                 const savedRemaining = typeof savedState.remaining === 'number' ? savedState.remaining : undefined;
                 const savedPaused = typeof savedState.paused === 'boolean' ? savedState.paused : undefined;
-                remaining = (typeof savedRemaining === 'number' && savedRemaining > 0)
-                    ? savedRemaining
-                    : ((typeof initData.timeout === 'number' && initData.timeout > 0) ? initData.timeout : 0);
-                paused = savedPaused ?? false;
+                remaining = typeof initData.remaining === 'number'
+                    ? initData.remaining
+                    : (typeof savedRemaining === 'number' && savedRemaining > 0)
+                        ? savedRemaining
+                        : ((typeof initData.timeout === 'number' && initData.timeout > 0) ? initData.timeout : 0);
+                paused = typeof initData.paused === 'boolean' ? initData.paused : (savedPaused ?? false);
 
                 // Setup pause button initial state
                 el.pauseBtn.setAttribute('aria-label', paused ? 'Resume timer' : 'Pause timer');
@@ -530,17 +1199,18 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
 
                 // Persist initial state after rendering
                 persistState();
-                // Intercept clicks on links to send openExternal
-                el.markdown.addEventListener('click', (e) => {
-                    const target = e.target;
-                    if (target && target.tagName === 'A') {
-                        e.preventDefault();
-                        const href = target.getAttribute('href') || '';
-                        if (href) {
-                            vscode.postMessage({ type: 'openExternal', url: href });
-                        }
+            });
+
+            // Intercept clicks on links to send openExternal
+            el.markdown.addEventListener('click', (e) => {
+                const target = e.target;
+                if (target && target.tagName === 'A') {
+                    e.preventDefault();
+                    const href = target.getAttribute('href') || '';
+                    if (href) {
+                        vscode.postMessage({ type: 'openExternal', url: href });
                     }
-                });
+                }
             });
 
             // Restore state if any; triggers the same init handler
@@ -549,16 +1219,24 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
                 window.postMessage({ type: 'init', payload: saved.initData }, '*');
             }
 
+            function snapshotState() {
+                return {
+                    // Lets the panel serializer find the history entry after a window reload
+                    uid: initData.id,
+                    initData,
+                    selected,
+                    selectedList,
+                    usingCustom,
+                    formValues,
+                    textareaValue: el.textarea.value || '',
+                    remaining,
+                    paused,
+                };
+            }
+
             function persistState() {
                 try {
-                    vscode.setState({
-                        initData,
-                        selected,
-                        usingCustom,
-                        textareaValue: el.textarea.value || '',
-                        remaining,
-                        paused,
-                    });
+                    vscode.setState(snapshotState());
                 } catch {}
             }
 
@@ -567,110 +1245,6 @@ export async function askReport(opts: AskReportOptions): Promise<AskUserResult>
         </script>
     </body>
 </html>`
-
-    // Read timeout from settings and send init payload
-    const timeout = vscode.workspace
-        .getConfiguration('reliefpilot')
-        .get<number>('askReportTimeoutSeconds', 60)
-
-    // Return a promise that resolves based on webview messages or panel disposal
-    return await new Promise<AskUserResult>((resolve) => {
-        let settled = false
-        const finalize = (res: AskUserResult) => {
-            if (!settled) {
-                settled = true
-                try { panel.dispose() } catch { /* noop */ }
-                resolve(res)
-            }
-        }
-
-        const disposables: vscode.Disposable[] = []
-
-        // Handle messages from webview
-        disposables.push(
-            panel.webview.onDidReceiveMessage(async (msg: any) => {
-                if (!msg || typeof msg !== 'object') return
-                switch (msg.type) {
-                    case 'submit': {
-                        const value = typeof msg.value === 'string' ? msg.value : ''
-                        finalize({ decision: 'Submit', value })
-                        return
-                    }
-                    case 'cancel': {
-                        finalize({ decision: 'Cancel', value: '' })
-                        return
-                    }
-                    case 'timeout': {
-                        finalize({ decision: 'Cancel', value: '', timeout: true })
-                        return
-                    }
-                    case 'openExternal': {
-                        const url = typeof msg.url === 'string' ? msg.url : ''
-                        if (url) {
-                            try {
-                                await vscode.env.openExternal(vscode.Uri.parse(url))
-                            } catch {
-                                // ignore
-                            }
-                        }
-                        return
-                    }
-                    case 'copy': {
-                        const text = typeof msg.text === 'string' ? msg.text : ''
-                        try {
-                            await vscode.env.clipboard.writeText(text)
-                        } catch {
-                            // ignore clipboard errors
-                        }
-                        return
-                    }
-                    case 'save': {
-                        const text = typeof msg.text === 'string' ? msg.text : ''
-                        try {
-                            const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: text })
-                            await vscode.window.showTextDocument(doc)
-                        } catch {
-                            // ignore errors silently (no notifications)
-                        }
-                        return
-                    }
-                    default:
-                        return
-                }
-            }),
-        )
-
-        // Resolve Cancel if panel is closed without decision
-        disposables.push(
-            panel.onDidDispose(() => {
-                if (opts.historyId) {
-                    try {
-                        const entry = askReportHistory.getById(opts.historyId)
-                        if (entry) entry.panel = undefined
-                    } catch { /* ignore */ }
-                }
-                if (!settled) {
-                    settled = true
-                    resolve({ decision: 'Cancel', value: '' })
-                }
-                disposables.forEach((d) => {
-                    try { d.dispose() } catch { /* noop */ }
-                })
-            }),
-        )
-
-        // Send init to the webview
-        void panel.webview.postMessage({
-            type: 'init',
-            payload: {
-                markdown: opts.markdown,
-                initialValue: opts.initialValue ?? '',
-                options: opts.predefinedOptions ?? [],
-                timeout: opts.readOnly ? 0 : timeout,
-                readonly: opts.readOnly === true,
-            },
-        })
-    })
 }
 
 export class AskReportLanguageModelTool
@@ -692,13 +1266,26 @@ export class AskReportLanguageModelTool
             // Resolve UID from prepareInvocation (FIFO), or generate new if direct call
             const uid = this._pendingUids.length > 0 ? this._pendingUids.shift()! : randomUUID()
 
+            const form = normalizeFormFields(input.form)
+            if (form.errors.length > 0) {
+                throw new Error(`ask_report invalid form: ${form.errors.join(' ')}`)
+            }
+            const predefined = normalizePredefinedOptions(input.predefinedOptions)
+            if (predefined.errors.length > 0) {
+                throw new Error(`ask_report invalid predefinedOptions: ${predefined.errors.join(' ')}`)
+            }
+            const predefinedOptions = predefined.options.length > 0 ? predefined.options : undefined
+            const multiSelect = input.multiSelect === true && predefinedOptions !== undefined
+
             // Save to in-memory history immediately to track panel and status
             try {
                 askReportHistory.add({
                     id: uid,
                     topic: input.topicName,
                     markdown: input.message,
-                    predefinedOptions: Array.isArray(input.predefinedOptions) ? input.predefinedOptions : undefined,
+                    predefinedOptions,
+                    multiSelect: multiSelect || undefined,
+                    form: form.fields.length > 0 ? form.fields : undefined,
                     result: undefined,
                 })
             } catch { }
@@ -707,28 +1294,46 @@ export class AskReportLanguageModelTool
                 title: input.topicName,
                 markdown: input.message,
                 initialValue: '',
-                predefinedOptions: Array.isArray(input.predefinedOptions)
-                    ? input.predefinedOptions
-                    : undefined,
+                predefinedOptions,
+                multiSelect,
+                form: form.fields.length > 0 ? form.fields : undefined,
+                timeoutSeconds: input.timeoutSeconds,
                 historyId: uid,
             })
 
             // Update existing history entry with the final result and persist
             try {
-                askReportHistory.updateResult(uid, { decision: result.decision, value: result.value, timeout: result.timeout })
+                askReportHistory.updateResult(uid, {
+                    decision: result.decision,
+                    value: result.value,
+                    selectedOptions: result.selectedOptions,
+                    formValues: result.formValues,
+                    timeout: result.timeout,
+                    timeoutPolicy: result.timeoutPolicy,
+                    timeoutFallback: result.timeoutFallback,
+                })
             } catch { }
 
-            let text: string
+            const lines: string[] = []
             if (result.timeout === true) {
-                text = 'User did not reply: Timeout occurred.'
-            } else if (result.decision === 'Cancel' && (!result.value || result.value.trim() === '')) {
-                text = 'User replied with empty input.'
+                lines.push(describeTimeout(getTimeoutSeconds(input.timeoutSeconds), result.timeoutPolicy ?? 'cancel', result.timeoutFallback))
+            }
+            if (result.decision === 'Cancel' && (!result.value || result.value.trim() === '')) {
+                if (result.timeout !== true) lines.push('User replied with empty input.')
             } else {
-                text = `User replied: ${result.value}`
+                if (multiSelect) {
+                    lines.push(`User selected ${result.selectedOptions?.length ?? 0} option(s): ${JSON.stringify(result.selectedOptions ?? [])}`)
+                    if (result.value.trim()) lines.push(`User comment: ${result.value}`)
+                } else if (!result.formValues || result.value.trim()) {
+                    lines.push(`User replied: ${result.value}`)
+                }
+                if (result.formValues) {
+                    lines.push(`Form values (JSON):\n${JSON.stringify(result.formValues, null, 2)}`)
+                }
             }
 
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(text),
+                new vscode.LanguageModelTextPart(lines.join('\n')),
             ])
         } finally {
             statusBarActivity.end('ask_report')
@@ -766,22 +1371,37 @@ export async function openOrFocusAskReportById(id: string): Promise<void> {
         vscode.window.showErrorMessage('ask_report entry not found in history.')
         return
     }
+    // Still waiting for an answer: switch the shared panel to it
+    if (focusPendingAskReport(id)) {
+        return
+    }
     if (entry.panel) {
         try { entry.panel.reveal(undefined, false) } catch { /* ignore */ }
         return
     }
     // Open read-only from history and bind panel reference
-    void askReport({
+    void askReport(historyViewerOptions(entry))
+}
+
+function historyViewerOptions(entry: AskReportHistoryEntry): AskReportOptions {
+    return {
         title: entry.topic,
         markdown: entry.markdown,
         predefinedOptions: entry.predefinedOptions,
+        multiSelect: entry.multiSelect,
+        selectedOptions: entry.result?.selectedOptions,
+        form: entry.form,
+        formValues: entry.result?.formValues,
         readOnly: true,
-        historyId: id,
-    })
+        notice: entry.result?.interrupted
+            ? 'Interrupted: VS Code reloaded before this question was answered. The agent never received a reply.'
+            : undefined,
+        historyId: entry.id,
+    }
 }
 
 // Backward-compatible helper kept for other callers (opens a new read-only panel)
-export async function showAskReportReadonly(title: string, markdown: string, predefinedOptions?: string[]) {
+export async function showAskReportReadonly(title: string, markdown: string, predefinedOptions?: AskReportOptionInput[]) {
     void askReport({ title, markdown, predefinedOptions, readOnly: true })
 }
 
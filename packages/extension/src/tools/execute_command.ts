@@ -5,22 +5,43 @@ import type {
   LanguageModelToolInvocationPrepareOptions,
   PreparedToolInvocation,
 } from "vscode"
+import { randomUUID } from "node:crypto"
+import * as path from "path"
 import * as vscode from "vscode"
 import { z } from "zod"
+import { formatExecutionHeader } from "../integrations/terminal/executionStatus"
 import { TerminalManager } from "../integrations/terminal/TerminalManager"
+import { publishCommandProblems } from "../utils/command_diagnostics"
+import { CommandGrantRequest, commandGrants, describeCommandGrant } from "../utils/command_grants"
+import { commandHistory } from "../utils/command_history"
+import { CommandExecutionMode, describePolicyRule, evaluateCommandPolicy, getCommandPolicyRules, ScopedCommandPolicyRule } from "../utils/command_policy"
 import { ConfirmationUI } from "../utils/confirmation_ui"
+import { analyzeShellCommand } from "../utils/shell_command_analyzer"
 import { env } from "../utils/env"
+import { createCheckpoint, pruneCheckpoints } from "../utils/git_checkpoint"
+import { runHeadless } from "../utils/headless_runner"
+import { log } from "../utils/log"
+import { formatOutputSummary, getOutputSummaryMinChars, summarizeCommandOutput } from "../utils/output_summary"
+import { reviewCommandScript } from "../utils/script_review"
+import { splitScriptSteps } from "../utils/script_steps"
+import { commandEnvironmentKey, CommandEnvironment, describeCommandEnvironment, resolveCommandEnvironment, SHELL_NAMES, ShellName } from "../utils/shell_env"
 import { formatResponse, ToolResponse } from "../utils/response"
 import { statusBarActivity } from "../utils/statusBar"
 import { delay } from "../utils/time.js"
+import { getCheckpointLimit } from "./restore_checkpoint"
 
 // Local type aliases for stricter typing and clearer intent
 type TerminalId = number
 
+// Time a killAfter interrupt (Ctrl+C) gets before the terminal is disposed
+const KILL_GRACE_MS = 3000
+
 interface ApprovalDecision {
   approved: boolean
   updatedCommand?: string
   feedback?: string
+  // "Always allow" choice made in the confirmation UI
+  grant?: CommandGrantRequest
 }
 
 export const executeCommandSchema = z.object({
@@ -44,7 +65,7 @@ export const executeCommandSchema = z.object({
     .describe(
       "If true, start the command and return immediately without waiting for completion. Prefer background=true or set a timeout for long-running commands (servers, pagers, etc.)."
     ),
-  // Reporting timeout used only to stop waiting (does not kill the process)
+  // Reporting timeout used only to stop waiting (does not kill the process, except in headless mode)
   timeout: z
     .number()
     .int()
@@ -52,10 +73,88 @@ export const executeCommandSchema = z.object({
     .optional()
     .default(300000)
     .describe(
-      "Milliseconds to wait before reporting intermediate output when not in background. This does not terminate the process."
+      "Milliseconds to wait before reporting intermediate output when not in background. This does not terminate the process, except in headless mode where it is a hard kill timeout."
+    ),
+  // Readiness pattern for servers/watchers: return once a line matches instead of guessing a timeout
+  waitFor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional regular expression (JavaScript syntax, case-sensitive) matched against each output line. The tool returns as soon as a line matches (e.g. \"Listening on\", \"Compiled successfully\") or the command exits; the command keeps running. Takes precedence over background."
+    ),
+  waitForTimeout: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Milliseconds to wait for the waitFor pattern (defaults to timeout). The command keeps running when it elapses."),
+  // Headless runs bypass the terminal: separate stdout/stderr, hard kill on timeout
+  mode: z
+    .enum(["terminal", "headless"])
+    .optional()
+    .describe(
+      "Where to run the command. terminal (default): visible integrated terminal. headless: Node child process with separate stdout/stderr, no stdin, and a hard kill when timeout elapses; best for greps, lints and test runs. Ignored for background and waitFor runs; reliefpilot.commandPolicy rules may force a mode."
+    ),
+  // Hard limit: unlike timeout, this stops the command (also for background and waitFor runs)
+  killAfter: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional hard limit in milliseconds measured from the start of the command. When it elapses the command is interrupted (Ctrl+C); if it does not stop within a few seconds the terminal is disposed. Applies to background and waitFor runs too, so hung tests or servers never keep a terminal blocked."
+    ),
+  // Logical terminal: keeps unrelated work (dev server, tests, git) in separate terminal histories
+  terminalName: z
+    .string()
+    .min(1)
+    .max(64)
+    .optional()
+    .describe(
+      "Optional logical terminal name (e.g. \"dev-server\", \"tests\"). Commands with the same terminalName always run in the same dedicated terminal; commands without one never reuse named terminals. Fails if the named terminal is still running a command. Ignored in headless mode."
+    ),
+  // Reproducible runs across teammates' setups: explicit shell and variables instead of the default terminal profile
+  shell: z
+    .enum(SHELL_NAMES)
+    .optional()
+    .describe("Optional shell to run the command with (bash, zsh, sh, pwsh); must be installed. Defaults to the VS Code terminal profile (terminal mode) or the system shell (headless mode)."),
+  env: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Optional environment variables for the command (e.g. {\"CI\": \"1\"}), added to the inherited environment. Override values from envPreset."),
+  envPreset: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Optional name of an environment preset defined by the workspace in reliefpilot.envPresets (e.g. \"ci\", \"test\")."),
+  // Long test/build logs flood the context; a language model extracts what matters instead
+  summarizeFor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional focus for summarizing long output (e.g. \"failing tests\", \"compile errors\"). When the result is long, it is passed through the configured language model, which returns only the failures, stack traces and final summary relevant to this focus. The full raw output is saved to a file whose path is given in the result."
     ),
 })
 
+// Options added after the positional parameters of ExecuteCommandTool.execute
+export interface ExecuteCommandOptions {
+  waitFor?: string
+  waitForTimeout?: number
+  mode?: CommandExecutionMode
+  killAfter?: number
+  terminalName?: string
+  shell?: ShellName
+  env?: Record<string, string>
+  envPreset?: string
+  summarizeFor?: string
+  // Id for the execute_command history entry (lets the chat link open it before the command finishes)
+  historyId?: string
+  // Cancellation of the tool invocation; stops a pending output summary request
+  token?: CancellationToken
+}
+
 export class ExecuteCommandTool {
   private cwd: string
   private terminalManager: TerminalManager
@@ -70,28 +169,139 @@ export class ExecuteCommandTool {
     customCwd?: string,
     destructiveFlag: boolean = true,
     background: boolean = false,
-    timeout: number = 300000
+    timeout: number = 300000,
+    options: ExecuteCommandOptions = {}
+  ): Promise<[userRejected: boolean, ToolResponse]> {
+    // Validate the readiness pattern before asking the user anything
+    const waitPattern = options.waitFor ? compileWaitForPattern(options.waitFor) : undefined
+
+    // Every invocation is recorded, including declined and blocked ones
+    const entry = commandHistory.add({
+      id: options.historyId,
+      proposedCommand: command,
+      cwd: path.resolve(this.cwd, customCwd || "."),
+      mode: options.mode ?? "terminal",
+      background,
+    })
+    try {
+      const [userRejected, response] = await this.run(entry.id, command, customCwd, destructiveFlag, background, timeout, options, waitPattern)
+      if (userRejected) {
+        commandHistory.update(entry.id, { output: response.text })
+        return [userRejected, response]
+      }
+
+      const notes: string[] = []
+      // Feedback given together with an approval (script review) is passed on to the agent
+      if (entry.decision === "approved" && entry.feedback) {
+        notes.push(`User feedback: ${entry.feedback}`)
+      }
+      const checkpoint = commandHistory.getById(entry.id)?.checkpoint
+      if (checkpoint) {
+        notes.push(`Checkpoint ${checkpoint.id} of ${checkpoint.root} was saved before running; restore_checkpoint can roll the working tree back to it.`)
+      }
+      // The raw result stays in the history entry; only the agent gets the summary
+      let summary: string | undefined
+      if (options.summarizeFor) {
+        const summarized = await this.summarize(entry.id, entry.command ?? command, response.text, options.summarizeFor, options.token)
+        summary = summarized.summary
+        if (summarized.note) notes.push(summarized.note)
+      }
+      const withNotes = (text: string) => [text, ...notes].join("\n\n")
+      commandHistory.update(entry.id, { output: withNotes(response.text), summary })
+      return [false, formatResponse.toolResult(withNotes(summary ?? response.text))]
+    } catch (err) {
+      commandHistory.update(entry.id, { output: `Error: ${err instanceof Error ? err.message : String(err)}` })
+      throw err
+    }
+  }
+
+  private async run(
+    historyId: string,
+    command: string,
+    customCwd: string | undefined,
+    destructiveFlag: boolean,
+    background: boolean,
+    timeout: number,
+    options: ExecuteCommandOptions,
+    waitPattern: RegExp | undefined,
   ): Promise<[userRejected: boolean, ToolResponse]> {
+
+    // Unknown shells/presets fail before the user is asked anything
+    const environment = resolveCommandEnvironment(options)
+    const environmentNote = describeCommandEnvironment(environment)
+
     // Read extension setting that optionally forces confirmation for read-only commands
     const confirmNonDestructiveCommands = vscode.workspace
       .getConfiguration("reliefpilot")
       .get<boolean>("confirmNonDestructiveCommands", false)
 
-    const shouldConfirm = destructiveFlag || confirmNonDestructiveCommands
+    // Workspace/user policy rules take precedence over the agent-supplied destructiveFlag
+    const resolvedCwd = path.resolve(this.cwd, customCwd || ".")
+    const policy = evaluateCommandPolicy(getCommandPolicyRules(), { command, cwd: resolvedCwd })
+    let policyMode = policy.mode
+    if (policy.action === "deny" && policy.rule) {
+      commandHistory.update(historyId, { decision: "blocked", policyRule: describePolicyRule(policy.rule) })
+      return [true, formatResponse.toolResult(this.policyDeniedMessage(policy.rule, policy.segment))]
+    }
+
+    // Independent classifier: the agent's "read-only" claim is not trusted blindly
+    const classifierReasons = !destructiveFlag && isClassifierEnabled() ? analyzeShellCommand(command).reasons : []
+
+    // Variables the agent sets per command (NODE_OPTIONS, LD_PRELOAD, PATH...) can change what runs,
+    // so they always go through the prompt; rules and grants only vouch for the command text
+    const customEnv = environment.commandEnv.length > 0
+
+    let shouldConfirm = destructiveFlag || confirmNonDestructiveCommands || classifierReasons.length > 0
+    if (policy.action === "allow") {
+      // Allow rules vouch for the command text; what the classifier finds still goes to the user
+      shouldConfirm = classifierReasons.length > 0
+    } else if (policy.action === "confirm") {
+      shouldConfirm = true
+    }
+    if (customEnv) {
+      shouldConfirm = true
+    }
+
+    // Grants remembered from earlier confirmations skip the prompt, but never override a confirm rule
+    const grant = shouldConfirm && policy.action !== "confirm" && !customEnv ? commandGrants.find(command) : undefined
+    if (grant) {
+      shouldConfirm = false
+    }
 
     // Ask user to approve/deny and allow editing when confirmation is required
     if (shouldConfirm) {
-      const decision = await this.ask(command)
+      const decision = await this.ask(command, classifierReasons, resolvedCwd, environmentNote)
       if (!decision.approved) {
+        commandHistory.update(historyId, { decision: "denied", feedback: decision.feedback })
         const note = decision.feedback ? ` Feedback: ${decision.feedback}` : ""
         return [true, formatResponse.toolResult(`Command execution was declined by the user.${note}`)]
       }
       if (decision.updatedCommand && decision.updatedCommand !== command) {
         command = decision.updatedCommand
+        // Deny rules are hard blocks: they also apply to commands edited in the confirmation UI
+        const edited = evaluateCommandPolicy(getCommandPolicyRules(), { command, cwd: resolvedCwd })
+        if (edited.action === "deny" && edited.rule) {
+          commandHistory.update(historyId, { decision: "blocked", command, policyRule: describePolicyRule(edited.rule) })
+          return [true, formatResponse.toolResult(this.policyDeniedMessage(edited.rule, edited.segment))]
+        }
+        policyMode = edited.mode
       }
+      const created = decision.grant ? commandGrants.add(decision.grant) : undefined
+      commandHistory.update(historyId, {
+        decision: "approved",
+        feedback: decision.feedback,
+        grant: created && describeCommandGrant(created),
+      })
+    } else if (grant) {
+      log(`Executing command allowed by ${describeCommandGrant(grant)}: ${command}`)
+      commandHistory.update(historyId, { decision: "auto-approved", grant: describeCommandGrant(grant) })
+    } else if (policy.action === "allow" && policy.rule) {
+      log(`Executing command allowed by ${describePolicyRule(policy.rule)}: ${command}`)
+      commandHistory.update(historyId, { decision: "auto-approved", policyRule: describePolicyRule(policy.rule) })
     } else {
       // Non-destructive path with confirmation disabled
-      console.log(`Executing read-only command without confirmation: ${command}`)
+      log(`Executing read-only command without confirmation: ${command}`)
+      commandHistory.update(historyId, { decision: "auto-approved" })
     }
 
     // Basic input validation after potential edits
@@ -100,19 +310,56 @@ export class ExecuteCommandTool {
       throw new Error("Command cannot be empty.")
     }
 
+    // Destructive commands in a git workspace get a working-tree snapshot to roll back to
+    if ((destructiveFlag || classifierReasons.length > 0) && isCheckpointEnabled()) {
+      await this.checkpoint(historyId, command, resolvedCwd)
+    }
+
+    // Policy mode wins over the requested one; background and waitFor runs need a terminal to keep running in
+    const mode = policyMode ?? options.mode ?? "terminal"
+    if (mode === "headless" && !background && !waitPattern) {
+      commandHistory.update(historyId, { command, mode })
+      // Headless runs are always hard-killed; killAfter can only make that earlier
+      const hardTimeout = options.killAfter !== undefined ? Math.min(timeout, options.killAfter) : timeout
+      return [false, await this.executeHeadless(historyId, command, resolvedCwd, hardTimeout, environment)]
+    }
+    commandHistory.update(historyId, { command, mode: "terminal" })
+
     // Terminal lifecycle and event wiring
-    const terminalInfo = await this.terminalManager.getOrCreateTerminal(customCwd || this.cwd)
+    const terminalInfo = await this.terminalManager.getOrCreateTerminal(customCwd || this.cwd, options.terminalName, {
+      shellPath: environment.shellPath,
+      env: environment.env,
+      key: commandEnvironmentKey(environment),
+    })
     terminalInfo.terminal.show() // Ensures visibility; avoids known empty-space glitch on first open
     const process = this.terminalManager.runCommand(terminalInfo, command)
+    commandHistory.update(historyId, { terminalId: terminalInfo.id })
 
     let collected = ""
     process.on("line", (line) => {
       collected += line + "\n"
     })
 
+    // killAfter keeps running after the tool returns (background, waitFor match, reporting timeout)
+    let kill: Promise<{ stopped: boolean; disposed: boolean }> | undefined
+    let onKilled: () => void = () => { }
+    const killed = new Promise<void>((resolve) => { onKilled = resolve })
+    const killAfter = options.killAfter
+    const killTimer = killAfter === undefined ? undefined : setTimeout(() => {
+      log(`Killing command in terminal ${terminalInfo.id} after ${killAfter}ms: ${command}`)
+      kill = this.terminalManager.terminate(terminalInfo, KILL_GRACE_MS, 0)
+      void kill.then(() => {
+        if (process.execution) commandHistory.update(historyId, { execution: { ...process.execution } })
+        onKilled()
+      })
+    }, killAfter)
+
     let completed = false
     process.once("completed", () => {
       completed = true
+      clearTimeout(killTimer)
+      // Also fires after the tool returned for background and still running commands
+      if (process.execution) commandHistory.update(historyId, { execution: { ...process.execution } })
     })
 
     process.once("no_shell_integration", async () => {
@@ -121,67 +368,258 @@ export class ExecuteCommandTool {
       )
     })
 
-    // Background: return as soon as the command is started
-    if (background) {
+    // Background: return as soon as the command is started (waitFor needs to observe the output instead)
+    if (background && !waitPattern) {
       const terminalId: TerminalId = terminalInfo.id
+      if (process.execution) commandHistory.update(historyId, { execution: { ...process.execution } })
       return [
         false,
         formatResponse.toolResult(
           `Command started in background and continues in terminal (id: ${terminalId}). ` +
+          `${killAfter !== undefined ? `It will be killed if still running after ${killAfter}ms. ` : ""}` +
           `Use get_terminal_output later to retrieve ongoing output for this terminal.`
         ),
       ]
     }
 
-    // Create a promise that resolves after the timeout (does not terminate the process)
-    const timeoutPromise = new Promise<void>((resolve) => {
-      setTimeout(resolve, timeout)
-    })
-
-    // Wait for either process completion or timeout
-    await Promise.race([process, timeoutPromise])
+    // Wait for the readiness pattern, process completion or the wait timeout (none of them terminate the process)
+    const waitTimeout = waitPattern ? options.waitForTimeout ?? timeout : timeout
+    const wait = await Promise.race([
+      this.terminalManager.waitForOutput(terminalInfo, waitPattern, waitTimeout),
+      killed.then(() => ({ reason: "killed" as const, matchedLine: undefined })),
+    ])
+    // An interrupt also completes the command; let the kill finish to know whether the terminal was disposed
+    const killResult = kill ? await kill : undefined
 
     // Allow async output messages to flush and maintain ordering
     await delay(50)
 
     const terminalId: TerminalId = terminalInfo.id
     const result = collected.trim()
+    this.terminalManager.markOutputRetrieved(terminalId)
+    // Structured status block (exit code, timestamps, duration); absent if the command has not started yet
+    const header = process.execution ? `\n${formatExecutionHeader(process.execution)}` : ""
+    if (process.execution) commandHistory.update(historyId, { execution: { ...process.execution } })
+
+    if (killResult) {
+      const how = killResult.disposed
+        ? `it did not stop within ${KILL_GRACE_MS}ms after interrupt, so the terminal was disposed`
+        : "it was interrupted (Ctrl+C)"
+      return [
+        false,
+        formatResponse.toolResult(
+          `Command killed after ${killAfter}ms (killAfter) in terminal (id: ${terminalId}); ${how}.${header}` +
+          `${result ? `\nOutput before kill:\n${result}` : ""}`
+        ),
+      ]
+    }
+
+    if (completed && process.execution?.shellIntegration === false) {
+      return [
+        false,
+        formatResponse.toolResult(
+          `Command sent to terminal (id: ${terminalId}) without shell integration; completion cannot be detected.${header}`
+        ),
+      ]
+    }
 
     if (completed) {
+      const problems = formatProblemsNote(publishCommandProblems(command, resolvedCwd, result))
+      return [
+        false,
+        formatResponse.toolResult(
+          `Command finished in terminal (id: ${terminalId}).${header}${problems}${result ? `\nOutput:\n${result}` : ""}`
+        ),
+      ]
+    }
+
+    if (wait.reason === "matched") {
       return [
         false,
         formatResponse.toolResult(
-          `Command finished in terminal (id: ${terminalId}).${result ? `\nOutput:\n${result}` : ""}`
+          `Command is running in terminal (id: ${terminalId}); output matched waitFor pattern /${waitPattern?.source}/: ` +
+          `${wait.matchedLine?.trim()}${header}${result ? `\nOutput so far:\n${result}` : ""
+          }\n\nUse get_terminal_output or wait_for_terminal to follow further output.`
         ),
       ]
     }
 
-    const timeoutNote = timeout !== 300000 ? ` (waited ${timeout}ms)` : ""
+    const timeoutNote = waitPattern
+      ? ` (waitFor pattern /${waitPattern.source}/ not seen within ${waitTimeout}ms)`
+      : timeout !== 300000 ? ` (waited ${timeout}ms)` : ""
+    const killNote = killAfter !== undefined ? ` It will be killed if still running ${killAfter}ms after it started.` : ""
     return [
       false,
       formatResponse.toolResult(
-        `Command still running in terminal (id: ${terminalId})${timeoutNote}.${result ? `\nPartial output:\n${result}` : ""
+        `Command still running in terminal (id: ${terminalId})${timeoutNote}.${killNote}${header}${result ? `\nPartial output:\n${result}` : ""
         }\n\nUse get_terminal_output to check for more output later.`
       ),
     ]
   }
 
-  protected async ask(command: string): Promise<ApprovalDecision> {
+  private async executeHeadless(
+    historyId: string,
+    command: string,
+    cwd: string,
+    timeout: number,
+    environment: CommandEnvironment,
+  ): Promise<ToolResponse> {
+    const run = await runHeadless(command, {
+      cwd,
+      timeoutMs: timeout,
+      maxOutputBytes: getHeadlessMaxOutputBytes(),
+      env: Object.keys(environment.env).length > 0 ? { ...process.env, ...environment.env } : undefined,
+      shell: environment.shellPath,
+    })
+    if (run.error) {
+      return formatResponse.toolResult(`Command could not be started (headless, cwd: ${cwd}): ${run.error}`)
+    }
+
+    const execution = {
+      startedAt: run.startedAt,
+      endedAt: run.endedAt,
+      exitCode: run.exitCode ?? undefined,
+      signal: run.signal ?? undefined,
+      shellIntegration: true,
+    }
+    commandHistory.update(historyId, { execution })
+    const header = formatExecutionHeader({ command, ...execution })
+    const problems = run.timedOut ? "" : formatProblemsNote(publishCommandProblems(command, cwd, `${run.stdout}\n${run.stderr}`))
+    const outcome = run.timedOut
+      ? `Command killed after ${timeout}ms timeout (headless).`
+      : "Command finished (headless)."
+    const section = (name: string, text: string, dropped: number) => {
+      const trimmed = text.trim()
+      if (!trimmed) return ""
+      const note = dropped > 0 ? ` (first ${dropped} bytes omitted)` : ""
+      return `\n${name}${note}:\n${trimmed}`
+    }
+
+    return formatResponse.toolResult(
+      `${outcome}\n${header}${problems}` +
+      `${section("Stdout", run.stdout, run.droppedBytes.stdout)}` +
+      `${section("Stderr", run.stderr, run.droppedBytes.stderr)}` +
+      `${!run.stdout.trim() && !run.stderr.trim() ? "\nNo output." : ""}`
+    )
+  }
+
+  // Short outputs are returned as is; a failed summary falls back to the raw result with a note
+  private async summarize(
+    historyId: string,
+    command: string,
+    output: string,
+    focus: string,
+    token?: CancellationToken,
+  ): Promise<{ summary?: string; note?: string }> {
+    if (output.length < getOutputSummaryMinChars()) return {}
+    try {
+      const summary = await summarizeCommandOutput(output, command, focus, token)
+      // History caps stored output, so the full text goes to a file the agent can read instead of rerunning
+      const outputFile = await commandHistory.saveOutputFile(historyId, output)
+      const rawNote = outputFile
+        ? `The full output is saved in ${outputFile}; read or search that file instead of rerunning the command.`
+        : "The raw output (tail-capped) is kept in the execute_command history; use get_terminal_output to read it."
+      return { summary: formatOutputSummary(summary, focus, output.length, rawNote) }
+    } catch (err) {
+      return { note: `Output was not summarized: ${err instanceof Error ? err.message : String(err)}` }
+    }
+  }
+
+  // Best effort: a failed snapshot is logged and never blocks the approved command
+  private async checkpoint(historyId: string, command: string, cwd: string): Promise<void> {
+    try {
+      const checkpoint = await createCheckpoint(cwd, `Relief Pilot checkpoint before: ${command.split("\n")[0].slice(0, 200)}`)
+      if (!checkpoint) return
+      commandHistory.update(historyId, { checkpoint })
+      await pruneCheckpoints(checkpoint.root, getCheckpointLimit())
+    } catch (err) {
+      log(`Could not create a checkpoint in ${cwd}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  private policyDeniedMessage(rule: ScopedCommandPolicyRule, segment?: string): string {
+    const matched = segment ? ` Matched segment: \`${segment}\`.` : ""
+    return `Command execution was blocked by reliefpilot.commandPolicy ${describePolicyRule(rule)}.${matched} ` +
+      `Do not retry this command; ask the user if it is really required.`
+  }
+
+  protected async ask(command: string, classifierReasons: string[] = [], cwd: string = this.cwd, environment?: string): Promise<ApprovalDecision> {
+    // Classifier warning and non-default shell/environment are shown next to the command
+    const detail = [
+      classifierReasons.length > 0 ? formatClassifierDisagreement(classifierReasons) : undefined,
+      environment,
+    ].filter((part): part is string => !!part).join(" · ") || undefined
+    // Long chains and multi-line scripts are reviewed step by step in a webview
+    const steps = splitScriptSteps(command)
+    if (shouldReviewAsScript(command, steps.length)) {
+      const review = await reviewCommandScript({
+        title: classifierReasons.length > 0 ? "Execute Script? (marked read-only by the agent)" : "Execute Script?",
+        steps,
+        cwd,
+        detail,
+      })
+      if (review.decision === "Approve") {
+        return { approved: true, updatedCommand: review.command, feedback: review.feedback }
+      }
+      return { approved: false, feedback: review.feedback }
+    }
+
     const res = await ConfirmationUI.confirmCommandWithInputBox(
-      "Execute Command?",
+      classifierReasons.length > 0 ? "Execute Command? (marked read-only by the agent)" : "Execute Command?",
       command,
       "Approve",
       "Deny",
+      detail,
     )
 
     if (res.decision === "Approve") {
-      return { approved: true, updatedCommand: res.command }
+      return { approved: true, updatedCommand: res.command, grant: res.grant }
     }
     return { approved: false, feedback: res.feedback }
   }
 }
 
-export async function executeCommandToolHandler(params: z.infer<typeof executeCommandSchema>) {
+/** Compile a waitFor pattern, reporting invalid syntax as a tool error. */
+export function compileWaitForPattern(source: string): RegExp {
+  try {
+    return new RegExp(source)
+  } catch (err) {
+    throw new Error(`Invalid waitFor pattern /${source}/: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+function formatProblemsNote(count: number): string {
+  if (count === 0) return ""
+  return `\nProblems: ${count} parsed from the output into the Problems panel (also reported by code_checker).`
+}
+
+function getHeadlessMaxOutputBytes(): number {
+  const n = vscode.workspace.getConfiguration("reliefpilot").get<number>("headlessMaxOutputBytes", 262144)
+  if (!Number.isFinite(n) || n <= 0) return 262144
+  return Math.max(1024, Math.floor(n))
+}
+
+/** Whether a command is confirmed in the script review webview instead of the single-line InputBox. */
+function shouldReviewAsScript(command: string, stepCount: number): boolean {
+  const minSteps = vscode.workspace.getConfiguration("reliefpilot").get<number>("scriptReviewMinSteps", 3)
+  if (!Number.isFinite(minSteps) || minSteps <= 0) return false
+  // Multi-line scripts are unreadable in an InputBox even with only two steps
+  return stepCount >= minSteps || (stepCount >= 2 && command.includes("\n"))
+}
+
+function isClassifierEnabled(): boolean {
+  return vscode.workspace.getConfiguration("reliefpilot").get<boolean>("classifyDestructiveCommands", true)
+}
+
+function isCheckpointEnabled(): boolean {
+  return vscode.workspace.getConfiguration("reliefpilot").get<boolean>("checkpointDestructiveCommands", false)
+}
+
+function formatClassifierDisagreement(reasons: string[]): string {
+  return `Classifier disagrees with destructiveFlag=false: ${reasons.join("; ")}`
+}
+
+export async function executeCommandToolHandler(params: z.infer<typeof executeCommandSchema>, historyId?: string, token?: CancellationToken) {
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
   if (!workspaceRoot) {
     return {
@@ -198,6 +636,19 @@ export async function executeCommandToolHandler(params: z.infer<typeof executeCo
       params.destructiveFlag,
       params.background,
       params.timeout,
+      {
+        waitFor: params.waitFor,
+        waitForTimeout: params.waitForTimeout,
+        mode: params.mode,
+        killAfter: params.killAfter,
+        terminalName: params.terminalName,
+        shell: params.shell,
+        env: params.env,
+        envPreset: params.envPreset,
+        summarizeFor: params.summarizeFor,
+        historyId,
+        token,
+      },
     )
 
     return {
@@ -216,10 +667,14 @@ export async function executeCommandToolHandler(params: z.infer<typeof executeCo
 export type ExecuteCommandInput = z.infer<typeof executeCommandSchema>
 
 export class ExecuteCommandLanguageModelTool implements LanguageModelTool<ExecuteCommandInput> {
+  // History ids handed out by prepareInvocation so its link opens the entry this invocation records
+  private _pendingUids: string[] = []
+
   async invoke(
     options: LanguageModelToolInvocationOptions<ExecuteCommandInput>,
-    _token: CancellationToken,
+    token: CancellationToken,
   ): Promise<vscode.LanguageModelToolResult> {
+    const uid = this._pendingUids.length > 0 ? this._pendingUids.shift()! : randomUUID()
     // Indicate activity in the status bar while this tool runs
     statusBarActivity.start('execute_command')
     try {
@@ -229,7 +684,7 @@ export class ExecuteCommandLanguageModelTool implements LanguageModelTool<Execut
         throw new Error(`execute_command invalid arguments: ${parseResult.error.message}`)
       }
 
-      const result = await executeCommandToolHandler(parseResult.data)
+      const result = await executeCommandToolHandler(parseResult.data, uid, token)
       const messages = (result.content ?? [])
         .map((part) => ("text" in part ? part.text : undefined))
         .filter((text): text is string => typeof text === "string" && text.length > 0)
@@ -258,6 +713,14 @@ export class ExecuteCommandLanguageModelTool implements LanguageModelTool<Execut
     const destructiveFlag = typeof input.destructiveFlag === "boolean" ? input.destructiveFlag : undefined
     const background = typeof input.background === "boolean" ? input.background : undefined
     const timeout = typeof (input as any).timeout === "number" ? (input as any).timeout : undefined
+    const waitFor = typeof input.waitFor === "string" ? input.waitFor : undefined
+    const mode = typeof input.mode === "string" ? input.mode : undefined
+    const killAfter = typeof input.killAfter === "number" ? input.killAfter : undefined
+    const terminalName = typeof input.terminalName === "string" ? input.terminalName : undefined
+    const shell = typeof input.shell === "string" ? input.shell : undefined
+    const envPreset = typeof input.envPreset === "string" ? input.envPreset : undefined
+    const summarizeFor = typeof input.summarizeFor === "string" ? input.summarizeFor : undefined
+    const envVars = input.env && typeof input.env === "object" ? Object.entries(input.env).map(([k, v]) => `${k}=${v}`) : []
 
     const md = new vscode.MarkdownString(undefined, true)
     md.supportHtml = true
@@ -269,8 +732,23 @@ export class ExecuteCommandLanguageModelTool implements LanguageModelTool<Execut
     if (command) md.appendMarkdown(`- Command: \`${command}\`  \n`)
     if (customCwd) md.appendMarkdown(`- CWD: \`${customCwd}\`  \n`)
     if (typeof destructiveFlag === "boolean") md.appendMarkdown(`- Destructive: \`${destructiveFlag}\`  \n`)
+    if (command && destructiveFlag === false && isClassifierEnabled()) {
+      const analysis = analyzeShellCommand(command)
+      if (analysis.destructive) md.appendMarkdown(`- Classifier: \`destructive\` (${analysis.reasons.join("; ")})  \n`)
+    }
     if (typeof background === "boolean") md.appendMarkdown(`- Background: \`${background}\`  \n`)
     if (typeof timeout === "number") md.appendMarkdown(`- Timeout: \`${timeout}ms\`  \n`)
+    if (waitFor) md.appendMarkdown(`- Wait for: \`${waitFor}\`  \n`)
+    if (mode) md.appendMarkdown(`- Mode: \`${mode}\`  \n`)
+    if (typeof killAfter === "number") md.appendMarkdown(`- Kill after: \`${killAfter}ms\`  \n`)
+    if (terminalName) md.appendMarkdown(`- Terminal: \`${terminalName}\`  \n`)
+    if (shell) md.appendMarkdown(`- Shell: \`${shell}\`  \n`)
+    if (envPreset) md.appendMarkdown(`- Env preset: \`${envPreset}\`  \n`)
+    if (envVars.length > 0) md.appendMarkdown(`- Env: \`${envVars.join(" ")}\`  \n`)
+    if (summarizeFor) md.appendMarkdown(`- Summarize for: \`${summarizeFor}\`  \n`)
+    const uid = randomUUID(); this._pendingUids.push(uid)
+    const cmdArgs = encodeURIComponent(JSON.stringify({ uid }))
+    md.appendMarkdown(`\n[Show in command history](command:reliefpilot.commandHistory.show?${cmdArgs})`)
 
     return { invocationMessage: md }
   }
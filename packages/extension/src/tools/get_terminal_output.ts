@@ -8,10 +8,15 @@ import type {
 import * as vscode from "vscode"
 import { z } from "zod"
 import { stripAnsi } from "../integrations/terminal/ansiUtils.js"
+import type { CommandExecution } from "../integrations/terminal/TerminalProcess"
+import { formatExecutionHeader } from "../integrations/terminal/executionStatus"
+import { TerminalManager } from "../integrations/terminal/TerminalManager"
 import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
 import { env } from "../utils/env"
+import { formatOutputSummary, getOutputSummaryMinChars, summarizeCommandOutput } from "../utils/output_summary"
 import { formatResponse, ToolResponse } from "../utils/response"
 import { statusBarActivity } from "../utils/statusBar"
+import { OutputView, selectOutputLines } from "../utils/terminal_output_filter"
 
 // Schema kept string-only for model/tool compatibility. We validate numeric content via regex.
 export const getTerminalOutputSchema = z.object({
@@ -26,13 +31,64 @@ export const getTerminalOutputSchema = z.object({
     .optional()
     .default(1000)
     .describe("Maximum number of lines to retrieve (default: 1000)"),
+  sinceCursor: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      "Return only output captured after this cursor (the 'Next cursor' value of a previous result). Reads the captured command output instead of the terminal buffer."
+    ),
+  view: z
+    .enum(["tail", "head", "range"])
+    .optional()
+    .default("tail")
+    .describe("Which lines to return: tail (last maxLines, default), head (first maxLines) or range (startLine..endLine)."),
+  startLine: z.number().int().positive().optional().describe("First line (1-based) for view=range."),
+  endLine: z.number().int().positive().optional().describe("Last line (1-based, inclusive) for view=range."),
+  grep: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Regular expression (JavaScript syntax); only matching lines are returned, prefixed with their line number (N:), context lines with N-."),
+  context: z
+    .number()
+    .int()
+    .min(0)
+    .max(50)
+    .optional()
+    .default(0)
+    .describe("Lines of context around each grep match (default: 0)."),
+  collapseProgress: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Collapse consecutive progress-bar lines that differ only in numbers into the last one (default: true)."),
+  summarizeFor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional focus for summarizing long output (e.g. \"failing tests\"). When the selected output is long, the configured language model returns only the failures, stack traces and final summary relevant to this focus."
+    ),
 })
 
+// Pagination and filtering options added after the positional parameters of GetTerminalOutputTool.execute
+export interface GetTerminalOutputOptions {
+  sinceCursor?: number
+  view?: OutputView
+  startLine?: number
+  endLine?: number
+  grep?: string
+  context?: number
+  collapseProgress?: boolean
+}
+
 /**
  * Normalize and validate numeric terminal id.
  * Accepts string or number, returns a finite positive integer or undefined if invalid.
  */
-function coerceTerminalId(input: string | number): number | undefined {
+export function coerceTerminalId(input: string | number): number | undefined {
   if (typeof input === "number") {
     return Number.isInteger(input) && input >= 0 ? input : undefined
   }
@@ -50,36 +106,39 @@ function normalizeMaxLines(value: unknown, fallback = 1000): number {
   return i
 }
 
-/** Keep only the last N lines from the content. */
-function limitLines(content: string, maxLines: number): string {
-  const lines = content.split("\n")
-  if (lines.length <= maxLines) return content
-  return lines.slice(-maxLines).join("\n")
-}
-
 /**
  * Build a user-friendly summary message for the tool result.
  */
 function buildTerminalOutputMessage(
   terminalId: number,
-  terminalInfo: { busy?: boolean; lastCommand?: string | undefined },
+  terminalInfo: { busy?: boolean; lastCommand?: string | undefined; lastExecution?: CommandExecution },
   terminalContents: string,
+  details: string[] = [],
 ): string {
   const state = terminalInfo.busy ? "busy" : "idle"
   const last = terminalInfo.lastCommand ? `, last command: "${terminalInfo.lastCommand}"` : ""
-  return `Terminal ${terminalId} output (${state})${last}:\n\n${terminalContents}`
+  // Status of the last command started by execute_command (exit code, timestamps, duration)
+  const header = terminalInfo.lastExecution ? `\n${formatExecutionHeader(terminalInfo.lastExecution)}` : ""
+  const meta = details.length > 0 ? `\n${details.join("; ")}` : ""
+  return `Terminal ${terminalId} output (${state})${last}:${header}${meta}\n\n${terminalContents}`
 }
 
+// Result of get_terminal_output; nextCursor is kept apart so it survives summarization
+export type TerminalOutputResponse = ToolResponse & { nextCursor?: number }
+
 export class GetTerminalOutputTool {
   /**
    * Capture output from a VS Code terminal registered in TerminalRegistry.
    * Note: terminalId can be a numeric string (preferred) or number.
+   * Without sinceCursor the terminal buffer is read through the clipboard; with it, the output
+   * captured by TerminalManager is read from that cursor on.
    */
   async execute(
     terminalId: string | number,
     maxLines: number = 1000,
     token?: CancellationToken,
-  ): Promise<ToolResponse> {
+    options: GetTerminalOutputOptions = {},
+  ): Promise<TerminalOutputResponse> {
     const id = coerceTerminalId(terminalId)
     if (id === undefined) {
       return formatResponse.toolResult(
@@ -89,6 +148,17 @@ export class GetTerminalOutputTool {
 
     const limit = normalizeMaxLines(maxLines)
 
+    let grep: RegExp | undefined
+    if (options.grep) {
+      try {
+        grep = new RegExp(options.grep)
+      } catch (err) {
+        return formatResponse.toolResult(
+          `Invalid grep pattern /${options.grep}/: ${err instanceof Error ? err.message : String(err)}`,
+        )
+      }
+    }
+
     // Get terminal from registry
     const terminalInfo = TerminalRegistry.getTerminal(id)
     if (!terminalInfo) {
@@ -99,6 +169,43 @@ export class GetTerminalOutputTool {
       return formatResponse.toolResult("Operation cancelled.")
     }
 
+    const manager = TerminalManager.getInstance()
+    const render = (lines: string[], cursor: number | undefined, skipped = 0): TerminalOutputResponse => {
+      const selected = selectOutputLines(lines, {
+        view: options.view ?? "tail",
+        maxLines: limit,
+        startLine: options.startLine,
+        endLine: options.endLine,
+        grep,
+        context: options.context,
+        collapseProgress: options.collapseProgress,
+      })
+      const details: string[] = []
+      if (skipped > 0) details.push(`${skipped} lines after the cursor were dropped from the capture buffer`)
+      if (selected.collapsedLines > 0) details.push(`${selected.collapsedLines} progress lines collapsed`)
+      if (grep) details.push(`${selected.matches ?? 0} lines match /${grep.source}/`)
+      if (selected.lines.length < selected.totalLines) {
+        const lastLine = selected.firstLine + selected.lines.length - 1
+        details.push(`showing lines ${selected.firstLine}-${lastLine} of ${selected.totalLines} (view: ${options.view ?? "tail"})`)
+      }
+      if (cursor !== undefined) details.push(`Next cursor: ${cursor}`)
+      const contents = selected.lines.join("\n")
+      return {
+        ...formatResponse.toolResult(buildTerminalOutputMessage(id, terminalInfo, contents || "(no matching output)", details)),
+        nextCursor: cursor,
+      }
+    }
+
+    if (options.sinceCursor !== undefined) {
+      const captured = manager.readOutput(id, options.sinceCursor)
+      if (!captured) {
+        return formatResponse.toolResult(
+          `No captured output for terminal ${id} (shell integration may be unavailable). Omit sinceCursor to read the terminal buffer.`,
+        )
+      }
+      return render(captured.lines, captured.cursor, captured.skipped)
+    }
+
     try {
       // Focus the terminal to ensure selectAll targets the right instance
       terminalInfo.terminal.show()
@@ -117,19 +224,18 @@ export class GetTerminalOutputTool {
         await vscode.commands.executeCommand("workbench.action.terminal.clearSelection")
 
         // Read terminal contents from clipboard
-        let terminalContents = (await vscode.env.clipboard.readText()).trim()
+        const terminalContents = (await vscode.env.clipboard.readText()).trim()
 
         // If clipboard hasn't changed, likely no content selected
         if (terminalContents === originalClipboard.trim()) {
           return formatResponse.toolResult(`No content found in terminal ${id}.`)
         }
 
-        // Remove ANSI escape sequences and limit the output
-        terminalContents = limitLines(stripAnsi(terminalContents), limit)
+        // Reading the buffer also counts as retrieving the captured output; report the cursor for follow-up reads
+        const cursor = manager.readOutput(id)?.cursor
 
-        return formatResponse.toolResult(
-          buildTerminalOutputMessage(id, terminalInfo, terminalContents),
-        )
+        // Remove ANSI escape sequences, then filter and limit the output
+        return render(stripAnsi(terminalContents).split("\n"), cursor)
       } finally {
         // Restore original clipboard content regardless of outcome
         await vscode.env.clipboard.writeText(originalClipboard)
@@ -148,11 +254,31 @@ export async function getTerminalOutputToolHandler(
   token?: CancellationToken,
 ) {
   const tool = new GetTerminalOutputTool()
-  const response = await tool.execute(params.terminalId, params.maxLines, token)
+  const response = await tool.execute(params.terminalId, params.maxLines, token, {
+    sinceCursor: params.sinceCursor,
+    view: params.view,
+    startLine: params.startLine,
+    endLine: params.endLine,
+    grep: params.grep,
+    context: params.context,
+    collapseProgress: params.collapseProgress,
+  })
+
+  let text = response.text
+  if (params.summarizeFor && text.length >= getOutputSummaryMinChars()) {
+    const command = TerminalRegistry.getTerminal(Number(params.terminalId))?.lastCommand ?? `terminal ${params.terminalId}`
+    try {
+      const summary = await summarizeCommandOutput(text, command, params.summarizeFor, token)
+      text = formatOutputSummary(summary, params.summarizeFor, text.length, "Call get_terminal_output without summarizeFor to read the raw output.")
+      if (response.nextCursor !== undefined) text += `\n\nNext cursor: ${response.nextCursor}`
+    } catch (err) {
+      text += `\n\nOutput was not summarized: ${err instanceof Error ? err.message : String(err)}`
+    }
+  }
 
   return {
     isError: false,
-    content: [{ text: response.text }],
+    content: [{ text }],
   }
 }
 
@@ -192,6 +318,10 @@ export class GetTerminalOutputLanguageModelTool implements LanguageModelTool<Get
     const input = options.input ?? {}
     const terminalId = typeof input.terminalId === "string" ? input.terminalId : undefined
     const maxLines = typeof input.maxLines === "number" ? input.maxLines : undefined
+    const sinceCursor = typeof input.sinceCursor === "number" ? input.sinceCursor : undefined
+    const view = typeof input.view === "string" ? input.view : undefined
+    const grep = typeof input.grep === "string" ? input.grep : undefined
+    const summarizeFor = typeof input.summarizeFor === "string" ? input.summarizeFor : undefined
 
     const md = new vscode.MarkdownString(undefined, true)
     md.supportHtml = true
@@ -202,6 +332,10 @@ export class GetTerminalOutputLanguageModelTool implements LanguageModelTool<Get
     md.appendMarkdown(`Relief Pilot · **get_terminal_output**\n`)
     if (terminalId) md.appendMarkdown(`- Terminal: \`${terminalId}\`  \n`)
     if (typeof maxLines === "number") md.appendMarkdown(`- Max lines: \`${maxLines}\`  \n`)
+    if (typeof sinceCursor === "number") md.appendMarkdown(`- Since cursor: \`${sinceCursor}\`  \n`)
+    if (view) md.appendMarkdown(`- View: \`${view}\`  \n`)
+    if (grep) md.appendMarkdown(`- Grep: \`${grep}\`  \n`)
+    if (summarizeFor) md.appendMarkdown(`- Summarize for: \`${summarizeFor}\`  \n`)
 
     return { invocationMessage: md }
   }
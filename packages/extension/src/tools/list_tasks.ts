@@ -0,0 +1,151 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import { env } from "../utils/env"
+import { statusBarActivity } from "../utils/statusBar"
+
+export type ListTasksInput = {
+  // Only tasks of this source (e.g. "Workspace" for tasks.json, "npm", "make")
+  source?: string
+}
+
+/**
+ * JSON-safe description of a VS Code task.
+ * name + source identify the task for run_task.
+ */
+export type TaskSnapshot = {
+  name: string
+  source: string
+  // Task definition type (e.g. "shell", "process", "npm")
+  type: string
+  group: string | null
+  // Command line for shell/process executions; null for custom executions
+  command: string | null
+  isBackground: boolean
+  problemMatchers: string[]
+  detail: string | null
+}
+
+/**
+ * Command line a task runs, used for display, command policy and grants.
+ * Undefined for custom (extension-implemented) executions.
+ */
+export function describeTaskCommand(task: vscode.Task): string | undefined {
+  const execution = task.execution
+  const quote = (arg: string | vscode.ShellQuotedString) => {
+    const value = typeof arg === "string" ? arg : arg.value
+    return /[\s"']/.test(value) ? JSON.stringify(value) : value
+  }
+  if (execution instanceof vscode.ShellExecution) {
+    if (execution.commandLine) return execution.commandLine
+    if (execution.command === undefined) return undefined
+    return [execution.command, ...(execution.args ?? [])].map(quote).join(" ")
+  }
+  if (execution instanceof vscode.ProcessExecution) {
+    return [execution.process, ...execution.args].map(quote).join(" ")
+  }
+  return undefined
+}
+
+/**
+ * Labels of the tasks a tasks.json entry named `name` depends on (`dependsOn`), in order.
+ * Entries come from the `tasks` setting; object references name their task or npm script.
+ */
+export function findTaskDependencies(entries: unknown, name: string): string[] {
+  if (!Array.isArray(entries)) return []
+  const entry = entries.find((e) => e && typeof e === "object" && (e.label ?? e.taskName ?? e.command) === name)
+  const dependsOn = entry?.dependsOn
+  if (dependsOn === undefined || dependsOn === null) return []
+  return (Array.isArray(dependsOn) ? dependsOn : [dependsOn])
+    .map((dep) => typeof dep === "string" ? dep : dep && typeof dep === "object" ? String(dep.task ?? dep.script ?? dep.label ?? JSON.stringify(dep)) : "")
+    .filter((dep) => dep.length > 0)
+}
+
+/** Tasks a tasks.json task runs before its own command; empty for tasks from providers. */
+export function getTaskDependencies(task: vscode.Task): string[] {
+  if (task.source !== "Workspace") return []
+  const resource = typeof task.scope === "object" ? task.scope.uri : undefined
+  return findTaskDependencies(vscode.workspace.getConfiguration("tasks", resource).get<unknown[]>("tasks"), task.name)
+}
+
+/** Working directory of a task: its execution cwd, else its workspace folder. */
+export function resolveTaskCwd(task: vscode.Task, fallback: string): string {
+  const execution = task.execution
+  const cwd = execution instanceof vscode.ShellExecution || execution instanceof vscode.ProcessExecution
+    ? execution.options?.cwd
+    : undefined
+  const folder = typeof task.scope === "object" ? task.scope.uri.fsPath : fallback
+  if (!cwd) return folder
+  // Variables are resolved by VS Code when the task runs; only the common one matters for display and policy
+  return cwd.replace(/\$\{workspaceFolder\}/g, folder)
+}
+
+export function toTaskSnapshot(task: vscode.Task): TaskSnapshot {
+  return {
+    name: task.name,
+    source: task.source,
+    type: task.definition.type,
+    group: task.group?.id ?? null,
+    command: describeTaskCommand(task) ?? null,
+    isBackground: task.isBackground,
+    problemMatchers: task.problemMatchers,
+    detail: task.detail ?? null,
+  }
+}
+
+/** Fetch tasks from tasks.json and all task providers, ordered by source then name. */
+export async function collectTasks(source?: string): Promise<vscode.Task[]> {
+  const tasks = await vscode.tasks.fetchTasks()
+  return tasks
+    .filter((t) => !source || t.source.toLowerCase() === source.toLowerCase())
+    .sort((a, b) => a.source.localeCompare(b.source) || a.name.localeCompare(b.name))
+}
+
+/**
+ * VS Code Language Model tool that lists runnable tasks (tasks.json and task providers) as JSON.
+ */
+export class ListTasksLanguageModelTool implements LanguageModelTool<ListTasksInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<ListTasksInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('list_tasks')
+    try {
+      const source = typeof options.input?.source === "string" && options.input.source ? options.input.source : undefined
+      const tasks = (await collectTasks(source)).map(toTaskSnapshot)
+      if (tasks.length === 0) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            source ? `No tasks found for source "${source}".` : "No tasks found in tasks.json or from task providers.",
+          ),
+        ])
+      }
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(tasks, null, 2)),
+      ])
+    } finally {
+      statusBarActivity.end('list_tasks')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<ListTasksInput>,
+  ): PreparedToolInvocation {
+    const source = typeof options.input?.source === "string" ? options.input.source : undefined
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **list_tasks**\n`)
+    if (source) md.appendMarkdown(`- Source: \`${source}\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
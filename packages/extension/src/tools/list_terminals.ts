@@ -0,0 +1,100 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import { getExecutionState } from "../integrations/terminal/executionStatus"
+import { TerminalManager } from "../integrations/terminal/TerminalManager"
+import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { env } from "../utils/env"
+import { statusBarActivity } from "../utils/statusBar"
+
+export type ListTerminalsInput = Record<string, never>
+
+/**
+ * JSON-safe snapshot of a tracked terminal.
+ * Ids are strings to match the terminalId parameter of get_terminal_output and terminate_command.
+ */
+export type TerminalSnapshot = {
+  terminalId: string
+  name: string
+  // Logical name passed as execute_command terminalName, if any
+  terminalName: string | null
+  cwd: string | null
+  busy: boolean
+  shellIntegration: boolean
+  createdAt: string
+  lastCommand: string | null
+  lastCommandStatus: string | null
+  lastCommandExitCode: number | null
+  lastCommandStartedAt: string | null
+  unretrievedOutputLines: number
+}
+
+/** Collect every open terminal tracked by TerminalRegistry, ordered by id. */
+export function collectTerminals(): TerminalSnapshot[] {
+  const manager = TerminalManager.getInstance()
+  return TerminalRegistry.getAllTerminals()
+    .slice()
+    .sort((a, b) => a.id - b.id)
+    .map((t) => {
+      const execution = t.lastExecution
+      return {
+        terminalId: String(t.id),
+        name: t.terminal.name,
+        terminalName: t.terminalName ?? null,
+        // Prefer the live cwd reported by shell integration; fall back to the creation cwd
+        cwd: t.terminal.shellIntegration?.cwd?.fsPath ?? t.initialCwd ?? null,
+        busy: t.busy,
+        shellIntegration: !!t.terminal.shellIntegration,
+        createdAt: new Date(t.createdAt).toISOString(),
+        lastCommand: t.lastCommand || null,
+        lastCommandStatus: execution ? getExecutionState(execution) : null,
+        lastCommandExitCode: execution?.exitCode ?? null,
+        lastCommandStartedAt: execution ? new Date(execution.startedAt).toISOString() : null,
+        unretrievedOutputLines: manager.getUnretrievedLineCount(t.id),
+      }
+    })
+}
+
+/**
+ * VS Code Language Model tool that lists terminals started by Relief Pilot as JSON.
+ */
+export class ListTerminalsLanguageModelTool implements LanguageModelTool<ListTerminalsInput> {
+  async invoke(
+    _options: LanguageModelToolInvocationOptions<ListTerminalsInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('list_terminals')
+    try {
+      const terminals = collectTerminals()
+      if (terminals.length === 0) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart("No terminals are currently tracked. Use execute_command to start one."),
+        ])
+      }
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(terminals, null, 2)),
+      ])
+    } finally {
+      statusBarActivity.end('list_terminals')
+    }
+  }
+
+  prepareInvocation(
+    _options: LanguageModelToolInvocationPrepareOptions<ListTerminalsInput>,
+  ): PreparedToolInvocation {
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **list_terminals**\n`)
+
+    return { invocationMessage: md }
+  }
+}
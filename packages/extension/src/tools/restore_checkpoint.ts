@@ -0,0 +1,194 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import { z } from "zod"
+import { commandHistory, CommandHistoryEntry } from "../utils/command_history"
+import { ConfirmationUI } from "../utils/confirmation_ui"
+import { env } from "../utils/env"
+import { CheckpointRestoreResult, GitCheckpoint, pruneCheckpoints, restoreCheckpoint } from "../utils/git_checkpoint"
+import { formatResponse, ToolResponse } from "../utils/response"
+import { statusBarActivity } from "../utils/statusBar"
+
+interface ApprovalDecision {
+  approved: boolean
+  feedback?: string
+}
+
+type CheckpointEntry = CommandHistoryEntry & { checkpoint: GitCheckpoint }
+
+// How many changed files are listed in results before summarizing
+const MAX_LISTED_FILES = 30
+
+export const restoreCheckpointSchema = z.object({
+  checkpointId: z
+    .string()
+    .optional()
+    .describe("ID of the checkpoint to restore (as reported by execute_command). Defaults to the most recent checkpoint."),
+})
+
+/** execute_command history entries that carry a checkpoint, newest first. */
+export function listCheckpointEntries(): CheckpointEntry[] {
+  return commandHistory.list().filter((e): e is CheckpointEntry => e.checkpoint !== undefined)
+}
+
+/** Checkpoint refs kept per repository: about as many as history entries that can reference them. */
+export function getCheckpointLimit(): number {
+  const keep = vscode.workspace.getConfiguration("reliefpilot").get<number>("commandHistoryMaxEntries", 50)
+  return Number.isFinite(keep) ? Math.max(1, Math.floor(keep)) : 50
+}
+
+/**
+ * Record the backup taken by a restore as its own history entry, so the restore can be undone
+ * from restore_checkpoint or the Restore Checkpoint command, then apply the checkpoint limit.
+ */
+export async function recordRestoreBackup(checkpoint: GitCheckpoint, result: CheckpointRestoreResult): Promise<void> {
+  commandHistory.add({
+    proposedCommand: `restore_checkpoint ${checkpoint.id}`,
+    cwd: checkpoint.root,
+    mode: "headless",
+    background: false,
+    decision: "approved",
+    checkpoint: result.backup,
+  })
+  await pruneCheckpoints(result.backup.root, getCheckpointLimit())
+}
+
+/** Tool result / notification text for a finished restore. */
+export function formatRestoreResult(checkpoint: GitCheckpoint, result: CheckpointRestoreResult): string {
+  const lines = [`Restored checkpoint ${checkpoint.id} in ${checkpoint.root}.`]
+  const list = (title: string, files: string[]) => {
+    if (files.length === 0) return
+    lines.push(`${title} (${files.length}):`)
+    lines.push(...files.slice(0, MAX_LISTED_FILES).map((f) => `- ${f}`))
+    if (files.length > MAX_LISTED_FILES) lines.push(`- … ${files.length - MAX_LISTED_FILES} more`)
+  }
+  if (result.restored.length === 0 && result.removed.length === 0) {
+    lines.push("The working tree already matched the checkpoint; nothing was changed.")
+  }
+  list("Restored files", result.restored)
+  list("Removed files created after the checkpoint", result.removed)
+  lines.push(
+    `The previous state was saved as checkpoint ${result.backup.id} (${result.backup.ref}, commit ${result.backup.commit.slice(0, 12)}); ` +
+    `restore it to undo this restore.`,
+  )
+  return lines.join("\n")
+}
+
+export class RestoreCheckpointTool {
+  async execute(checkpointId?: string): Promise<[userRejected: boolean, ToolResponse]> {
+    const entries = listCheckpointEntries()
+    if (entries.length === 0) {
+      return [false, formatResponse.toolResult(
+        "No checkpoints recorded. Checkpoints are taken before destructive execute_command runs when reliefpilot.checkpointDestructiveCommands is enabled.",
+      )]
+    }
+    const entry = checkpointId ? entries.find((e) => e.checkpoint.id === checkpointId) : entries[0]
+    if (!entry) {
+      const known = entries.slice(0, 10).map((e) => e.checkpoint.id).join(", ")
+      return [false, formatResponse.toolResult(`Checkpoint ${checkpointId} not found. Recent checkpoints: ${known}.`)]
+    }
+
+    const decision = await this.ask(entry)
+    if (!decision.approved) {
+      const note = decision.feedback ? ` Feedback: ${decision.feedback}` : ""
+      return [true, formatResponse.toolResult(`Restoring the checkpoint was declined by the user.${note}`)]
+    }
+
+    const result = await restoreCheckpoint(entry.checkpoint)
+    await recordRestoreBackup(entry.checkpoint, result)
+    return [false, formatResponse.toolResult(formatRestoreResult(entry.checkpoint, result))]
+  }
+
+  // Always confirmed: a restore overwrites and deletes files in the working tree
+  protected async ask(entry: CheckpointEntry): Promise<ApprovalDecision> {
+    const res = await ConfirmationUI.confirm(
+      `Restore checkpoint ${entry.checkpoint.id}? Files in ${entry.checkpoint.root} will be overwritten and files created since will be deleted.`,
+      entry.command ?? entry.proposedCommand,
+      "Approve",
+      "Deny",
+    )
+    if (res === "Approve") {
+      return { approved: true }
+    }
+    return { approved: false, feedback: res !== "Deny" ? res : undefined }
+  }
+}
+
+export async function restoreCheckpointToolHandler(params: z.infer<typeof restoreCheckpointSchema>) {
+  const tool = new RestoreCheckpointTool()
+  try {
+    const [userRejected, response] = await tool.execute(params.checkpointId)
+    return {
+      isError: userRejected,
+      content: [{ text: response.text }],
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      isError: true,
+      content: [{ text: `restore_checkpoint failed: ${message}` }],
+    }
+  }
+}
+
+export type RestoreCheckpointInput = z.infer<typeof restoreCheckpointSchema>
+
+export class RestoreCheckpointLanguageModelTool implements LanguageModelTool<RestoreCheckpointInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<RestoreCheckpointInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('restore_checkpoint')
+    try {
+      const parseResult = await restoreCheckpointSchema.safeParseAsync(options.input ?? {})
+
+      if (!parseResult.success) {
+        throw new Error(`restore_checkpoint invalid arguments: ${parseResult.error.message}`)
+      }
+
+      const result = await restoreCheckpointToolHandler(parseResult.data)
+      const messages = (result.content ?? [])
+        .map((part) => ("text" in part ? part.text : undefined))
+        .filter((text): text is string => typeof text === "string" && text.length > 0)
+
+      if (result.isError) {
+        const message = messages[0] ?? "restore_checkpoint failed."
+        throw new Error(message)
+      }
+
+      const parts = (messages.length > 0 ? messages : ["Checkpoint restored."]).map(
+        (text) => new vscode.LanguageModelTextPart(text),
+      )
+
+      return new vscode.LanguageModelToolResult(parts)
+    } finally {
+      statusBarActivity.end('restore_checkpoint')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<RestoreCheckpointInput>,
+  ): PreparedToolInvocation {
+    const checkpointId = typeof options.input?.checkpointId === "string" ? options.input.checkpointId : undefined
+    const entry = checkpointId
+      ? listCheckpointEntries().find((e) => e.checkpoint.id === checkpointId)
+      : listCheckpointEntries()[0]
+
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **restore_checkpoint**\n`)
+    md.appendMarkdown(`- Checkpoint: \`${checkpointId ?? entry?.checkpoint.id ?? "latest"}\`  \n`)
+    if (entry) md.appendMarkdown(`- Taken before: \`${entry.command ?? entry.proposedCommand}\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
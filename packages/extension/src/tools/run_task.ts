@@ -0,0 +1,335 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as path from "path"
+import * as vscode from "vscode"
+import { z } from "zod"
+import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { publishCommandProblems } from "../utils/command_diagnostics"
+import { commandGrants, describeCommandGrant } from "../utils/command_grants"
+import { describePolicyRule, evaluateCommandPolicy, getCommandPolicyRules } from "../utils/command_policy"
+import { ConfirmationUI } from "../utils/confirmation_ui"
+import { getNewDiagnostics } from "../utils/diagnostics"
+import { env } from "../utils/env"
+import { log } from "../utils/log"
+import { toPosixPath } from "../utils/path"
+import { formatResponse, ToolResponse } from "../utils/response"
+import { analyzeShellCommand } from "../utils/shell_command_analyzer"
+import { statusBarActivity } from "../utils/statusBar"
+import { delay } from "../utils/time.js"
+import { collectTasks, describeTaskCommand, getTaskDependencies, resolveTaskCwd } from "./list_tasks"
+
+// Background tasks (watchers, dev servers) never end on their own; report their state after this wait
+const BACKGROUND_TASK_WAIT_MS = 10000
+// Tail of the task output returned to the agent
+const MAX_OUTPUT_CHARS = 20000
+const MAX_REPORTED_PROBLEMS = 50
+
+export const runTaskSchema = z.object({
+  name: z.string().min(1).describe("Task name as returned by list_tasks."),
+  source: z
+    .string()
+    .optional()
+    .describe("Task source as returned by list_tasks (e.g. \"Workspace\", \"npm\"); required when several sources define the same name."),
+  destructiveFlag: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Flag indicating if the task is potentially destructive or modifying. Default is true."),
+  timeout: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Milliseconds to wait for the task to finish (default: 300000, or 10000 for background tasks). The task keeps running when the wait ends."
+    ),
+})
+
+type TaskApproval = { approved: boolean; feedback?: string }
+
+export class RunTaskTool {
+  constructor(private readonly cwd: string) { }
+
+  /**
+   * Run a task from tasks.json or a task provider after the execute_command approval flow
+   * (command policy, destructive classifier, grants, confirmation) and report exit code, output and new problems.
+   */
+  async execute(
+    name: string,
+    source?: string,
+    destructiveFlag: boolean = true,
+    timeout?: number,
+  ): Promise<[userRejected: boolean, ToolResponse]> {
+    const candidates = (await collectTasks(source)).filter((t) => t.name === name)
+    if (candidates.length === 0) {
+      return [true, formatResponse.toolResult(`Task "${name}"${source ? ` (source: ${source})` : ""} not found. Use list_tasks to see available tasks.`)]
+    }
+    if (candidates.length > 1) {
+      const sources = candidates.map((t) => t.source).join(", ")
+      return [true, formatResponse.toolResult(`Several tasks are named "${name}" (sources: ${sources}). Repeat the call with source set.`)]
+    }
+    const task = candidates[0]
+    const label = `${task.name} (${task.source})`
+    const command = describeTaskCommand(task)
+    const cwd = resolveTaskCwd(task, this.cwd)
+    // dependsOn tasks run first and are not covered by the checks below, so such tasks always ask
+    const dependencies = getTaskDependencies(task)
+
+    const confirmNonDestructiveCommands = vscode.workspace
+      .getConfiguration("reliefpilot")
+      .get<boolean>("confirmNonDestructiveCommands", false)
+    const policy = command ? evaluateCommandPolicy(getCommandPolicyRules(), { command, cwd }) : {}
+    if (policy.action === "deny" && policy.rule) {
+      const matched = policy.segment ? ` Matched segment: \`${policy.segment}\`.` : ""
+      return [
+        true,
+        formatResponse.toolResult(
+          `Task "${label}" was blocked by reliefpilot.commandPolicy ${describePolicyRule(policy.rule)}.${matched} ` +
+          `Do not retry this task; ask the user if it is really required.`
+        ),
+      ]
+    }
+
+    // Custom executions cannot be classified, so they are treated as destructive
+    const classifierReasons = !destructiveFlag && command && isClassifierEnabled() ? analyzeShellCommand(command).reasons : []
+    let shouldConfirm = destructiveFlag || !command || confirmNonDestructiveCommands || classifierReasons.length > 0
+    if (policy.action === "allow") shouldConfirm = classifierReasons.length > 0
+    else if (policy.action === "confirm") shouldConfirm = true
+    if (dependencies.length > 0) shouldConfirm = true
+    const grant = shouldConfirm && command && policy.action !== "confirm" && dependencies.length === 0
+      ? commandGrants.find(command)
+      : undefined
+    if (grant) shouldConfirm = false
+
+    if (shouldConfirm) {
+      const decision = await this.ask(label, command, classifierReasons, dependencies)
+      if (!decision.approved) {
+        const note = decision.feedback ? ` Feedback: ${decision.feedback}` : ""
+        return [true, formatResponse.toolResult(`Task execution was declined by the user.${note}`)]
+      }
+    } else if (grant) {
+      log(`Running task allowed by ${describeCommandGrant(grant)}: ${label}`)
+    } else if (policy.action === "allow" && policy.rule) {
+      log(`Running task allowed by ${describePolicyRule(policy.rule)}: ${label}`)
+    }
+
+    return [false, await this.run(task, label, command, cwd, timeout ?? (task.isBackground ? BACKGROUND_TASK_WAIT_MS : 300000))]
+  }
+
+  protected async ask(
+    label: string,
+    command: string | undefined,
+    classifierReasons: string[] = [],
+    dependencies: string[] = [],
+  ): Promise<TaskApproval> {
+    const detail = command ?? "(custom task execution provided by an extension)"
+    const notes = [
+      ...(classifierReasons.length > 0 ? [`marked read-only by the agent; ${classifierReasons.join("; ")}`] : []),
+      ...(dependencies.length > 0 ? [`first runs the tasks it depends on, which are not shown here: ${dependencies.join(", ")}`] : []),
+    ]
+    const title = notes.length > 0 ? `Run task "${label}"? (${notes.join("; ")})` : `Run task "${label}"?`
+    const result = await ConfirmationUI.confirm(title, detail, "Approve", "Deny")
+    if (result === "Approve") return { approved: true }
+    return { approved: false, feedback: result !== "Deny" ? result : undefined }
+  }
+
+  private async run(task: vscode.Task, label: string, command: string | undefined, cwd: string, timeout: number): Promise<ToolResponse> {
+    const diagnosticsBefore = vscode.languages.getDiagnostics()
+    const ownTerminals = new Set(TerminalRegistry.getAllTerminals().map((t) => t.terminal))
+    const disposables: vscode.Disposable[] = []
+    let output = ""
+    let outputCaptured = false
+    let exitCode: number | undefined
+
+    // Only the terminal this run opens (or a reused one carrying the task's name) belongs to the task;
+    // other terminals whose name merely contains it are the user's
+    const taskTerminals = new Set<vscode.Terminal>()
+    const terminalNames = new Set([task.name, `${task.source}: ${task.name}`, `Task - ${task.name}`])
+    disposables.push(
+      vscode.window.onDidOpenTerminal((terminal) => {
+        if (!ownTerminals.has(terminal)) taskTerminals.add(terminal)
+      }),
+    )
+    const isTaskTerminal = (terminal: vscode.Terminal) =>
+      !ownTerminals.has(terminal) && (taskTerminals.has(terminal) || terminalNames.has(terminal.name))
+
+    // Task output is only readable through shell integration of the task terminal
+    disposables.push(
+      vscode.window.onDidStartTerminalShellExecution(async (event) => {
+        if (!isTaskTerminal(event.terminal)) return
+        outputCaptured = true
+        try {
+          for await (const chunk of event.execution.read()) output += chunk
+        } catch {
+          // stream closed with the terminal
+        }
+      }),
+    )
+
+    // Listen before starting so a task that ends immediately is not missed
+    const isThisTask = (e: { execution: vscode.TaskExecution }) =>
+      e.execution.task.name === task.name && e.execution.task.source === task.source
+    const ended = new Promise<void>((resolve) => {
+      disposables.push(
+        vscode.tasks.onDidEndTaskProcess((e) => {
+          if (isThisTask(e)) exitCode = e.exitCode
+        }),
+        vscode.tasks.onDidEndTask((e) => {
+          if (isThisTask(e)) resolve()
+        }),
+      )
+    })
+    const startedAt = Date.now()
+    await vscode.tasks.executeTask(task)
+    const finished = await Promise.race([ended.then(() => true), delay(timeout).then(() => false)])
+    // Let problem matchers and the output stream flush
+    await delay(500)
+    disposables.forEach((d) => d.dispose())
+
+    const lines: string[] = []
+    if (finished) {
+      lines.push(`Task "${label}" finished.`)
+      lines.push(`Exit code: ${exitCode ?? "unknown"}`)
+    } else {
+      lines.push(`Task "${label}" is still running (waited ${timeout}ms). It was not terminated.`)
+    }
+    if (command) lines.push(`Command: ${command}`)
+    lines.push(`Duration: ${Date.now() - startedAt}ms`)
+
+    const cleaned = stripTerminalSequences(output).trim()
+    const newProblems = getNewDiagnostics(diagnosticsBefore, vscode.languages.getDiagnostics())
+    const parsed = finished && cleaned ? publishCommandProblems(`task:${task.source}:${task.name}`, cwd, cleaned) : 0
+    const problems = formatProblems(newProblems, cwd)
+    if (problems.length > 0 || parsed > 0) {
+      lines.push(`Problems (${problems.length} new in the Problems panel${parsed > 0 ? `, ${parsed} parsed from the output` : ""}):`)
+      lines.push(...problems.slice(0, MAX_REPORTED_PROBLEMS))
+      if (problems.length > MAX_REPORTED_PROBLEMS) lines.push(`- … ${problems.length - MAX_REPORTED_PROBLEMS} more (use code_checker)`)
+    }
+
+    if (cleaned) {
+      const omitted = cleaned.length > MAX_OUTPUT_CHARS ? `(${cleaned.length - MAX_OUTPUT_CHARS} earlier characters omitted)\n` : ""
+      lines.push(`Output:\n${omitted}${cleaned.slice(-MAX_OUTPUT_CHARS)}`)
+    } else if (!outputCaptured) {
+      lines.push("Output could not be captured (no shell integration in the task terminal); check the terminal panel.")
+    } else {
+      lines.push("No output.")
+    }
+    return formatResponse.toolResult(lines.join("\n"))
+  }
+}
+
+function formatProblems(diagnostics: [vscode.Uri, vscode.Diagnostic[]][], cwd: string): string[] {
+  const lines: string[] = []
+  for (const [uri, items] of diagnostics) {
+    const file = toPosixPath(path.relative(cwd, uri.fsPath))
+    for (const d of items) {
+      const severity = vscode.DiagnosticSeverity[d.severity]
+      const source = d.source ? ` (${d.source})` : ""
+      lines.push(`- ${file}:${d.range.start.line + 1}:${d.range.start.character + 1} ${severity}: ${d.message}${source}`)
+    }
+  }
+  return lines
+}
+
+// Shell integration streams raw terminal data: drop OSC/CSI sequences and carriage returns
+function stripTerminalSequences(text: string): string {
+  return text
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, "")
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, "")
+    .replace(/\r(?!\n)/g, "\n")
+    .replace(/\r/g, "")
+}
+
+function isClassifierEnabled(): boolean {
+  return vscode.workspace.getConfiguration("reliefpilot").get<boolean>("classifyDestructiveCommands", true)
+}
+
+export async function runTaskToolHandler(params: z.infer<typeof runTaskSchema>) {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  if (!workspaceRoot) {
+    return {
+      isError: true,
+      content: [{ text: "No workspace folder is open" }],
+    }
+  }
+
+  const tool = new RunTaskTool(workspaceRoot)
+  try {
+    const [userRejected, response] = await tool.execute(params.name, params.source, params.destructiveFlag, params.timeout)
+    return {
+      isError: userRejected,
+      content: [{ text: response.text }],
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      isError: true,
+      content: [{ text: `run_task failed: ${message}` }],
+    }
+  }
+}
+
+export type RunTaskInput = z.infer<typeof runTaskSchema>
+
+export class RunTaskLanguageModelTool implements LanguageModelTool<RunTaskInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<RunTaskInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('run_task')
+    try {
+      const parseResult = await runTaskSchema.safeParseAsync(options.input ?? {})
+
+      if (!parseResult.success) {
+        throw new Error(`run_task invalid arguments: ${parseResult.error.message}`)
+      }
+
+      const result = await runTaskToolHandler(parseResult.data)
+      const messages = (result.content ?? [])
+        .map((part) => ("text" in part ? part.text : undefined))
+        .filter((text): text is string => typeof text === "string" && text.length > 0)
+
+      if (result.isError) {
+        const message = messages[0] ?? "run_task failed."
+        throw new Error(message)
+      }
+
+      const parts = (messages.length > 0 ? messages : ["Task finished."]).map(
+        (text) => new vscode.LanguageModelTextPart(text),
+      )
+
+      return new vscode.LanguageModelToolResult(parts)
+    } finally {
+      statusBarActivity.end('run_task')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<RunTaskInput>,
+  ): PreparedToolInvocation {
+    const input = options.input ?? {}
+    const name = typeof input.name === "string" ? input.name : undefined
+    const source = typeof input.source === "string" ? input.source : undefined
+    const destructiveFlag = typeof input.destructiveFlag === "boolean" ? input.destructiveFlag : undefined
+    const timeout = typeof input.timeout === "number" ? input.timeout : undefined
+
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **run_task**\n`)
+    if (name) md.appendMarkdown(`- Task: \`${name}\`  \n`)
+    if (source) md.appendMarkdown(`- Source: \`${source}\`  \n`)
+    if (typeof destructiveFlag === "boolean") md.appendMarkdown(`- Destructive: \`${destructiveFlag}\`  \n`)
+    if (typeof timeout === "number") md.appendMarkdown(`- Timeout: \`${timeout}ms\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
@@ -0,0 +1,234 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import * as path from "path"
+import { z } from "zod"
+import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { describePolicyRule, evaluateCommandPolicy, getCommandPolicyRules } from "../utils/command_policy"
+import { ConfirmationUI } from "../utils/confirmation_ui"
+import { env } from "../utils/env"
+import { formatResponse, ToolResponse } from "../utils/response"
+import { analyzeShellCommand } from "../utils/shell_command_analyzer"
+import { statusBarActivity } from "../utils/statusBar"
+import { delay } from "../utils/time.js"
+import { coerceTerminalId, GetTerminalOutputTool } from "./get_terminal_output"
+
+// Control sequences for named keys (xterm encoding, as typed in the integrated terminal)
+const KEY_SEQUENCES = {
+  enter: "\r",
+  tab: "\t",
+  space: " ",
+  backspace: "\x7f",
+  escape: "\x1b",
+  up: "\x1b[A",
+  down: "\x1b[B",
+  right: "\x1b[C",
+  left: "\x1b[D",
+  "ctrl-c": "\x03",
+  "ctrl-d": "\x04",
+  "ctrl-z": "\x1a",
+} as const
+
+export type TerminalKey = keyof typeof KEY_SEQUENCES
+
+const KEY_NAMES = Object.keys(KEY_SEQUENCES) as [TerminalKey, ...TerminalKey[]]
+
+interface ApprovalDecision {
+  approved: boolean
+  feedback?: string
+}
+
+export const sendTerminalInputSchema = z.object({
+  terminalId: z
+    .string()
+    .regex(/^\d+$/, { message: "terminalId must be a numeric string (e.g., '1')." })
+    .describe("The ID of the terminal to send input to (as returned by execute_command, e.g., \"1\")."),
+  text: z
+    .string()
+    .optional()
+    .describe("Literal text to type into the terminal. No newline is added; use keys: [\"enter\"] to submit."),
+  keys: z
+    .array(z.enum(KEY_NAMES))
+    .optional()
+    .describe(`Named keys sent after text, in order: ${KEY_NAMES.join(", ")}.`),
+  waitMs: z
+    .number()
+    .int()
+    .min(0)
+    .max(60000)
+    .optional()
+    .default(1000)
+    .describe("Milliseconds to wait for the process to react before reading terminal output (default: 1000)."),
+  maxLines: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(100)
+    .describe("Maximum number of terminal output lines to return (default: 100)."),
+})
+
+/** Human-readable preview of the input, e.g. `"y" <enter>`. */
+export function describeTerminalInput(text: string | undefined, keys: TerminalKey[] | undefined): string {
+  const parts: string[] = []
+  if (text) parts.push(JSON.stringify(text))
+  for (const key of keys ?? []) parts.push(`<${key}>`)
+  return parts.join(" ")
+}
+
+export class SendTerminalInputTool {
+  async execute(
+    terminalId: string | number,
+    text?: string,
+    keys?: TerminalKey[],
+    waitMs: number = 1000,
+    maxLines: number = 100,
+  ): Promise<[userRejected: boolean, ToolResponse]> {
+    const id = coerceTerminalId(terminalId)
+    if (id === undefined) {
+      return [false, formatResponse.toolResult(
+        `Invalid terminal ID: ${terminalId}. Please provide a valid numeric ID (e.g., "1").`,
+      )]
+    }
+    if (!text && (!keys || keys.length === 0)) {
+      return [false, formatResponse.toolResult("Nothing to send: provide text and/or keys.")]
+    }
+
+    const terminalInfo = TerminalRegistry.getTerminal(id)
+    if (!terminalInfo) {
+      return [false, formatResponse.toolResult(`Terminal with ID ${id} not found or has been closed.`)]
+    }
+
+    // An idle terminal sits at a shell prompt: the text is a command line and gets the execute_command checks
+    const warnings: string[] = []
+    if (!terminalInfo.busy && text) {
+      const cwd = terminalInfo.initialCwd ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd()
+      const policy = evaluateCommandPolicy(getCommandPolicyRules(), { command: text, cwd: path.resolve(cwd) })
+      if (policy.action === "deny" && policy.rule) {
+        const matched = policy.segment ? ` Matched segment: \`${policy.segment}\`.` : ""
+        return [true, formatResponse.toolResult(
+          `Terminal ${id} is idle, so the input would run as a shell command; it was blocked by reliefpilot.commandPolicy ` +
+          `${describePolicyRule(policy.rule)}.${matched} Do not retry this input; ask the user if it is really required.`,
+        )]
+      }
+      if (policy.action === "confirm" && policy.rule) warnings.push(`policy: ${describePolicyRule(policy.rule)}`)
+      warnings.push(...analyzeShellCommand(text).reasons)
+    }
+
+    const preview = describeTerminalInput(text, keys)
+    const decision = await this.ask(id, preview, warnings)
+    if (!decision.approved) {
+      const note = decision.feedback ? ` Feedback: ${decision.feedback}` : ""
+      return [true, formatResponse.toolResult(`Sending input was declined by the user.${note}`)]
+    }
+
+    const payload = (text ?? "") + (keys ?? []).map((key) => KEY_SEQUENCES[key]).join("")
+    terminalInfo.terminal.sendText(payload, false)
+
+    await delay(waitMs)
+
+    const output = await new GetTerminalOutputTool().execute(id, maxLines)
+    return [false, formatResponse.toolResult(`Sent ${preview} to terminal (id: ${id}).\n\n${output.text}`)]
+  }
+
+  protected async ask(terminalId: number, preview: string, warnings: string[] = []): Promise<ApprovalDecision> {
+    const info = TerminalRegistry.getTerminal(terminalId)
+    const target = info && !info.busy ? " (idle shell: input runs as a command)" : info?.lastCommand ? ` (${info.lastCommand})` : ""
+    const res = await ConfirmationUI.confirm(
+      `Send input to terminal ${terminalId}${target}?`,
+      warnings.length > 0 ? `${preview} · ${warnings.join("; ")}` : preview,
+      "Approve",
+      "Deny",
+    )
+    if (res === "Approve") {
+      return { approved: true }
+    }
+    return { approved: false, feedback: res !== "Deny" ? res : undefined }
+  }
+}
+
+export async function sendTerminalInputToolHandler(params: z.infer<typeof sendTerminalInputSchema>) {
+  const tool = new SendTerminalInputTool()
+  try {
+    const [userRejected, response] = await tool.execute(
+      params.terminalId,
+      params.text,
+      params.keys,
+      params.waitMs,
+      params.maxLines,
+    )
+    return {
+      isError: userRejected,
+      content: [{ text: response.text }],
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      isError: true,
+      content: [{ text: `send_terminal_input failed: ${message}` }],
+    }
+  }
+}
+
+export type SendTerminalInputInput = z.infer<typeof sendTerminalInputSchema>
+
+export class SendTerminalInputLanguageModelTool implements LanguageModelTool<SendTerminalInputInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<SendTerminalInputInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('send_terminal_input')
+    try {
+      const parseResult = await sendTerminalInputSchema.safeParseAsync(options.input ?? {})
+
+      if (!parseResult.success) {
+        throw new Error(`send_terminal_input invalid arguments: ${parseResult.error.message}`)
+      }
+
+      const result = await sendTerminalInputToolHandler(parseResult.data)
+      const messages = (result.content ?? [])
+        .map((part) => ("text" in part ? part.text : undefined))
+        .filter((text): text is string => typeof text === "string" && text.length > 0)
+
+      if (result.isError) {
+        const message = messages[0] ?? "send_terminal_input failed."
+        throw new Error(message)
+      }
+
+      const parts = (messages.length > 0 ? messages : ["Input sent."]).map(
+        (text) => new vscode.LanguageModelTextPart(text),
+      )
+
+      return new vscode.LanguageModelToolResult(parts)
+    } finally {
+      statusBarActivity.end('send_terminal_input')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<SendTerminalInputInput>,
+  ): PreparedToolInvocation {
+    const input = options.input ?? {}
+    const terminalId = typeof input.terminalId === "string" ? input.terminalId : undefined
+    const text = typeof input.text === "string" ? input.text : undefined
+    const keys = Array.isArray(input.keys) ? input.keys.filter((k): k is TerminalKey => k in KEY_SEQUENCES) : undefined
+
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **send_terminal_input**\n`)
+    if (terminalId) md.appendMarkdown(`- Terminal: \`${terminalId}\`  \n`)
+    const preview = describeTerminalInput(text, keys)
+    if (preview) md.appendMarkdown(`- Input: \`${preview}\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
@@ -0,0 +1,184 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import { z } from "zod"
+import { formatExecutionHeader } from "../integrations/terminal/executionStatus"
+import { TerminalManager } from "../integrations/terminal/TerminalManager"
+import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { ConfirmationUI } from "../utils/confirmation_ui"
+import { env } from "../utils/env"
+import { formatResponse, ToolResponse } from "../utils/response"
+import { statusBarActivity } from "../utils/statusBar"
+import { coerceTerminalId } from "./get_terminal_output"
+
+interface ApprovalDecision {
+  approved: boolean
+  feedback?: string
+}
+
+export const terminateCommandSchema = z.object({
+  terminalId: z
+    .string()
+    .regex(/^\d+$/, { message: "terminalId must be a numeric string (e.g., '1')." })
+    .describe("The ID of the terminal running the command to stop (as returned by execute_command, e.g., \"1\")."),
+  gracePeriodMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(3000)
+    .describe("Milliseconds to wait after sending Ctrl+C before disposing the terminal (default: 3000)."),
+  maxLines: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(50)
+    .describe("Maximum number of final output lines to include in the result (default: 50)."),
+})
+
+export class TerminateCommandTool {
+  private terminalManager: TerminalManager
+
+  constructor() {
+    this.terminalManager = TerminalManager.getInstance()
+  }
+
+  async execute(
+    terminalId: string | number,
+    gracePeriodMs: number = 3000,
+    maxLines: number = 50,
+  ): Promise<[userRejected: boolean, ToolResponse]> {
+    const id = coerceTerminalId(terminalId)
+    if (id === undefined) {
+      return [false, formatResponse.toolResult(
+        `Invalid terminal ID: ${terminalId}. Please provide a valid numeric ID (e.g., "1").`,
+      )]
+    }
+
+    const terminalInfo = TerminalRegistry.getTerminal(id)
+    if (!terminalInfo) {
+      return [false, formatResponse.toolResult(`Terminal with ID ${id} not found or has already been closed.`)]
+    }
+    if (!terminalInfo.busy) {
+      return [false, formatResponse.toolResult(
+        `Terminal (id: ${id}) has no running command${terminalInfo.lastCommand ? ` (last command: "${terminalInfo.lastCommand}")` : ""}. Nothing to terminate.`,
+      )]
+    }
+
+    const decision = await this.ask(id, terminalInfo.lastCommand)
+    if (!decision.approved) {
+      const note = decision.feedback ? ` Feedback: ${decision.feedback}` : ""
+      return [true, formatResponse.toolResult(`Termination was declined by the user.${note}`)]
+    }
+
+    const { stopped, tail } = await this.terminalManager.terminate(
+      terminalInfo,
+      gracePeriodMs,
+      Math.max(1, Math.trunc(maxLines)),
+    )
+
+    const outcome = stopped
+      ? `Command in terminal (id: ${id}) stopped after interrupt (Ctrl+C).`
+      : `Command in terminal (id: ${id}) did not stop within ${gracePeriodMs}ms after interrupt; the terminal was disposed.`
+    const header = terminalInfo.lastExecution ? `\n${formatExecutionHeader(terminalInfo.lastExecution)}` : ""
+    const output = tail.join("\n").trim()
+
+    return [false, formatResponse.toolResult(`${outcome}${header}${output ? `\nOutput tail:\n${output}` : ""}`)]
+  }
+
+  protected async ask(terminalId: number, command: string): Promise<ApprovalDecision> {
+    const res = await ConfirmationUI.confirm(
+      `Terminate command in terminal ${terminalId}?`,
+      command,
+      "Approve",
+      "Deny",
+    )
+    if (res === "Approve") {
+      return { approved: true }
+    }
+    return { approved: false, feedback: res !== "Deny" ? res : undefined }
+  }
+}
+
+export async function terminateCommandToolHandler(params: z.infer<typeof terminateCommandSchema>) {
+  const tool = new TerminateCommandTool()
+  try {
+    const [userRejected, response] = await tool.execute(params.terminalId, params.gracePeriodMs, params.maxLines)
+    return {
+      isError: userRejected,
+      content: [{ text: response.text }],
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      isError: true,
+      content: [{ text: `terminate_command failed: ${message}` }],
+    }
+  }
+}
+
+export type TerminateCommandInput = z.infer<typeof terminateCommandSchema>
+
+export class TerminateCommandLanguageModelTool implements LanguageModelTool<TerminateCommandInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<TerminateCommandInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('terminate_command')
+    try {
+      const parseResult = await terminateCommandSchema.safeParseAsync(options.input ?? {})
+
+      if (!parseResult.success) {
+        throw new Error(`terminate_command invalid arguments: ${parseResult.error.message}`)
+      }
+
+      const result = await terminateCommandToolHandler(parseResult.data)
+      const messages = (result.content ?? [])
+        .map((part) => ("text" in part ? part.text : undefined))
+        .filter((text): text is string => typeof text === "string" && text.length > 0)
+
+      if (result.isError) {
+        const message = messages[0] ?? "terminate_command failed."
+        throw new Error(message)
+      }
+
+      const parts = (messages.length > 0 ? messages : ["Command terminated."]).map(
+        (text) => new vscode.LanguageModelTextPart(text),
+      )
+
+      return new vscode.LanguageModelToolResult(parts)
+    } finally {
+      statusBarActivity.end('terminate_command')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<TerminateCommandInput>,
+  ): PreparedToolInvocation {
+    const input = options.input ?? {}
+    const terminalId = typeof input.terminalId === "string" ? input.terminalId : undefined
+    const gracePeriodMs = typeof input.gracePeriodMs === "number" ? input.gracePeriodMs : undefined
+
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **terminate_command**\n`)
+    if (terminalId) {
+      md.appendMarkdown(`- Terminal: \`${terminalId}\`  \n`)
+      const info = /^\d+$/.test(terminalId) ? TerminalRegistry.getTerminal(Number(terminalId)) : undefined
+      if (info?.lastCommand) md.appendMarkdown(`- Command: \`${info.lastCommand}\`  \n`)
+    }
+    if (typeof gracePeriodMs === "number") md.appendMarkdown(`- Grace period: \`${gracePeriodMs}ms\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
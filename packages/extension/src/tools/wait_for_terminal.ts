@@ -0,0 +1,178 @@
+import type {
+  CancellationToken,
+  LanguageModelTool,
+  LanguageModelToolInvocationOptions,
+  LanguageModelToolInvocationPrepareOptions,
+  PreparedToolInvocation,
+} from "vscode"
+import * as vscode from "vscode"
+import { z } from "zod"
+import { formatExecutionHeader } from "../integrations/terminal/executionStatus"
+import { TerminalManager } from "../integrations/terminal/TerminalManager"
+import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { env } from "../utils/env"
+import { formatResponse, ToolResponse } from "../utils/response"
+import { statusBarActivity } from "../utils/statusBar"
+import { delay } from "../utils/time.js"
+import { compileWaitForPattern } from "./execute_command"
+import { coerceTerminalId } from "./get_terminal_output"
+
+export const waitForTerminalSchema = z.object({
+  terminalId: z
+    .string()
+    .regex(/^\d+$/, { message: "terminalId must be a numeric string (e.g., '1')." })
+    .describe("The ID of the terminal to wait on (as returned by execute_command, e.g., \"1\")."),
+  pattern: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Optional regular expression (JavaScript syntax, case-sensitive) matched against each output line, including output not retrieved yet. Without a pattern the tool waits for the command to complete."
+    ),
+  timeout: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(60000)
+    .describe("Milliseconds to wait before giving up (default: 60000). The command is never terminated."),
+  maxLines: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(200)
+    .describe("Maximum number of new output lines to include in the result (default: 200)."),
+})
+
+export class WaitForTerminalTool {
+  private terminalManager: TerminalManager
+
+  constructor() {
+    this.terminalManager = TerminalManager.getInstance()
+  }
+
+  /**
+   * Block until the command in a terminal prints a line matching pattern, completes, or timeout elapses.
+   * Returns the output captured since the last retrieval.
+   */
+  async execute(
+    terminalId: string | number,
+    pattern?: string,
+    timeout: number = 60000,
+    maxLines: number = 200,
+  ): Promise<ToolResponse> {
+    const id = coerceTerminalId(terminalId)
+    if (id === undefined) {
+      return formatResponse.toolResult(
+        `Invalid terminal ID: ${terminalId}. Please provide a valid numeric ID (e.g., "1").`,
+      )
+    }
+
+    const regex = pattern ? compileWaitForPattern(pattern) : undefined
+
+    const terminalInfo = TerminalRegistry.getTerminal(id)
+    if (!terminalInfo) {
+      return formatResponse.toolResult(`Terminal with ID ${id} not found or has been closed.`)
+    }
+
+    const wait = await this.terminalManager.waitForOutput(terminalInfo, regex, timeout, true)
+
+    // Allow async output messages to flush and maintain ordering
+    await delay(50)
+
+    const lines = this.terminalManager.getUnretrievedOutput(id)
+    this.terminalManager.markOutputRetrieved(id)
+    const truncated = lines.length > maxLines ? `(${lines.length - maxLines} earlier lines omitted)\n` : ""
+    const output = lines.slice(-maxLines).join("\n").trim()
+
+    let outcome: string
+    if (wait.reason === "matched") {
+      outcome = `Output in terminal (id: ${id}) matched /${regex?.source}/: ${wait.matchedLine?.trim()}`
+    } else if (wait.reason === "completed") {
+      outcome = `Command in terminal (id: ${id}) is not running${regex ? ` and its output did not match /${regex.source}/` : ""}.`
+    } else {
+      outcome = `Command still running in terminal (id: ${id}) (waited ${timeout}ms${regex ? ` for /${regex.source}/` : ""}).`
+    }
+    const header = terminalInfo.lastExecution ? `\n${formatExecutionHeader(terminalInfo.lastExecution)}` : ""
+
+    return formatResponse.toolResult(
+      `${outcome}${header}${output ? `\nNew output:\n${truncated}${output}` : "\nNo new output."}`,
+    )
+  }
+}
+
+export async function waitForTerminalToolHandler(params: z.infer<typeof waitForTerminalSchema>) {
+  const tool = new WaitForTerminalTool()
+  try {
+    const response = await tool.execute(params.terminalId, params.pattern, params.timeout, params.maxLines)
+    return {
+      isError: false,
+      content: [{ text: response.text }],
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      isError: true,
+      content: [{ text: `wait_for_terminal failed: ${message}` }],
+    }
+  }
+}
+
+export type WaitForTerminalInput = z.infer<typeof waitForTerminalSchema>
+
+export class WaitForTerminalLanguageModelTool implements LanguageModelTool<WaitForTerminalInput> {
+  async invoke(
+    options: LanguageModelToolInvocationOptions<WaitForTerminalInput>,
+    _token: CancellationToken,
+  ): Promise<vscode.LanguageModelToolResult> {
+    statusBarActivity.start('wait_for_terminal')
+    try {
+      const parseResult = await waitForTerminalSchema.safeParseAsync(options.input ?? {})
+
+      if (!parseResult.success) {
+        throw new Error(`wait_for_terminal invalid arguments: ${parseResult.error.message}`)
+      }
+
+      const result = await waitForTerminalToolHandler(parseResult.data)
+      const messages = (result.content ?? [])
+        .map((part) => ("text" in part ? part.text : undefined))
+        .filter((text): text is string => typeof text === "string" && text.length > 0)
+
+      if (result.isError) {
+        const message = messages[0] ?? "wait_for_terminal failed."
+        throw new Error(message)
+      }
+
+      const parts = (messages.length > 0 ? messages : ["Wait finished."]).map(
+        (text) => new vscode.LanguageModelTextPart(text),
+      )
+
+      return new vscode.LanguageModelToolResult(parts)
+    } finally {
+      statusBarActivity.end('wait_for_terminal')
+    }
+  }
+
+  prepareInvocation(
+    options: LanguageModelToolInvocationPrepareOptions<WaitForTerminalInput>,
+  ): PreparedToolInvocation {
+    const input = options.input ?? {}
+    const terminalId = typeof input.terminalId === "string" ? input.terminalId : undefined
+    const pattern = typeof input.pattern === "string" ? input.pattern : undefined
+    const timeout = typeof input.timeout === "number" ? input.timeout : undefined
+
+    const md = new vscode.MarkdownString(undefined, true)
+    md.supportHtml = true
+    md.isTrusted = true
+
+    const iconUri = vscode.Uri.joinPath(env.extensionUri, 'icon.png')
+    md.appendMarkdown(`![Relief Pilot](${iconUri.toString()}|width=10,height=10) `)
+    md.appendMarkdown(`Relief Pilot · **wait_for_terminal**\n`)
+    if (terminalId) md.appendMarkdown(`- Terminal: \`${terminalId}\`  \n`)
+    if (pattern) md.appendMarkdown(`- Pattern: \`${pattern}\`  \n`)
+    if (typeof timeout === "number") md.appendMarkdown(`- Timeout: \`${timeout}ms\`  \n`)
+
+    return { invocationMessage: md }
+  }
+}
@@ -1,7 +1,7 @@
 // Webview to show AI fetch progress: left = fetched Markdown content, right = streaming model output
 import * as vscode from 'vscode';
 import { env } from '../utils/env';
-import { getSession } from './ai_fetch_sessions';
+import { AiFetchSession, getSession } from './ai_fetch_sessions';
 
 export async function openAiFetchProgressPanelByUid(uid: string): Promise<void> {
   // After early session creation in prepareInvocation(), either the session exists immediately
@@ -28,6 +28,18 @@ export async function openAiFetchProgressPanelByUid(uid: string): Promise<void>
     },
   );
 
+  renderAiFetchProgressPanel(panel, session);
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreAiFetchProgressPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+  const session = getSession(uid);
+  if (!session || session.panel) return false;
+  renderAiFetchProgressPanel(panel, session);
+  return true;
+}
+
+function renderAiFetchProgressPanel(panel: vscode.WebviewPanel, session: AiFetchSession): void {
   // Bind this panel to the session so subsequent invocations focus the existing one
   session.panel = panel;
 
@@ -93,6 +105,8 @@ export async function openAiFetchProgressPanelByUid(uid: string): Promise<void>
     <script nonce="${nonce}" src="${markdownEnhanceUri}"></script>
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
+      // Lets the panel serializer restore this panel after a window reload
+      vscode.setState({ uid: ${JSON.stringify(session.uid)} });
   const elLeft = document.getElementById('leftMd');
   const elStream = document.getElementById('rightStream');
   const elRightTitle = document.getElementById('rightTitle');
@@ -1,5 +1,6 @@
 // Shared session registry for ai_fetch_url tool
 import * as vscode from 'vscode';
+import { redactForStorage } from './redaction';
 
 export type AiFetchSession = {
     uid: string;
@@ -97,8 +98,8 @@ class AiFetchSessionManager {
             status: s.status,
             startedAt: s.startedAt,
             finishedAt: s.finishedAt,
-            leftBuffer: s.leftBuffer,
-            rightTextBuffer: s.rightTextBuffer
+            leftBuffer: redactForStorage(s.leftBuffer),
+            rightTextBuffer: redactForStorage(s.rightTextBuffer)
         }));
     }
 
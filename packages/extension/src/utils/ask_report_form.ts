@@ -0,0 +1,167 @@
+// Structured form fields for ask_report: the agent sends a small JSON-schema-like field list,
+// the webview renders it and the extension host re-validates the submitted values into a typed object.
+// Pure module (no VS Code APIs) shared by the tool, the history and tests.
+
+export const ASK_REPORT_FIELD_TYPES = ['text', 'multiline', 'number', 'boolean', 'select', 'multiselect'] as const
+
+export type AskReportFieldType = typeof ASK_REPORT_FIELD_TYPES[number]
+
+export type AskReportFieldValue = string | number | boolean | string[]
+
+export type AskReportField = {
+    // Key of the value in the result object
+    name: string
+    type: AskReportFieldType
+    // Shown next to the control; defaults to name
+    label?: string
+    // Hint rendered under the label
+    description?: string
+    required?: boolean
+    default?: AskReportFieldValue
+    // Choices for select / multiselect
+    options?: string[]
+    // Bounds for number fields
+    min?: number
+    max?: number
+}
+
+// Submitted values keyed by field name; null for optional fields left empty
+export type AskReportFormValues = Record<string, AskReportFieldValue | null>
+
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/
+const MAX_FIELDS = 30
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
+
+/**
+ * Validate the form sent by the agent. Invalid fields are reported instead of silently dropped,
+ * so the tool can fail fast with a message the agent can act on.
+ */
+export function normalizeFormFields(raw: unknown): { fields: AskReportField[]; errors: string[] } {
+    const fields: AskReportField[] = []
+    const errors: string[] = []
+    if (raw === undefined || raw === null) return { fields, errors }
+    if (!Array.isArray(raw)) return { fields, errors: ['form must be an array of fields.'] }
+    if (raw.length > MAX_FIELDS) errors.push(`form supports at most ${MAX_FIELDS} fields.`)
+    const seen = new Set<string>()
+    raw.slice(0, MAX_FIELDS).forEach((item, idx) => {
+        const where = `form[${idx}]`
+        if (!item || typeof item !== 'object') {
+            errors.push(`${where} must be an object.`)
+            return
+        }
+        const f = item as Record<string, unknown>
+        if (typeof f.name !== 'string' || !FIELD_NAME.test(f.name)) {
+            errors.push(`${where}.name must be an identifier-like string.`)
+            return
+        }
+        if (seen.has(f.name)) {
+            errors.push(`${where}.name "${f.name}" is used twice.`)
+            return
+        }
+        if (typeof f.type !== 'string' || !(ASK_REPORT_FIELD_TYPES as readonly string[]).includes(f.type)) {
+            errors.push(`${where}.type must be one of ${ASK_REPORT_FIELD_TYPES.join(', ')}.`)
+            return
+        }
+        const type = f.type as AskReportFieldType
+        const field: AskReportField = { name: f.name, type }
+        if (typeof f.label === 'string' && f.label.trim()) field.label = f.label.trim()
+        if (typeof f.description === 'string' && f.description.trim()) field.description = f.description.trim()
+        if (f.required === true) field.required = true
+        if (type === 'select' || type === 'multiselect') {
+            if (!isStringArray(f.options) || f.options.length === 0) {
+                errors.push(`${where}.options must be a non-empty array of strings for ${type} fields.`)
+                return
+            }
+            field.options = [...new Set(f.options)]
+        }
+        if (type === 'number') {
+            if (typeof f.min === 'number' && Number.isFinite(f.min)) field.min = f.min
+            if (typeof f.max === 'number' && Number.isFinite(f.max)) field.max = f.max
+        }
+        if (f.default !== undefined) {
+            const checked = coerceFieldValue(field, f.default)
+            if (checked.error) {
+                errors.push(`${where}.default: ${checked.error}`)
+                return
+            }
+            if (checked.value !== null) field.default = checked.value
+        }
+        seen.add(field.name)
+        fields.push(field)
+    })
+    return { fields, errors }
+}
+
+// Empty strings and empty selections become null ("no value") so required checks treat them alike
+function coerceFieldValue(field: AskReportField, raw: unknown): { value: AskReportFieldValue | null; error?: string } {
+    if (raw === undefined || raw === null) return { value: null }
+    switch (field.type) {
+        case 'text':
+        case 'multiline': {
+            if (typeof raw !== 'string') return { value: null, error: 'expected a string' }
+            return { value: raw.trim() === '' ? null : raw }
+        }
+        case 'number': {
+            if (typeof raw === 'string' && raw.trim() === '') return { value: null }
+            const n = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw) : NaN
+            if (!Number.isFinite(n)) return { value: null, error: 'expected a number' }
+            if (field.min !== undefined && n < field.min) return { value: null, error: `must be at least ${field.min}` }
+            if (field.max !== undefined && n > field.max) return { value: null, error: `must be at most ${field.max}` }
+            return { value: n }
+        }
+        case 'boolean': {
+            if (typeof raw !== 'boolean') return { value: null, error: 'expected true or false' }
+            return { value: raw }
+        }
+        case 'select': {
+            if (typeof raw !== 'string') return { value: null, error: 'expected one of the options' }
+            if (raw === '') return { value: null }
+            if (!field.options?.includes(raw)) return { value: null, error: `"${raw}" is not one of the options` }
+            return { value: raw }
+        }
+        case 'multiselect': {
+            if (!isStringArray(raw)) return { value: null, error: 'expected a list of options' }
+            const unknown = raw.find((v) => !field.options?.includes(v))
+            if (unknown !== undefined) return { value: null, error: `"${unknown}" is not one of the options` }
+            // Keep the option order, not the click order
+            const picked = (field.options ?? []).filter((o) => raw.includes(o))
+            return { value: picked.length > 0 ? picked : null }
+        }
+    }
+}
+
+/**
+ * Validate values submitted by the webview against the fields. Every field gets a key in the result
+ * (null when left empty); booleans default to false because an unchecked box is an answer.
+ */
+export function validateFormValues(fields: AskReportField[], raw: unknown): { values: AskReportFormValues; errors: string[] } {
+    const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {}
+    const values: AskReportFormValues = {}
+    const errors: string[] = []
+    for (const field of fields) {
+        const label = field.label ?? field.name
+        const checked = coerceFieldValue(field, input[field.name])
+        if (checked.error) {
+            errors.push(`${label}: ${checked.error}.`)
+            values[field.name] = null
+            continue
+        }
+        let value = checked.value
+        if (value === null && field.type === 'boolean') value = false
+        if (value === null && field.required) errors.push(`${label} is required.`)
+        values[field.name] = value
+    }
+    return { values, errors }
+}
+
+/** Initial values the webview renders: defaults, else empty. */
+export function initialFormValues(fields: AskReportField[]): AskReportFormValues {
+    const values: AskReportFormValues = {}
+    for (const field of fields) {
+        values[field.name] = field.default ?? (field.type === 'boolean' ? false : null)
+    }
+    return values
+}
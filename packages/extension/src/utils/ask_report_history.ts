@@ -1,5 +1,23 @@
 import { randomUUID } from 'node:crypto'
 import * as vscode from 'vscode'
+import type { AskReportField, AskReportFormValues } from './ask_report_form'
+import type { AskReportOptionInput } from './ask_report_options'
+import type { AskReportTimeoutPolicy } from './ask_report_timeout'
+import { redactForStorage } from './redaction'
+
+export type AskReportHistoryResult = {
+    decision: 'Submit' | 'Cancel'
+    value: string
+    // Predefined options the user picked
+    selectedOptions?: string[]
+    formValues?: AskReportFormValues
+    timeout?: boolean
+    // Policy that fired on timeout and why the configured one fell back to "cancel"
+    timeoutPolicy?: AskReportTimeoutPolicy
+    timeoutFallback?: string
+    // The window reloaded (or the extension host restarted) before the user answered
+    interrupted?: boolean
+}
 
 // Ask Report history entry stored in memory only (per session)
 export type AskReportHistoryEntry = {
@@ -7,8 +25,11 @@ export type AskReportHistoryEntry = {
     timestamp: number // epoch ms
     topic: string
     markdown: string
-    predefinedOptions?: string[]
-    result?: { decision: 'Submit' | 'Cancel'; value: string; timeout?: boolean }
+    // Plain strings in entries recorded before options had descriptions
+    predefinedOptions?: AskReportOptionInput[]
+    multiSelect?: boolean
+    form?: AskReportField[]
+    result?: AskReportHistoryResult
     // Reference to an open webview panel for this entry, if any
     panel?: vscode.WebviewPanel
 }
@@ -40,9 +61,17 @@ class AskReportHistory {
             id: e.id,
             timestamp: e.timestamp,
             topic: e.topic,
-            markdown: e.markdown,
+            markdown: redactForStorage(e.markdown),
             predefinedOptions: e.predefinedOptions,
-            result: e.result,
+            multiSelect: e.multiSelect,
+            form: e.form,
+            result: e.result && {
+                ...e.result,
+                value: redactForStorage(e.result.value),
+                formValues: e.result.formValues && Object.fromEntries(
+                    Object.entries(e.result.formValues).map(([k, v]) => [k, typeof v === 'string' ? redactForStorage(v) : v]),
+                ),
+            },
         }))
     }
 
@@ -63,11 +92,16 @@ class AskReportHistory {
             if (Array.isArray(data)) {
                 // newest first is preserved in saved order
                 this.entries = data.map((d) => ({ ...d, panel: undefined }))
+                // Entries without a result belong to tool calls that died with the previous extension host
+                const interrupted = this.entries.filter((e) => !e.result)
+                interrupted.forEach((e) => { e.result = { decision: 'Cancel', value: '', interrupted: true } })
                 // Ensure limit from settings
                 const max = getMaxEntries()
                 if (this.entries.length > max) {
                     this.entries.length = max
                     void this.saveToStorage()
+                } else if (interrupted.length > 0) {
+                    void this.saveToStorage()
                 }
             }
         } catch {
@@ -82,6 +116,8 @@ class AskReportHistory {
             topic: entry.topic,
             markdown: entry.markdown,
             predefinedOptions: entry.predefinedOptions,
+            multiSelect: entry.multiSelect,
+            form: entry.form,
             result: entry.result,
             panel: entry.panel,
         }
@@ -97,7 +133,7 @@ class AskReportHistory {
     }
 
     /** Update result for a given entry id and persist. No-op when id not found. */
-    updateResult(id: string, result: { decision: 'Submit' | 'Cancel'; value: string; timeout?: boolean } | undefined) {
+    updateResult(id: string, result: AskReportHistoryResult | undefined) {
         const e = this.entries.find((x) => x.id === id)
         if (!e) return
         e.result = result
@@ -0,0 +1,67 @@
+// Predefined answer options for ask_report: bare strings or objects with a description and a recommended flag,
+// rendered as radio buttons (single-select) or checkboxes (multiSelect).
+// Pure module (no VS Code APIs) shared by the tool, the history and tests.
+
+export type AskReportOption = {
+    label: string
+    // Secondary line rendered under the label
+    description?: string
+    // Preselected in the webview and used for "recommended" defaults
+    recommended?: boolean
+}
+
+// Shape accepted from the agent and found in older history entries
+export type AskReportOptionInput = string | AskReportOption
+
+const MAX_OPTIONS = 50
+
+/** Normalize agent-supplied options; duplicates and empty labels are reported. */
+export function normalizePredefinedOptions(raw: unknown): { options: AskReportOption[]; errors: string[] } {
+    const options: AskReportOption[] = []
+    const errors: string[] = []
+    if (raw === undefined || raw === null) return { options, errors }
+    if (!Array.isArray(raw)) return { options, errors: ['predefinedOptions must be an array.'] }
+    if (raw.length > MAX_OPTIONS) errors.push(`predefinedOptions supports at most ${MAX_OPTIONS} options.`)
+    const seen = new Set<string>()
+    raw.slice(0, MAX_OPTIONS).forEach((item, idx) => {
+        const where = `predefinedOptions[${idx}]`
+        const option: AskReportOption | undefined = typeof item === 'string'
+            ? { label: item }
+            : item && typeof item === 'object' && typeof (item as AskReportOption).label === 'string'
+                ? { label: (item as AskReportOption).label }
+                : undefined
+        if (!option) {
+            errors.push(`${where} must be a string or an object with a "label".`)
+            return
+        }
+        option.label = option.label.trim()
+        if (!option.label) {
+            errors.push(`${where} has an empty label.`)
+            return
+        }
+        if (seen.has(option.label)) {
+            errors.push(`${where} "${option.label}" is listed twice.`)
+            return
+        }
+        if (typeof item === 'object') {
+            const { description, recommended } = item as AskReportOption
+            if (typeof description === 'string' && description.trim()) option.description = description.trim()
+            if (recommended === true) option.recommended = true
+        }
+        seen.add(option.label)
+        options.push(option)
+    })
+    return { options, errors }
+}
+
+/** Options as objects, for entries stored before descriptions existed. */
+export function toAskReportOptions(options: AskReportOptionInput[] | undefined): AskReportOption[] {
+    return normalizePredefinedOptions(options ?? []).options
+}
+
+/** Keep only labels that are actual options, in option order. */
+export function resolveSelectedOptions(options: AskReportOption[], raw: unknown): string[] {
+    if (!Array.isArray(raw)) return []
+    const picked = new Set(raw.filter((v): v is string => typeof v === 'string'))
+    return options.map((o) => o.label).filter((label) => picked.has(label))
+}
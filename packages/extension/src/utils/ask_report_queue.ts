@@ -0,0 +1,68 @@
+// Pending (unanswered) interactive ask_report requests, oldest first.
+// Parallel tool calls and subagents share one ask_report panel; this queue drives its tabs,
+// the status bar badge and the "show oldest pending" command.
+import * as vscode from 'vscode'
+
+export type PendingAskReport = {
+    // History entry id (the tool call UID)
+    id: string
+    title: string
+    createdAt: number
+}
+
+class AskReportQueue {
+    private readonly items: PendingAskReport[] = []
+    private readonly changeEmitter = new vscode.EventEmitter<void>()
+    readonly onDidChange = this.changeEmitter.event
+
+    add(item: PendingAskReport): void {
+        if (this.has(item.id)) return
+        this.items.push(item)
+        this.items.sort((a, b) => a.createdAt - b.createdAt)
+        this.changeEmitter.fire()
+    }
+
+    remove(id: string): boolean {
+        const idx = this.items.findIndex((i) => i.id === id)
+        if (idx < 0) return false
+        this.items.splice(idx, 1)
+        this.changeEmitter.fire()
+        return true
+    }
+
+    has(id: string): boolean {
+        return this.items.some((i) => i.id === id)
+    }
+
+    list(): PendingAskReport[] {
+        return [...this.items]
+    }
+
+    oldest(): PendingAskReport | undefined {
+        return this.items[0]
+    }
+
+    get size(): number {
+        return this.items.length
+    }
+}
+
+export const askReportQueue = new AskReportQueue()
+
+// Status bar badge counting unanswered reports; hidden while nothing is pending.
+// Clicking it runs the command bound to the item (jump to the oldest pending report).
+export function initPendingAskReportsBadge(item: vscode.StatusBarItem): vscode.Disposable {
+    const update = () => {
+        const n = askReportQueue.size
+        if (n === 0) {
+            item.hide()
+            return
+        }
+        const oldest = askReportQueue.oldest()
+        item.text = `$(comment-discussion) ${n}`
+        item.tooltip = `Relief Pilot: ${n} pending ask_report${n === 1 ? '' : 's'}${oldest ? ` — oldest: ${oldest.title}` : ''}`
+        item.show()
+    }
+    update()
+    return askReportQueue.onDidChange(update)
+}
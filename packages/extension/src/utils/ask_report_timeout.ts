@@ -0,0 +1,91 @@
+// What ask_report does when its countdown expires (reliefpilot.askReportTimeoutPolicy), and the
+// effective countdown for an agent-supplied timeoutSeconds hint.
+// Pure module (no VS Code APIs) shared by the tool and tests.
+import { AskReportField, AskReportFormValues, initialFormValues, validateFormValues } from './ask_report_form'
+import type { AskReportOption } from './ask_report_options'
+
+export const ASK_REPORT_TIMEOUT_POLICIES = ['cancel', 'recommended', 'cannedReply'] as const
+
+export type AskReportTimeoutPolicy = typeof ASK_REPORT_TIMEOUT_POLICIES[number]
+
+export type AskReportTimeoutResolution = {
+    // Policy that fired; "recommended" and "cannedReply" fall back to "cancel" when they cannot apply
+    policy: AskReportTimeoutPolicy
+    decision: 'Submit' | 'Cancel'
+    value: string
+    selectedOptions?: string[]
+    formValues?: AskReportFormValues
+    // Why the configured policy did not apply (names the policy)
+    fallbackReason?: string
+}
+
+export function normalizeTimeoutPolicy(raw: unknown): AskReportTimeoutPolicy {
+    return (ASK_REPORT_TIMEOUT_POLICIES as readonly unknown[]).includes(raw) ? raw as AskReportTimeoutPolicy : 'cancel'
+}
+
+/**
+ * Countdown in seconds: the agent's hint when it is shorter than the user's maximum.
+ * A maximum of 0 disables the timeout whatever the hint says.
+ */
+export function resolveTimeoutSeconds(hint: unknown, maxSeconds: number): number {
+    const max = Number.isFinite(maxSeconds) && maxSeconds > 0 ? Math.floor(maxSeconds) : 0
+    if (max === 0) return 0
+    if (typeof hint !== 'number' || !Number.isFinite(hint) || hint <= 0) return max
+    return Math.min(Math.max(1, Math.floor(hint)), max)
+}
+
+// Form defaults, when they pass validation (required fields without defaults do not)
+function defaultFormValues(form: AskReportField[] | undefined): { values?: AskReportFormValues; valid: boolean } {
+    if (!form || form.length === 0) return { valid: true }
+    const checked = validateFormValues(form, initialFormValues(form))
+    return checked.errors.length === 0 ? { values: checked.values, valid: true } : { valid: false }
+}
+
+export function resolveTimeoutPolicy(
+    configured: AskReportTimeoutPolicy,
+    ctx: { options: AskReportOption[]; multiSelect: boolean; form?: AskReportField[]; cannedReply: string },
+): AskReportTimeoutResolution {
+    const cancel = (fallbackReason?: string): AskReportTimeoutResolution => ({ policy: 'cancel', decision: 'Cancel', value: '', fallbackReason })
+    switch (configured) {
+        case 'recommended': {
+            const recommended = ctx.options.filter((o) => o.recommended).map((o) => o.label)
+            if (recommended.length === 0) return cancel('policy "recommended" did not apply: no option is marked recommended')
+            const form = defaultFormValues(ctx.form)
+            if (!form.valid) return cancel('policy "recommended" did not apply: the form has required fields without defaults')
+            return {
+                policy: 'recommended',
+                decision: 'Submit',
+                value: ctx.multiSelect ? '' : recommended[0],
+                selectedOptions: ctx.multiSelect ? recommended : [recommended[0]],
+                formValues: form.values,
+            }
+        }
+        case 'cannedReply': {
+            const reply = ctx.cannedReply.trim()
+            if (!reply) return cancel('policy "cannedReply" did not apply: reliefpilot.askReportTimeoutReply is empty')
+            return {
+                policy: 'cannedReply',
+                decision: 'Submit',
+                value: reply,
+                selectedOptions: ctx.options.length > 0 ? [] : undefined,
+                formValues: defaultFormValues(ctx.form).values,
+            }
+        }
+        default:
+            return cancel()
+    }
+}
+
+/** First line of the tool result after a timeout: how long the user had and which policy fired. */
+export function describeTimeout(seconds: number, policy: AskReportTimeoutPolicy, fallbackReason?: string): string {
+    const after = seconds > 0 ? ` after ${seconds}s` : ''
+    const fallback = fallbackReason ? ` (${fallbackReason})` : ''
+    switch (policy) {
+        case 'recommended':
+            return `User did not reply: Timeout occurred${after}. Timeout policy "recommended" submitted the recommended option(s) on the user's behalf.`
+        case 'cannedReply':
+            return `User did not reply: Timeout occurred${after}. Timeout policy "cannedReply" submitted the configured reply on the user's behalf.`
+        default:
+            return `User did not reply: Timeout occurred${after}. Timeout policy "cancel" fired; nothing was submitted${fallback}.`
+    }
+}
@@ -0,0 +1,96 @@
+// Relief Pilot DiagnosticCollection fed by problem matchers over execute_command output.
+// Problems are kept per (cwd, command): re-running the same command replaces its previous problems,
+// so a clean `tsc` run clears the errors reported by the failed one. Everything published here shows up in
+// the Problems panel and in languages.getDiagnostics(), i.e. in code_checker reports.
+import * as fs from 'fs'
+import * as vscode from 'vscode'
+import { log } from './log'
+import { ParsedProblem, parseProblems, ProblemMatcherConfig, resolveProblemMatchers } from './problem_matchers'
+
+const DEFAULT_MATCHERS = ['tsc', 'eslint', 'pytest', 'go']
+
+let collection: vscode.DiagnosticCollection | undefined
+// (cwd + command) -> problems of its latest completed run
+const problemsByRun = new Map<string, ParsedProblem[]>()
+
+function getConfiguredMatchers(): ProblemMatcherConfig[] {
+    const raw = vscode.workspace.getConfiguration('reliefpilot').get<unknown>('problemMatchers', DEFAULT_MATCHERS)
+    const { matchers, errors } = resolveProblemMatchers(Array.isArray(raw) ? raw : DEFAULT_MATCHERS)
+    for (const error of errors) log(`reliefpilot.problemMatchers: ${error}`)
+    return matchers
+}
+
+function toDiagnostic(problem: ParsedProblem): vscode.Diagnostic {
+    const line = problem.line - 1
+    const column = problem.column - 1
+    const range = new vscode.Range(
+        line,
+        column,
+        (problem.endLine ?? problem.line) - 1,
+        problem.endColumn !== undefined ? problem.endColumn - 1 : Number.MAX_SAFE_INTEGER,
+    )
+    const severity = problem.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : problem.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity)
+    diagnostic.source = problem.source
+    if (problem.code) diagnostic.code = problem.code
+    return diagnostic
+}
+
+function publish() {
+    if (!collection) return
+    const byFile = new Map<string, vscode.Diagnostic[]>()
+    for (const problems of problemsByRun.values()) {
+        for (const problem of problems) {
+            const list = byFile.get(problem.file) ?? []
+            list.push(toDiagnostic(problem))
+            byFile.set(problem.file, list)
+        }
+    }
+    collection.clear()
+    for (const [file, diagnostics] of byFile) {
+        collection.set(vscode.Uri.file(file), diagnostics)
+    }
+}
+
+/**
+ * Parse the output of a completed command and replace the problems of its previous run.
+ * Returns the number of problems published (0 when problem matching is disabled).
+ */
+export function publishCommandProblems(command: string, cwd: string, output: string): number {
+    if (!collection) return 0
+    const matchers = getConfiguredMatchers()
+    if (matchers.length === 0) return 0
+    const problems = parseProblems(output, cwd, matchers, (file) => {
+        try {
+            return fs.statSync(file).isFile()
+        } catch {
+            return false
+        }
+    })
+    const key = `${cwd}\0${command.trim()}`
+    if (problems.length === 0 && !problemsByRun.has(key)) return 0
+    if (problems.length === 0) problemsByRun.delete(key)
+    else problemsByRun.set(key, problems)
+    publish()
+    return problems.length
+}
+
+export function getCommandProblemCount(): number {
+    let count = 0
+    for (const problems of problemsByRun.values()) count += problems.length
+    return count
+}
+
+export function clearCommandDiagnostics() {
+    problemsByRun.clear()
+    collection?.clear()
+}
+
+// Create the collection from extension context
+export function initCommandDiagnostics(context: vscode.ExtensionContext) {
+    if (collection) return
+    collection = vscode.languages.createDiagnosticCollection('reliefpilot')
+    context.subscriptions.push(collection)
+}
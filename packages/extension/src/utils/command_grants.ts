@@ -0,0 +1,152 @@
+// "Always allow" grants created from the execute_command confirmation UI.
+// Session grants live in memory until the window reloads; workspace grants are persisted in workspace state.
+// A grant either matches the exact command line or a command prefix (e.g. `npm test`); prefix grants only
+// cover plain simple commands, so `npm test && rm -rf dist` or `npm test > out.txt` still ask.
+// Commands the classifier flags only get exact grants: a prefix would extend to any operand (`rm -rf dist /`).
+// Global options before a subcommand are ignored on both sides (`git -C repo push` is covered by `git push`).
+import { randomUUID } from 'node:crypto'
+import * as vscode from 'vscode'
+import { analyzeShellCommand, findToolSubcommandIndex, parseShellSegments } from './shell_command_analyzer'
+
+export type CommandGrantScope = 'session' | 'workspace'
+
+export type CommandGrantMatchType = 'exact' | 'prefix'
+
+export type CommandGrant = {
+    id: string
+    scope: CommandGrantScope
+    matchType: CommandGrantMatchType
+    // Exact command line or command prefix
+    command: string
+    createdAt: number // epoch ms
+}
+
+// What the confirmation UI asks for; the grant store assigns id and timestamp
+export type CommandGrantRequest = Pick<CommandGrant, 'scope' | 'matchType' | 'command'>
+
+const STORAGE_KEY = 'reliefpilot.commandGrants.workspace'
+
+// Package runners whose third word selects what actually runs (`npm run build`, `pnpm exec tsc`)
+const RUNNER_SUBCOMMANDS = new Set(['run', 'run-script', 'exec', 'x', 'dlx'])
+
+/**
+ * Prefix offered for a "this command prefix" grant: the executable plus its subcommand
+ * (`npm test`, `git status`, `npm run build`, `git -C repo log` → `git log`).
+ * Undefined when the command is not a single plain command or the classifier flags it.
+ */
+export function suggestGrantPrefix(command: string): string | undefined {
+    const segments = parseShellSegments(command)
+    if (segments.length !== 1 || segments[0].redirects.length > 0) return undefined
+    const words = withoutGlobalOptions(segments[0].words)
+    if (words.length === 0 || /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) return undefined
+    if (analyzeShellCommand(command).destructive) return undefined
+    const prefix = [words[0]]
+    const isSubcommand = (w: string | undefined) => w !== undefined && /^[A-Za-z][\w:.-]*$/.test(w)
+    if (isSubcommand(words[1])) {
+        prefix.push(words[1])
+        if (RUNNER_SUBCOMMANDS.has(words[1]) && isSubcommand(words[2])) prefix.push(words[2])
+    }
+    return prefix.join(' ')
+}
+
+/** Whether a grant covers a command line. Prefix grants never extend a command the classifier flags. */
+export function matchesCommandGrant(grant: Pick<CommandGrant, 'matchType' | 'command'>, command: string): boolean {
+    const trimmed = command.trim()
+    if (grant.matchType === 'exact') return trimmed === grant.command.trim()
+    const segments = parseShellSegments(trimmed)
+    if (segments.length !== 1) return false
+    const segment = segments[0]
+    if (segment.nested || segment.redirects.length > 0) return false
+    const prefix = grant.command.trim()
+    const startsWith = (text: string) => text === prefix || text.startsWith(prefix + ' ')
+    const words = withoutGlobalOptions(segment.words)
+    if (!startsWith(segment.text) && !(words.length < segment.words.length && startsWith(words.join(' ')))) return false
+    // Grants stored before flagged commands became exact-only: `rm -rf dist` must not approve `rm -rf dist /`
+    return words.join(' ') === prefix || !analyzeShellCommand(trimmed).destructive
+}
+
+// `git -C repo push origin` → `git push origin`
+function withoutGlobalOptions(words: string[]): string[] {
+    if (!words[1]?.startsWith('-')) return words
+    const subIdx = findToolSubcommandIndex(words[0], words.slice(1))
+    return subIdx === -1 ? words : [words[0], ...words.slice(subIdx + 1)]
+}
+
+export function describeCommandGrant(grant: CommandGrant): string {
+    return `${grant.scope} grant (${grant.matchType}: \`${grant.command}\`)`
+}
+
+class CommandGrantStore {
+    private sessionGrants: CommandGrant[] = []
+    private workspaceGrants: CommandGrant[] = []
+    private storage?: vscode.Memento
+
+    /** Bind workspace storage and load persisted workspace grants. Safe to call multiple times. */
+    initStorage(memento: vscode.Memento) {
+        this.storage = memento
+        try {
+            const data = memento.get<CommandGrant[]>(STORAGE_KEY, []) || []
+            this.workspaceGrants = Array.isArray(data) ? data.filter(g => g && typeof g.command === 'string') : []
+        } catch {
+            // ignore load errors
+        }
+    }
+
+    private async saveToStorage(): Promise<void> {
+        try {
+            if (!this.storage) return
+            await this.storage.update(STORAGE_KEY, this.workspaceGrants)
+        } catch {
+            // ignore storage errors silently
+        }
+    }
+
+    /** Add a grant; an identical existing grant is returned instead of duplicated. */
+    add(request: CommandGrantRequest): CommandGrant {
+        const existing = this.list().find(g =>
+            g.scope === request.scope && g.matchType === request.matchType && g.command === request.command)
+        if (existing) return existing
+        const grant: CommandGrant = { ...request, id: randomUUID(), createdAt: Date.now() }
+        if (grant.scope === 'workspace') {
+            this.workspaceGrants.unshift(grant)
+            void this.saveToStorage()
+        } else {
+            this.sessionGrants.unshift(grant)
+        }
+        return grant
+    }
+
+    /** Session grants first, then workspace grants; newest first within each scope. */
+    list(): CommandGrant[] {
+        return [...this.sessionGrants, ...this.workspaceGrants]
+    }
+
+    find(command: string): CommandGrant | undefined {
+        return this.list().find(g => matchesCommandGrant(g, command))
+    }
+
+    /** Revoke a grant by id. Returns true when a grant was removed. */
+    remove(id: string): boolean {
+        const before = this.sessionGrants.length + this.workspaceGrants.length
+        this.sessionGrants = this.sessionGrants.filter(g => g.id !== id)
+        const workspaceCount = this.workspaceGrants.length
+        this.workspaceGrants = this.workspaceGrants.filter(g => g.id !== id)
+        if (this.workspaceGrants.length !== workspaceCount) void this.saveToStorage()
+        return this.sessionGrants.length + this.workspaceGrants.length !== before
+    }
+
+    clear() {
+        this.sessionGrants = []
+        if (this.workspaceGrants.length > 0) {
+            this.workspaceGrants = []
+            void this.saveToStorage()
+        }
+    }
+}
+
+export const commandGrants = new CommandGrantStore()
+
+// Initialize workspace grant storage from extension context
+export function initCommandGrantStorage(context: vscode.ExtensionContext) {
+    commandGrants.initStorage(context.workspaceState)
+}
@@ -0,0 +1,248 @@
+import { randomUUID } from 'node:crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import type { GitCheckpoint } from './git_checkpoint'
+import { redactForStorage } from './redaction'
+
+// How execute_command got (or did not get) permission to run
+export type CommandHistoryDecision = 'pending' | 'approved' | 'auto-approved' | 'denied' | 'blocked'
+
+// Execution snapshot (subset of the terminal CommandExecution); absent until the command starts
+export type CommandHistoryExecution = {
+    startedAt: number
+    endedAt?: number
+    exitCode?: number
+    signal?: string
+    shellIntegration: boolean
+}
+
+// execute_command history entry persisted into workspace storage
+export type CommandHistoryEntry = {
+    id: string
+    timestamp: number // epoch ms
+    // Command as proposed by the agent
+    proposedCommand: string
+    // Command that actually ran (differs from proposedCommand when edited in the confirmation UI)
+    command?: string
+    cwd: string
+    mode: 'terminal' | 'headless'
+    background: boolean
+    decision: CommandHistoryDecision
+    feedback?: string
+    // Policy rule that allowed or blocked the command, if any
+    policyRule?: string
+    // Session/workspace grant that allowed the command, or that the user created when approving it
+    grant?: string
+    terminalId?: number
+    execution?: CommandHistoryExecution
+    // Working-tree snapshot taken before the command ran (reliefpilot.checkpointDestructiveCommands)
+    checkpoint?: GitCheckpoint
+    // Tool result (tail-capped); the raw result when the agent got a summary
+    output?: string
+    // Uncapped raw result in extension storage, written when the agent got a summary instead
+    outputFile?: string
+    // Model summary returned to the agent instead of the output (summarizeFor)
+    summary?: string
+}
+
+type CommandHistoryPatch = Partial<Omit<CommandHistoryEntry, 'id' | 'timestamp' | 'proposedCommand'>>
+
+const STORAGE_KEY = 'reliefpilot.commandHistory.entries'
+
+// Streaming updates (execution, output) arrive in bursts; persist once they settle
+const SAVE_DEBOUNCE_MS = 1000
+
+// Keeps workspace storage bounded for chatty commands; the tail is the interesting part
+const MAX_STORED_OUTPUT_CHARS = 65536
+
+function getMaxEntries(): number {
+    const cfg = vscode.workspace.getConfiguration('reliefpilot')
+    const n = cfg.get<number>('commandHistoryMaxEntries', 50)
+    if (!Number.isFinite(n) || n <= 0) return 50
+    return Math.max(1, Math.floor(n))
+}
+
+function capOutput(output: string | undefined): string | undefined {
+    if (output === undefined || output.length <= MAX_STORED_OUTPUT_CHARS) return output
+    const dropped = output.length - MAX_STORED_OUTPUT_CHARS
+    return `(${dropped} earlier characters omitted)\n${output.slice(dropped)}`
+}
+
+class CommandHistory {
+    private entries: CommandHistoryEntry[] = []
+    private storage?: vscode.Memento
+    // Directory for outputFile; entries own their file and delete it when they are dropped
+    private outputDir?: string
+    private saveTimer?: ReturnType<typeof setTimeout>
+    private readonly changeEmitter = new vscode.EventEmitter<void>()
+
+    /** Fires after any entry is added, updated or removed. */
+    readonly onDidChange = this.changeEmitter.event
+
+    /** Bind workspace storage and load any existing entries. Safe to call multiple times. */
+    initStorage(memento: vscode.Memento, outputDir?: string) {
+        this.storage = memento
+        this.outputDir = outputDir
+        this.loadFromStorage()
+    }
+
+    private serialize(): CommandHistoryEntry[] {
+        return this.entries.map((e) => ({
+            ...e,
+            proposedCommand: redactForStorage(e.proposedCommand),
+            command: redactForStorage(e.command),
+            feedback: redactForStorage(e.feedback),
+            output: redactForStorage(e.output),
+            summary: redactForStorage(e.summary),
+        }))
+    }
+
+    private async saveToStorage(): Promise<void> {
+        try {
+            if (!this.storage) return
+            await this.storage.update(STORAGE_KEY, this.serialize())
+        } catch {
+            // ignore storage errors silently
+        }
+    }
+
+    private loadFromStorage() {
+        try {
+            if (!this.storage) return
+            const data = this.storage.get<CommandHistoryEntry[]>(STORAGE_KEY, []) || []
+            if (Array.isArray(data)) {
+                // newest first is preserved in saved order
+                this.entries = data
+                const max = getMaxEntries()
+                if (this.entries.length > max) {
+                    this.drop(this.entries.splice(max))
+                    void this.saveToStorage()
+                }
+            }
+        } catch {
+            // ignore load errors
+        }
+    }
+
+    private changed() {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined
+            void this.saveToStorage()
+        }, SAVE_DEBOUNCE_MS)
+        this.changeEmitter.fire()
+    }
+
+    /** Write a pending debounced save now (extension deactivation). */
+    flush(): Promise<void> {
+        if (!this.saveTimer) return Promise.resolve()
+        clearTimeout(this.saveTimer)
+        this.saveTimer = undefined
+        return this.saveToStorage()
+    }
+
+    add(entry: Omit<CommandHistoryEntry, 'id' | 'timestamp' | 'decision'> & { id?: string; timestamp?: number; decision?: CommandHistoryDecision }): CommandHistoryEntry {
+        const e: CommandHistoryEntry = {
+            ...entry,
+            id: typeof entry.id === 'string' && entry.id ? entry.id : randomUUID(),
+            timestamp: typeof entry.timestamp === 'number' ? entry.timestamp : Date.now(),
+            decision: entry.decision ?? 'pending',
+            output: capOutput(entry.output),
+        }
+        // push newest at head
+        this.entries.unshift(e)
+        const max = getMaxEntries()
+        if (this.entries.length > max) {
+            this.drop(this.entries.splice(max))
+        }
+        this.changed()
+        return e
+    }
+
+    /** Merge fields into an entry and persist. No-op when id not found (e.g. already trimmed). */
+    update(id: string, patch: CommandHistoryPatch) {
+        const e = this.entries.find((x) => x.id === id)
+        if (!e) return
+        Object.assign(e, patch)
+        if ('output' in patch) e.output = capOutput(patch.output)
+        this.changed()
+    }
+
+    list(): CommandHistoryEntry[] {
+        return [...this.entries]
+    }
+
+    getById(id: string): CommandHistoryEntry | undefined {
+        return this.entries.find((e) => e.id === id)
+    }
+
+    /** Remove an entry by id and persist. Returns true when an entry was removed. */
+    removeById(id: string): boolean {
+        const idx = this.entries.findIndex((e) => e.id === id)
+        if (idx === -1) return false
+        this.drop(this.entries.splice(idx, 1))
+        this.changed()
+        return true
+    }
+
+    clear() {
+        if (this.entries.length === 0) return
+        this.drop(this.entries)
+        this.entries = []
+        this.changed()
+    }
+
+    // Trim when setting changes
+    applyLimitFromSettings() {
+        const max = getMaxEntries()
+        if (this.entries.length > max) {
+            this.drop(this.entries.splice(max))
+            this.changed()
+        }
+    }
+
+    /**
+     * Save the full output of an entry to a file (history keeps only a capped tail in `output`).
+     * Returns the path, or undefined when no storage directory is bound or the write fails.
+     */
+    async saveOutputFile(id: string, output: string): Promise<string | undefined> {
+        const e = this.entries.find((x) => x.id === id)
+        if (!e || !this.outputDir) return undefined
+        try {
+            await fs.promises.mkdir(this.outputDir, { recursive: true })
+            const file = path.join(this.outputDir, `${id.replace(/[^\w-]/g, '_')}.log`)
+            await fs.promises.writeFile(file, redactForStorage(output), 'utf8')
+            e.outputFile = file
+            this.changed()
+            return file
+        } catch {
+            return undefined
+        }
+    }
+
+    // Delete the output files of entries leaving the history
+    private drop(entries: CommandHistoryEntry[]) {
+        for (const e of entries) {
+            if (e.outputFile) void fs.promises.rm(e.outputFile, { force: true }).catch(() => undefined)
+        }
+    }
+}
+
+export const commandHistory = new CommandHistory()
+
+export function registerCommandHistoryConfigWatcher(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('reliefpilot.commandHistoryMaxEntries')) {
+                commandHistory.applyLimitFromSettings()
+            }
+        }),
+    )
+}
+
+// Initialize execute_command history storage from extension context
+export function initCommandHistoryStorage(context: vscode.ExtensionContext) {
+    commandHistory.initStorage(context.workspaceState, path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'command-output'))
+    context.subscriptions.push({ dispose: () => void commandHistory.flush() })
+}
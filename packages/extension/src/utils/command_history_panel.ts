@@ -0,0 +1,135 @@
+import * as vscode from 'vscode'
+import { formatExecutionHeader, getExecutionState } from '../integrations/terminal/executionStatus'
+import { formatTimestampSeconds } from './ask_report_history'
+import { commandHistory, CommandHistoryEntry } from './command_history'
+import { env } from './env'
+
+// Single browser panel for the whole execute_command history; selecting an entry renders its details
+let panel: vscode.WebviewPanel | undefined
+let selectedId: string | undefined
+
+/** One-word status used in the list and the details header. */
+export function describeCommandHistoryStatus(entry: CommandHistoryEntry): string {
+    if (entry.decision === 'pending') return 'awaiting approval'
+    if (entry.decision === 'denied') return 'denied'
+    if (entry.decision === 'blocked') return 'blocked'
+    if (!entry.execution) return entry.output === undefined ? 'starting' : 'not started'
+    return getExecutionState({ command: entry.command ?? entry.proposedCommand, ...entry.execution })
+}
+
+export function formatCommandHistoryMarkdown(entry: CommandHistoryEntry): string {
+    const command = entry.command ?? entry.proposedCommand
+    const lines: string[] = []
+    lines.push(`### ${formatTimestampSeconds(entry.timestamp)} · ${describeCommandHistoryStatus(entry)}`)
+    lines.push('')
+    lines.push(fence(command, 'sh'))
+    lines.push('')
+    if (entry.command !== undefined && entry.command !== entry.proposedCommand) {
+        lines.push('Proposed by the agent (edited before running):')
+        lines.push('')
+        lines.push(fence(entry.proposedCommand, 'sh'))
+        lines.push('')
+    }
+    lines.push(`- Decision: \`${entry.decision}\``)
+    if (entry.policyRule) lines.push(`- Policy: ${entry.policyRule}`)
+    if (entry.grant) lines.push(`- Grant: ${entry.grant}`)
+    if (entry.feedback) lines.push(`- Feedback: ${entry.feedback}`)
+    lines.push(`- CWD: \`${entry.cwd}\``)
+    lines.push(`- Mode: \`${entry.mode}\`${entry.background ? ' (background)' : ''}`)
+    if (entry.terminalId !== undefined) lines.push(`- Terminal: \`${entry.terminalId}\``)
+    if (entry.outputFile) lines.push(`- Full output: \`${entry.outputFile}\``)
+    if (entry.checkpoint) lines.push(`- Checkpoint: \`${entry.checkpoint.id}\` (\`${entry.checkpoint.commit.slice(0, 12)}\` in \`${entry.checkpoint.root}\`)`)
+    if (entry.execution) {
+        for (const line of formatExecutionHeader({ command, ...entry.execution }).split('\n')) {
+            lines.push(`- ${line}`)
+        }
+    }
+    if (entry.summary) {
+        lines.push('')
+        lines.push('#### Summary returned to the agent')
+        lines.push('')
+        lines.push(fence(entry.summary, 'text'))
+    }
+    if (entry.output) {
+        lines.push('')
+        lines.push(entry.summary ? '#### Raw output' : '#### Tool result')
+        lines.push('')
+        lines.push(fence(entry.output, 'text'))
+    }
+    return lines.join('\n')
+}
+
+// Fence longer than any backtick run inside the content
+function fence(content: string, lang: string): string {
+    const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(m => m.length))
+    const ticks = '`'.repeat(longest + 1)
+    return `${ticks}${lang}\n${content}\n${ticks}`
+}
+
+function postState() {
+    if (!panel) return
+    const entries = commandHistory.list()
+    if (!selectedId || !entries.some(e => e.id === selectedId)) selectedId = entries[0]?.id
+    const selected = selectedId ? commandHistory.getById(selectedId) : undefined
+    panel.webview.postMessage({
+        type: 'state',
+        items: entries.map(e => ({
+            id: e.id,
+            command: e.command ?? e.proposedCommand,
+            time: formatTimestampSeconds(e.timestamp),
+            status: describeCommandHistoryStatus(e),
+        })),
+        selectedId,
+        markdown: selected ? formatCommandHistoryMarkdown(selected) : '',
+    })
+}
+
+/** Open (or reveal) the history browser, optionally selecting an entry by id. */
+export async function openCommandHistoryPanel(id?: string): Promise<void> {
+    if (id && !commandHistory.getById(id)) {
+        // The link can be clicked before execute_command records the entry
+        const deadline = Date.now() + 30000
+        while (!commandHistory.getById(id) && Date.now() < deadline) {
+            await new Promise(r => setTimeout(r, 150))
+        }
+    }
+    if (id && commandHistory.getById(id)) selectedId = id
+    if (panel) { postState(); panel.reveal(undefined, false); return }
+
+    const p = vscode.window.createWebviewPanel(
+        'reliefpilot.commandHistory',
+        'Relief Pilot: Command History',
+        { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
+        { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')] }
+    )
+    renderCommandHistoryPanel(p)
+}
+
+/** Re-render the history panel after a window reload, keeping the entry that was selected. */
+export function restoreCommandHistoryPanel(p: vscode.WebviewPanel, uid: string): boolean {
+    if (panel) return false
+    if (commandHistory.getById(uid)) selectedId = uid
+    renderCommandHistoryPanel(p)
+    return true
+}
+
+function renderCommandHistoryPanel(p: vscode.WebviewPanel): void {
+    panel = p
+    try { p.iconPath = vscode.Uri.joinPath(env.extensionUri, 'icon_mono.png') } catch { }
+    const cssUri = p.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'highlight.github.css'))
+    const enhanceCssUri = p.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'markdown-enhance.css'))
+    const markdownDepsUri = p.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'markdown-deps.js'))
+    const markdownEnhanceUri = p.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'markdown-enhance.js'))
+    const nonce = Math.random().toString(36).slice(2)
+    const csp = ["default-src 'none'", `img-src ${p.webview.cspSource} blob: data:`, `style-src ${p.webview.cspSource} 'unsafe-inline'`, `script-src 'nonce-${nonce}'`].join('; ')
+    p.webview.html = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta http-equiv="Content-Security-Policy" content="${csp}" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><link rel="stylesheet" href="${cssUri}" /><link rel="stylesheet" href="${enhanceCssUri}" /><title>Relief Pilot: Command History</title><style>html,body{height:100%;}body{margin:0;font-family:var(--vscode-font-family,system-ui,Arial,sans-serif);color:var(--vscode-foreground);background:var(--vscode-editor-background);} .layout{display:flex;height:100vh;} .col{overflow:auto;padding:12px;} .list{width:34%;min-width:220px;border-right:1px solid var(--vscode-panel-border,rgba(128,128,128,.35));} .details{flex:1;} .section-title{font-size:12px;opacity:.8;margin:0 0 8px;text-transform:uppercase;letter-spacing:.08em;} .item{padding:6px 8px;border-radius:4px;cursor:pointer;margin-bottom:2px;} .item:hover{background:var(--vscode-list-hoverBackground);} .item.selected{background:var(--vscode-list-activeSelectionBackground);color:var(--vscode-list-activeSelectionForeground);} .item code{display:block;white-space:nowrap;overflow:hidden;text-overflow:ellipsis;} .meta{font-size:11px;opacity:.75;} .markdown{line-height:1.5;} </style></head><body><div class="layout"><div class="col list"><p class="section-title">execute_command history</p><div id="items"><em class="muted">Loading…</em></div></div><div class="col details"><section class="markdown" id="contentMd"></section></div></div><script nonce="${nonce}" src="${markdownDepsUri}"></script><script nonce="${nonce}" src="${markdownEnhanceUri}"></script><script nonce="${nonce}">const vscode=acquireVsCodeApi();const list=document.getElementById('items');const el=document.getElementById('contentMd');function render(md){try{if(window.ReliefPilotMarkdownEnhancer){window.ReliefPilotMarkdownEnhancer.render(el,md,t=>{try{navigator.clipboard&&navigator.clipboard.writeText&&navigator.clipboard.writeText(t);}catch{}});}else if(window.marked){el.innerHTML=window.marked.parse(md);}else{el.textContent=md;}}catch{el.textContent=md;}}window.addEventListener('message',e=>{const msg=e.data||{};if(msg.type!=='state')return;vscode.setState({uid:msg.selectedId||''});list.textContent='';const items=msg.items||[];if(items.length===0){const em=document.createElement('em');em.textContent='No commands recorded yet.';list.appendChild(em);}for(const it of items){const div=document.createElement('div');div.className='item'+(it.id===msg.selectedId?' selected':'');const code=document.createElement('code');code.textContent=it.command;const meta=document.createElement('div');meta.className='meta';meta.textContent=it.time+' · '+it.status;div.appendChild(code);div.appendChild(meta);div.addEventListener('click',()=>vscode.postMessage({type:'select',id:it.id}));list.appendChild(div);}render(msg.markdown||'');});</script></body></html>`
+    const sub = commandHistory.onDidChange(() => postState())
+    p.webview.onDidReceiveMessage((msg: { type?: string; id?: string }) => {
+        if (msg?.type === 'select' && typeof msg.id === 'string') {
+            selectedId = msg.id
+            postState()
+        }
+    })
+    p.onDidDispose(() => { sub.dispose(); panel = undefined })
+    postState()
+}
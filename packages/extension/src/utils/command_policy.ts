@@ -0,0 +1,225 @@
+// Declarative command policy for execute_command.
+// Rules come from `reliefpilot.commandPolicy` (workspace folder, workspace and user levels)
+// and are evaluated in order: the first rule matching a command segment decides its action.
+// Evaluation is pure (no terminal, no UI) so it can be unit-tested directly.
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { log } from './log'
+import { fileWriteRedirects, parseShellSegments, ShellSegment, stripCommandWrappers } from './shell_command_analyzer'
+
+export type CommandPolicyAction = 'allow' | 'confirm' | 'deny'
+
+export type CommandPolicyMatchType = 'glob' | 'regex'
+
+export type CommandExecutionMode = 'terminal' | 'headless'
+
+export type CommandPolicyRule = {
+    action: CommandPolicyAction
+    // Pattern for a single command segment (e.g. `git status`)
+    command?: string
+    // Pattern for the absolute working directory
+    cwd?: string
+    // Pattern for the executable name of a segment (e.g. `npm`)
+    executable?: string
+    // How patterns are interpreted (default: glob)
+    matchType?: CommandPolicyMatchType
+    // Human-readable explanation surfaced in tool results
+    description?: string
+    // Forces how matching commands are run (integrated terminal or headless child process)
+    mode?: CommandExecutionMode
+}
+
+// Rule annotated with its origin so results can point the user at the right settings file
+export type ScopedCommandPolicyRule = CommandPolicyRule & {
+    scope: 'workspaceFolder' | 'workspace' | 'user'
+    index: number
+}
+
+export type CommandPolicyContext = {
+    command: string
+    cwd: string
+}
+
+export type CommandPolicyDecision = {
+    // Undefined when no rule covers the whole command (caller falls back to default behaviour)
+    action?: CommandPolicyAction
+    // Rule responsible for the decision (the deny/confirm rule, or the first allow rule)
+    rule?: ScopedCommandPolicyRule
+    // Segment that triggered the decision
+    segment?: string
+    // Execution mode required by policy; set only when every segment's rule names the same mode
+    mode?: CommandExecutionMode
+}
+
+const SETTING_KEY = 'commandPolicy'
+
+const VALID_ACTIONS: ReadonlySet<string> = new Set(['allow', 'confirm', 'deny'])
+
+/** Read rules from settings: workspace folder first, then workspace, then user. */
+export function getCommandPolicyRules(): ScopedCommandPolicyRule[] {
+    const inspected = vscode.workspace.getConfiguration('reliefpilot').inspect<unknown[]>(SETTING_KEY)
+    if (!inspected) return []
+    return [
+        ...normalizeRules(inspected.workspaceFolderValue, 'workspaceFolder'),
+        ...normalizeRules(inspected.workspaceValue, 'workspace'),
+        ...normalizeRules(inspected.globalValue, 'user'),
+    ]
+}
+
+export function normalizeRules(raw: unknown, scope: ScopedCommandPolicyRule['scope']): ScopedCommandPolicyRule[] {
+    if (!Array.isArray(raw)) return []
+    const rules: ScopedCommandPolicyRule[] = []
+    raw.forEach((item, index) => {
+        if (!item || typeof item !== 'object') return
+        const r = item as Record<string, unknown>
+        if (typeof r.action !== 'string' || !VALID_ACTIONS.has(r.action)) return
+        const command = typeof r.command === 'string' && r.command ? r.command : undefined
+        const cwd = typeof r.cwd === 'string' && r.cwd ? r.cwd : undefined
+        const executable = typeof r.executable === 'string' && r.executable ? r.executable : undefined
+        // A rule without any pattern would match everything; treat it as a configuration mistake
+        if (!command && !cwd && !executable) return
+        rules.push({
+            action: r.action as CommandPolicyAction,
+            command,
+            cwd,
+            executable,
+            matchType: r.matchType === 'regex' ? 'regex' : 'glob',
+            description: typeof r.description === 'string' ? r.description : undefined,
+            mode: r.mode === 'terminal' || r.mode === 'headless' ? r.mode : undefined,
+            scope,
+            index,
+        })
+    })
+    return rules
+}
+
+/**
+ * Evaluate rules against a command.
+ * The command is split into simple command segments (chains, pipelines, subshells and
+ * `$(...)` substitutions) by the shell analyzer and every segment is matched separately,
+ * so an allow rule for `git status` never auto-runs `git status && rm -rf /`.
+ * Deny and confirm rules also see the segment with assignments and wrappers stripped
+ * (`sudo rm  -rf /` is checked as `rm -rf /`); allow rules never do, so `allow: rm *`
+ * does not auto-run `sudo rm ...`. Allow rules also skip segments that redirect output into a file.
+ * - any segment denied → deny
+ * - otherwise any segment requiring confirmation → confirm
+ * - every segment allowed → allow
+ * - otherwise → no decision
+ * Independently, `mode` is reported when the rules of all segments agree on one.
+ */
+export function evaluateCommandPolicy(
+    rules: ScopedCommandPolicyRule[],
+    ctx: CommandPolicyContext,
+): CommandPolicyDecision {
+    if (rules.length === 0) return {}
+    const segments = parseShellSegments(ctx.command)
+    if (segments.length === 0) return {}
+
+    let confirm: CommandPolicyDecision | undefined
+    let firstAllow: CommandPolicyDecision | undefined
+    let allAllowed = true
+    const modes = new Set<CommandExecutionMode | undefined>()
+
+    for (const segment of segments) {
+        const rule = rules.find((r) => ruleMatches(r, segment, ctx.cwd))
+        modes.add(rule?.mode)
+        if (!rule) {
+            allAllowed = false
+            continue
+        }
+        if (rule.action === 'deny') {
+            return { action: 'deny', rule, segment: segment.text }
+        }
+        if (rule.action === 'confirm') {
+            allAllowed = false
+            confirm = confirm ?? { action: 'confirm', rule, segment: segment.text }
+            continue
+        }
+        firstAllow = firstAllow ?? { action: 'allow', rule, segment: segment.text }
+    }
+
+    const [onlyMode] = modes
+    const mode = modes.size === 1 ? onlyMode : undefined
+    const withMode = (decision: CommandPolicyDecision): CommandPolicyDecision => (mode ? { ...decision, mode } : decision)
+
+    if (confirm) return withMode(confirm)
+    if (allAllowed && firstAllow) return withMode(firstAllow)
+    return withMode({})
+}
+
+/** Human-readable reference to a rule, e.g. `user rule #2 "no force push"`. */
+export function describePolicyRule(rule: ScopedCommandPolicyRule): string {
+    const scope = rule.scope === 'workspaceFolder' ? 'workspace folder' : rule.scope
+    const patterns = [
+        rule.command ? `command ${rule.matchType}: ${rule.command}` : undefined,
+        rule.executable ? `executable ${rule.matchType}: ${rule.executable}` : undefined,
+        rule.cwd ? `cwd ${rule.matchType}: ${rule.cwd}` : undefined,
+    ].filter((p): p is string => typeof p === 'string')
+    const label = rule.description ? ` "${rule.description}"` : ''
+    return `${scope} rule #${rule.index + 1}${label} (${patterns.join(', ')})`
+}
+
+function ruleMatches(rule: ScopedCommandPolicyRule, segment: ShellSegment, cwd: string): boolean {
+    // Allow rules vouch for a command, not for where its output goes: `git status > ~/.bashrc` is not `git status`
+    if (rule.action === 'allow' && fileWriteRedirects(segment).length > 0) return false
+    const matchType = rule.matchType ?? 'glob'
+    // Raw text keeps quote-sensitive regex rules working; joined words collapse whitespace and quoting
+    const commands = [segment.text, segment.words.join(' ')]
+    const executables = [getExecutableName(segment.text)]
+    if (rule.action !== 'allow') {
+        const effective = stripCommandWrappers(segment.words).words
+        if (effective.length > 0) {
+            commands.push(effective.join(' '))
+            executables.push(path.basename(effective[0]))
+        }
+    }
+    const { command, executable } = rule
+    if (command && !commands.some((c) => matchPattern(command, c, matchType))) return false
+    if (executable && !executables.some((e) => e !== undefined && matchPattern(executable, e, matchType))) return false
+    if (rule.cwd && !matchPattern(rule.cwd, cwd, matchType)) return false
+    return true
+}
+
+function matchPattern(pattern: string, value: string, matchType: CommandPolicyMatchType): boolean {
+    const re = matchType === 'regex' ? compileRegex(pattern) : globToRegExp(pattern)
+    return re ? re.test(value) : false
+}
+
+const regexCache = new Map<string, RegExp | undefined>()
+
+function compileRegex(pattern: string): RegExp | undefined {
+    if (regexCache.has(pattern)) return regexCache.get(pattern)
+    let re: RegExp | undefined
+    try {
+        re = new RegExp(pattern)
+    } catch (err) {
+        log(`reliefpilot.commandPolicy: invalid regex "${pattern}": ${err instanceof Error ? err.message : String(err)}`)
+        re = undefined
+    }
+    regexCache.set(pattern, re)
+    return re
+}
+
+/** Glob: `*` matches any run of characters, `?` a single character; anchored on both ends. */
+export function globToRegExp(glob: string): RegExp {
+    let source = ''
+    for (const ch of glob) {
+        if (ch === '*') source += '.*'
+        else if (ch === '?') source += '.'
+        else source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+    return new RegExp(`^${source.replace(/(\.\*)+/g, '.*')}$`, 's')
+}
+
+/** Simple command segments (chains, pipelines and substitutions flattened) as written. */
+export function splitCommandSegments(command: string): string[] {
+    return parseShellSegments(command).map((s) => s.text)
+}
+
+/** Executable of a single segment, skipping leading `VAR=value` assignments. */
+export function getExecutableName(segment: string): string | undefined {
+    const tokens = segment.trim().split(/\s+/)
+    const first = tokens.find((t) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(t))
+    if (!first) return undefined
+    return path.basename(first.replace(/^["']|["']$/g, ''))
+}
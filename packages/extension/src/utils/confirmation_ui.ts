@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { CommandGrantRequest, suggestGrantPrefix } from './command_grants';
 
 /**
  * InputBox
@@ -7,16 +8,22 @@ export class ConfirmationUI {
   /**
    * Show an InputBox-based confirmation with editable command text.
    * Returns the user's decision and the (possibly edited) command.
+   * An optional detail (e.g. why the classifier flagged the command) is shown below the input.
+   * The "Always allow" button approves and also returns a session or workspace grant for the command.
    */
   static async confirmCommandWithInputBox(
     message: string,
     initialCommand: string,
     approveLabel: string,
-    denyLabel: string
-  ): Promise<{ decision: 'Approve' | 'Deny'; command: string; feedback?: string }> {
+    denyLabel: string,
+    detail?: string
+  ): Promise<{ decision: 'Approve' | 'Deny'; command: string; feedback?: string; grant?: CommandGrantRequest }> {
     const inputBox = vscode.window.createInputBox();
     inputBox.title = message;
     inputBox.value = initialCommand;
+    if (detail) {
+      inputBox.prompt = detail;
+    }
     // Place cursor at the start without selection
     inputBox.valueSelection = [0, 0];
     inputBox.ignoreFocusOut = true;
@@ -29,16 +36,32 @@ export class ConfirmationUI {
       iconPath: new vscode.ThemeIcon('x'),
       tooltip: denyLabel,
     };
-    inputBox.buttons = [approveButton, denyButton];
+    const alwaysButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon('check-all'),
+      tooltip: `${approveLabel} and always allow…`,
+    };
+    inputBox.buttons = [approveButton, alwaysButton, denyButton];
 
     return await new Promise((resolve) => {
       let handled = false; // set true when approve/deny button is used
-      const approve = () => {
+      const approve = (grant?: CommandGrantRequest) => {
         handled = true;
         const cmd = inputBox.value;
         inputBox.hide();
         inputBox.dispose();
-        resolve({ decision: 'Approve', command: cmd });
+        resolve({ decision: 'Approve', command: cmd, grant });
+      };
+      const approveAlways = async () => {
+        handled = true;
+        inputBox.hide();
+        const grant = await ConfirmationUI.pickCommandGrant(inputBox.value);
+        if (grant) {
+          approve(grant);
+        } else {
+          // Dismissed => back to the command
+          handled = false;
+          inputBox.show();
+        }
       };
       const deny = async () => {
         handled = true;
@@ -98,6 +121,8 @@ export class ConfirmationUI {
       inputBox.onDidTriggerButton((btn) => {
         if (btn === approveButton) {
           approve();
+        } else if (btn === alwaysButton) {
+          approveAlways();
         } else if (btn === denyButton) {
           deny();
         }
@@ -116,6 +141,37 @@ export class ConfirmationUI {
     });
   }
 
+  /**
+   * Let the user choose what to always allow: the exact command or its prefix, for this session or workspace.
+   * Returns undefined when dismissed.
+   */
+  private static async pickCommandGrant(command: string): Promise<CommandGrantRequest | undefined> {
+    const exact = command.trim();
+    const prefix = suggestGrantPrefix(exact);
+    const items: Array<vscode.QuickPickItem & { grant: CommandGrantRequest }> = [];
+    for (const scope of ['session', 'workspace'] as const) {
+      const where = scope === 'session' ? 'this session' : 'this workspace';
+      items.push({
+        label: `$(check) Exact command in ${where}`,
+        description: exact,
+        grant: { scope, matchType: 'exact', command: exact },
+      });
+      if (prefix && prefix !== exact) {
+        items.push({
+          label: `$(check-all) Commands starting with \`${prefix}\` in ${where}`,
+          description: 'Chained, piped or redirected commands still ask',
+          grant: { scope, matchType: 'prefix', command: prefix },
+        });
+      }
+    }
+    const pick = await vscode.window.showQuickPick(items, {
+      title: 'Always allow',
+      placeHolder: 'Choose what to approve without asking (revoke via Relief Pilot menu)',
+      ignoreFocusOut: true,
+    });
+    return pick?.grant;
+  }
+
   /**
    * Shows an InputBox-based confirmation UI.
    * @param message Confirmation message.
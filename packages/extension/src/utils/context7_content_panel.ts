@@ -1,7 +1,7 @@
 // Webview panel to display the static markdown content produced by Context7 tools.
 // Unlike ai_fetch_url progress panel this is a single column with final content only.
 import * as vscode from 'vscode'
-import { getContext7ContentSession } from './context7_content_sessions'
+import { Context7ContentSession, getContext7ContentSession } from './context7_content_sessions'
 import { env } from './env'
 
 export async function openContext7ContentPanelByUid(uid: string): Promise<void> {
@@ -33,6 +33,19 @@ export async function openContext7ContentPanelByUid(uid: string): Promise<void>
       localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')],
     },
   )
+
+  renderContext7ContentPanel(panel, session)
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreContext7ContentPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+  const session = getContext7ContentSession(uid)
+  if (!session || session.panel) return false
+  renderContext7ContentPanel(panel, session)
+  return true
+}
+
+function renderContext7ContentPanel(panel: vscode.WebviewPanel, session: Context7ContentSession): void {
   session.panel = panel
 
   try {
@@ -82,6 +95,8 @@ export async function openContext7ContentPanelByUid(uid: string): Promise<void>
     <script nonce="${nonce}" src="${markdownEnhanceUri}"></script>
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
+      // Lets the panel serializer restore this panel after a window reload
+      vscode.setState({ uid: ${JSON.stringify(session.uid)} });
       const elContent = document.getElementById('contentMd');
       window.addEventListener('message', (e) => {
         const msg = e.data || {}; if (msg.type === 'content') {
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode'
-import { getDuckDuckGoContentSession } from './duckduckgo_search_content_sessions'
+import { DuckDuckGoContentSession, getDuckDuckGoContentSession } from './duckduckgo_search_content_sessions'
 import { env } from './env'
 
 export async function openDuckDuckGoContentPanelByUid(uid: string): Promise<void> {
@@ -22,6 +22,19 @@ export async function openDuckDuckGoContentPanelByUid(uid: string): Promise<void
         { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
         { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')] }
     )
+
+    renderDuckDuckGoContentPanel(panel, session)
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreDuckDuckGoContentPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+    const session = getDuckDuckGoContentSession(uid)
+    if (!session || session.panel) return false
+    renderDuckDuckGoContentPanel(panel, session)
+    return true
+}
+
+function renderDuckDuckGoContentPanel(panel: vscode.WebviewPanel, session: DuckDuckGoContentSession): void {
     session.panel = panel
     try { panel.iconPath = vscode.Uri.joinPath(env.extensionUri, 'icon_mono.png') } catch { }
     const cssUri = panel.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'highlight.github.css'))
@@ -30,7 +43,7 @@ export async function openDuckDuckGoContentPanelByUid(uid: string): Promise<void
     const markdownEnhanceUri = panel.webview.asWebviewUri(vscode.Uri.joinPath(env.extensionUri, 'media', 'markdown-enhance.js'))
     const nonce = Math.random().toString(36).slice(2)
     const csp = ["default-src 'none'", `img-src ${panel.webview.cspSource} blob: data:`, `style-src ${panel.webview.cspSource} 'unsafe-inline'`, `script-src 'nonce-${nonce}'`].join('; ')
-    panel.webview.html = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta http-equiv="Content-Security-Policy" content="${csp}" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><link rel="stylesheet" href="${cssUri}" /><link rel="stylesheet" href="${enhanceCssUri}" /><title>Relief Pilot: DuckDuckGo Content</title><style>html,body{height:100%;}body{margin:0;font-family:var(--vscode-font-family,system-ui,Arial,sans-serif);color:var(--vscode-foreground);background:var(--vscode-editor-background);} .layout{display:flex;flex-direction:column;height:100vh;} .col{overflow:auto;padding:12px;} .section-title{font-size:12px;opacity:.8;margin:0 0 8px;text-transform:uppercase;letter-spacing:.08em;} .markdown{line-height:1.5;} </style></head><body><div class="layout"><div class="col"><p class="section-title">DuckDuckGo Tool Output (Markdown)</p><section class="markdown" id="contentMd">${session.contentBuffer ? '' : '<em class="muted">Loading…</em>'}</section></div></div><script nonce="${nonce}" src="${markdownDepsUri}"></script><script nonce="${nonce}" src="${markdownEnhanceUri}"></script><script nonce="${nonce}">const vscode=acquireVsCodeApi();const el=document.getElementById('contentMd');window.addEventListener('message',e=>{const msg=e.data||{};if(msg.type==='content'){try{if(window.ReliefPilotMarkdownEnhancer){window.ReliefPilotMarkdownEnhancer.render(el,msg.markdown||'',t=>{try{navigator.clipboard&&navigator.clipboard.writeText&&navigator.clipboard.writeText(t);}catch{}});}else if(window.marked){el.innerHTML=window.marked.parse(msg.markdown||'');}else{el.textContent=msg.markdown||'';}}catch{el.textContent=msg.markdown||'';}}});</script></body></html>`
+    panel.webview.html = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta http-equiv="Content-Security-Policy" content="${csp}" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><link rel="stylesheet" href="${cssUri}" /><link rel="stylesheet" href="${enhanceCssUri}" /><title>Relief Pilot: DuckDuckGo Content</title><style>html,body{height:100%;}body{margin:0;font-family:var(--vscode-font-family,system-ui,Arial,sans-serif);color:var(--vscode-foreground);background:var(--vscode-editor-background);} .layout{display:flex;flex-direction:column;height:100vh;} .col{overflow:auto;padding:12px;} .section-title{font-size:12px;opacity:.8;margin:0 0 8px;text-transform:uppercase;letter-spacing:.08em;} .markdown{line-height:1.5;} </style></head><body><div class="layout"><div class="col"><p class="section-title">DuckDuckGo Tool Output (Markdown)</p><section class="markdown" id="contentMd">${session.contentBuffer ? '' : '<em class="muted">Loading…</em>'}</section></div></div><script nonce="${nonce}" src="${markdownDepsUri}"></script><script nonce="${nonce}" src="${markdownEnhanceUri}"></script><script nonce="${nonce}">const vscode=acquireVsCodeApi();vscode.setState({uid:${JSON.stringify(session.uid)}});const el=document.getElementById('contentMd');window.addEventListener('message',e=>{const msg=e.data||{};if(msg.type==='content'){try{if(window.ReliefPilotMarkdownEnhancer){window.ReliefPilotMarkdownEnhancer.render(el,msg.markdown||'',t=>{try{navigator.clipboard&&navigator.clipboard.writeText&&navigator.clipboard.writeText(t);}catch{}});}else if(window.marked){el.innerHTML=window.marked.parse(msg.markdown||'');}else{el.textContent=msg.markdown||'';}}catch{el.textContent=msg.markdown||'';}}});</script></body></html>`
     const sub = session.contentEmitter.event((md: string) => panel.webview.postMessage({ type: 'content', markdown: md }))
     panel.onDidDispose(() => { sub.dispose(); if (session) session.panel = undefined })
     if (session.contentBuffer) panel.webview.postMessage({ type: 'content', markdown: session.contentBuffer })
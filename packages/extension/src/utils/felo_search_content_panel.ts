@@ -1,7 +1,7 @@
 // Webview panel to display the static markdown content produced by Felo tool.
 import * as vscode from 'vscode'
 import { env } from './env'
-import { getFeloContentSession } from './felo_search_content_sessions'
+import { FeloContentSession, getFeloContentSession } from './felo_search_content_sessions'
 
 export async function openFeloContentPanelByUid(uid: string): Promise<void> {
     let session = getFeloContentSession(uid)
@@ -32,6 +32,19 @@ export async function openFeloContentPanelByUid(uid: string): Promise<void> {
             localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')],
         },
     )
+
+    renderFeloContentPanel(panel, session)
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreFeloContentPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+    const session = getFeloContentSession(uid)
+    if (!session || session.panel) return false
+    renderFeloContentPanel(panel, session)
+    return true
+}
+
+function renderFeloContentPanel(panel: vscode.WebviewPanel, session: FeloContentSession): void {
     session.panel = panel
 
     try {
@@ -81,6 +94,8 @@ export async function openFeloContentPanelByUid(uid: string): Promise<void> {
     <script nonce="${nonce}" src="${markdownEnhanceUri}"></script>
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
+      // Lets the panel serializer restore this panel after a window reload
+      vscode.setState({ uid: ${JSON.stringify(session.uid)} });
       const elContent = document.getElementById('contentMd');
       window.addEventListener('message', (e) => {
         const msg = e.data || {}; if (msg.type === 'content') {
@@ -1,5 +1,6 @@
 // Shared session registry for Felo tool (felo_search)
 import * as vscode from 'vscode'
+import { redactForStorage } from './redaction'
 
 export interface FeloContentSession {
     uid: string
@@ -61,7 +62,7 @@ class FeloSessionManager {
         return this.sessions.map(s => ({
             uid: s.uid,
             tool: s.tool,
-            contentBuffer: s.contentBuffer
+            contentBuffer: redactForStorage(s.contentBuffer)
         }))
     }
 
@@ -0,0 +1,160 @@
+// Working-tree checkpoints taken before destructive execute_command runs.
+// A checkpoint is a shadow commit built with a temporary index (GIT_INDEX_FILE), so the user's index,
+// branches and stash are never touched; it is kept alive by a ref under refs/reliefpilot/checkpoints/.
+// Untracked files are included, ignored files are not. No VS Code APIs are used so this can be unit-tested directly.
+import { execFile } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+export const CHECKPOINT_REF_PREFIX = 'refs/reliefpilot/checkpoints/'
+
+// Ref names start with a creation stamp (`<stamp>-<id>`) that orders checkpoints for pruning
+let lastStamp = 0
+
+function nextStamp(): number {
+    lastStamp = Math.max(Date.now(), lastStamp + 1)
+    return lastStamp
+}
+
+export type GitCheckpoint = {
+    id: string
+    // Repository root the checkpoint belongs to
+    root: string
+    ref: string
+    commit: string
+    createdAt: number // epoch ms
+}
+
+export type CheckpointRestoreResult = {
+    // Files written back from the checkpoint
+    restored: string[]
+    // Files created after the checkpoint that were deleted
+    removed: string[]
+    // Snapshot of the state right before the restore, so the restore itself can be undone
+    backup: GitCheckpoint
+}
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, env: { ...process.env, ...env }, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+            if (err) reject(new Error(`git ${args[0]} failed: ${(stderr || err.message).trim()}`))
+            else resolve(stdout)
+        })
+    })
+}
+
+/** Repository root containing cwd, or undefined outside a git work tree (or without git). */
+export async function findGitRoot(cwd: string): Promise<string | undefined> {
+    try {
+        const out = await git(cwd, ['rev-parse', '--show-toplevel'])
+        return out.trim() || undefined
+    } catch {
+        return undefined
+    }
+}
+
+// Run fn with a throwaway index file; the user's .git/index is left alone
+async function withTemporaryIndex<T>(fn: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reliefpilot-index-'))
+    try {
+        return await fn({ GIT_INDEX_FILE: path.join(dir, 'index') })
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+    }
+}
+
+// Tree object of the current working tree (tracked and untracked, minus ignored files)
+async function snapshotTree(root: string, env: NodeJS.ProcessEnv): Promise<string> {
+    try {
+        await git(root, ['read-tree', 'HEAD'], env)
+    } catch {
+        // Unborn branch: start from an empty index
+    }
+    await git(root, ['add', '-A', '--', '.'], env)
+    return (await git(root, ['write-tree'], env)).trim()
+}
+
+/** Snapshot the working tree of the repository containing cwd. Undefined outside a git work tree. */
+export async function createCheckpoint(cwd: string, message: string): Promise<GitCheckpoint | undefined> {
+    const root = await findGitRoot(cwd)
+    if (!root) return undefined
+    return withTemporaryIndex(async (env) => {
+        const tree = await snapshotTree(root, env)
+        const parents: string[] = []
+        try {
+            parents.push('-p', (await git(root, ['rev-parse', '--verify', 'HEAD'])).trim())
+        } catch {
+            // no parent on an unborn branch
+        }
+        const commit = (await git(root, ['commit-tree', tree, ...parents, '-m', message], {
+            ...env,
+            // commit-tree needs an identity; do not depend on the user's git config
+            GIT_AUTHOR_NAME: 'Relief Pilot',
+            GIT_AUTHOR_EMAIL: 'reliefpilot@localhost',
+            GIT_COMMITTER_NAME: 'Relief Pilot',
+            GIT_COMMITTER_EMAIL: 'reliefpilot@localhost',
+        })).trim()
+        const id = randomUUID().slice(0, 8)
+        const createdAt = nextStamp()
+        const ref = `${CHECKPOINT_REF_PREFIX}${createdAt}-${id}`
+        await git(root, ['update-ref', ref, commit])
+        return { id, root, ref, commit, createdAt }
+    })
+}
+
+/**
+ * Reset the working tree to a checkpoint: files are written back and files created since are removed.
+ * The index, HEAD and ignored files are untouched. A backup checkpoint of the current state is taken first.
+ */
+export async function restoreCheckpoint(checkpoint: GitCheckpoint): Promise<CheckpointRestoreResult> {
+    const { root } = checkpoint
+    await git(root, ['cat-file', '-e', `${checkpoint.commit}^{commit}`]).catch(() => {
+        throw new Error(`Checkpoint ${checkpoint.id} no longer exists in ${root}.`)
+    })
+    const backup = await createCheckpoint(root, `Relief Pilot: before restoring checkpoint ${checkpoint.id}`)
+    if (!backup) throw new Error(`${root} is no longer a git work tree.`)
+
+    const diff = await git(root, ['diff', '--name-status', '--no-renames', '-z', checkpoint.commit, backup.commit])
+    const restored: string[] = []
+    const removed: string[] = []
+    const fields = diff.split('\0').filter(Boolean)
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+        const status = fields[i]
+        const file = fields[i + 1]
+        if (status === 'A') removed.push(file)
+        else restored.push(file)
+    }
+
+    for (const file of removed) {
+        fs.rmSync(path.join(root, file), { force: true })
+    }
+    if (restored.length > 0) {
+        await withTemporaryIndex(async (env) => {
+            await git(root, ['read-tree', checkpoint.commit], env)
+            // Chunked to stay below command-line length limits
+            for (let i = 0; i < restored.length; i += 500) {
+                await git(root, ['checkout-index', '-f', '--', ...restored.slice(i, i + 500)], env)
+            }
+        })
+    }
+    return { restored, removed, backup }
+}
+
+/**
+ * Delete checkpoint refs of a repository except the newest `keep` ones.
+ * Order comes from the stamp in the ref name: commit dates have one-second resolution and follow the
+ * system clock, so they cannot tell apart checkpoints taken in quick succession.
+ */
+export async function pruneCheckpoints(root: string, keep: number): Promise<number> {
+    const out = await git(root, ['for-each-ref', '--format=%(refname)', CHECKPOINT_REF_PREFIX])
+    const stampOf = (ref: string) => Number(/^(\d+)-/.exec(ref.slice(CHECKPOINT_REF_PREFIX.length))?.[1] ?? 0)
+    const refs = out.split('\n').map((l) => l.trim()).filter(Boolean)
+        .sort((a, b) => stampOf(b) - stampOf(a))
+        .slice(Math.max(0, keep))
+    for (const ref of refs) {
+        await git(root, ['update-ref', '-d', ref])
+    }
+    return refs.length
+}
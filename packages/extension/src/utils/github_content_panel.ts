@@ -2,7 +2,7 @@
 // Single column with final content only.
 import * as vscode from 'vscode'
 import { env } from './env'
-import { getGithubContentSession } from './github_content_sessions'
+import { getGithubContentSession, GithubContentSession } from './github_content_sessions'
 
 export async function openGithubContentPanelByUid(uid: string): Promise<void> {
   let session = getGithubContentSession(uid)
@@ -33,6 +33,19 @@ export async function openGithubContentPanelByUid(uid: string): Promise<void> {
       localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')],
     },
   )
+
+  renderGithubContentPanel(panel, session)
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreGithubContentPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+  const session = getGithubContentSession(uid)
+  if (!session || session.panel) return false
+  renderGithubContentPanel(panel, session)
+  return true
+}
+
+function renderGithubContentPanel(panel: vscode.WebviewPanel, session: GithubContentSession): void {
   session.panel = panel
 
   try {
@@ -82,6 +95,8 @@ export async function openGithubContentPanelByUid(uid: string): Promise<void> {
     <script nonce="${nonce}" src="${markdownEnhanceUri}"></script>
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
+      // Lets the panel serializer restore this panel after a window reload
+      vscode.setState({ uid: ${JSON.stringify(session.uid)} });
       const elContent = document.getElementById('contentMd');
       window.addEventListener('message', (e) => {
         const msg = e.data || {}; if (msg.type === 'content') {
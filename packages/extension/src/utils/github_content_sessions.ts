@@ -2,6 +2,7 @@
 // Each session stores final markdown content for a single tool invocation and allows
 // a webview panel to render it on demand via a command link.
 import * as vscode from 'vscode'
+import { redactForStorage } from './redaction'
 
 export interface GithubContentSession {
     uid: string
@@ -63,7 +64,7 @@ class GithubSessionManager {
         return this.sessions.map(s => ({
             uid: s.uid,
             tool: s.tool,
-            contentBuffer: s.contentBuffer
+            contentBuffer: redactForStorage(s.contentBuffer)
         }))
     }
 
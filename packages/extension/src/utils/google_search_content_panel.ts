@@ -2,7 +2,7 @@
 // Single column with final content only.
 import * as vscode from 'vscode'
 import { env } from './env'
-import { getGoogleContentSession } from './google_search_content_sessions'
+import { getGoogleContentSession, GoogleContentSession } from './google_search_content_sessions'
 
 export async function openGoogleContentPanelByUid(uid: string): Promise<void> {
   let session = getGoogleContentSession(uid)
@@ -33,6 +33,19 @@ export async function openGoogleContentPanelByUid(uid: string): Promise<void> {
       localResourceRoots: [vscode.Uri.joinPath(env.extensionUri, 'media')],
     },
   )
+
+  renderGoogleContentPanel(panel, session)
+}
+
+// Re-render a panel restored after a window reload; false when the session is gone
+export function restoreGoogleContentPanel(panel: vscode.WebviewPanel, uid: string): boolean {
+  const session = getGoogleContentSession(uid)
+  if (!session || session.panel) return false
+  renderGoogleContentPanel(panel, session)
+  return true
+}
+
+function renderGoogleContentPanel(panel: vscode.WebviewPanel, session: GoogleContentSession): void {
   session.panel = panel
 
   try {
@@ -82,6 +95,8 @@ export async function openGoogleContentPanelByUid(uid: string): Promise<void> {
     <script nonce="${nonce}" src="${markdownEnhanceUri}"></script>
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
+      // Lets the panel serializer restore this panel after a window reload
+      vscode.setState({ uid: ${JSON.stringify(session.uid)} });
       const elContent = document.getElementById('contentMd');
       window.addEventListener('message', (e) => {
         const msg = e.data || {}; if (msg.type === 'content') {
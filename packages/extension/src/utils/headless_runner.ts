@@ -0,0 +1,128 @@
+// Headless command execution for execute_command (mode: 'headless').
+// Runs a shell command as a Node child process instead of an integrated terminal: stdout and stderr
+// are captured separately, the process tree is killed when the timeout elapses, and each stream
+// is capped to keep tool results bounded. No VS Code APIs are used so this can be unit-tested directly.
+import { spawn } from 'node:child_process'
+
+export type HeadlessRunOptions = {
+    cwd: string
+    // Hard limit: the process tree is killed with SIGKILL when it elapses
+    timeoutMs: number
+    // Per-stream cap; only the last maxOutputBytes of each stream are kept
+    maxOutputBytes: number
+    env?: NodeJS.ProcessEnv
+    // Shell executable to run the command with (defaults to /bin/sh or cmd.exe)
+    shell?: string
+}
+
+export type HeadlessRunResult = {
+    stdout: string
+    stderr: string
+    // Null when the process was killed by a signal or could not be started
+    exitCode: number | null
+    signal: string | null
+    timedOut: boolean
+    // Number of bytes dropped from the start of each stream because of maxOutputBytes
+    droppedBytes: { stdout: number; stderr: number }
+    startedAt: number
+    endedAt: number
+    // Spawn failure (e.g. missing working directory)
+    error?: string
+}
+
+/** Keeps the tail of a byte stream within a fixed budget. */
+class TailBuffer {
+    private chunks: Buffer[] = []
+    private size = 0
+    dropped = 0
+
+    constructor(private readonly limit: number) { }
+
+    push(chunk: Buffer) {
+        this.chunks.push(chunk)
+        this.size += chunk.length
+        while (this.size - this.chunks[0].length >= this.limit) {
+            const first = this.chunks.shift() as Buffer
+            this.size -= first.length
+            this.dropped += first.length
+        }
+    }
+
+    toString(): string {
+        let buf = Buffer.concat(this.chunks)
+        if (buf.length > this.limit) {
+            this.dropped += buf.length - this.limit
+            buf = buf.subarray(buf.length - this.limit)
+        }
+        // A cut may land inside a multi-byte character; drop leading continuation bytes
+        let start = 0
+        while (this.dropped > 0 && start < buf.length && (buf[start] & 0xc0) === 0x80) start++
+        return buf.subarray(start).toString('utf8')
+    }
+}
+
+export function runHeadless(command: string, options: HeadlessRunOptions): Promise<HeadlessRunResult> {
+    const startedAt = Date.now()
+    const stdout = new TailBuffer(Math.max(1, options.maxOutputBytes))
+    const stderr = new TailBuffer(Math.max(1, options.maxOutputBytes))
+
+    return new Promise<HeadlessRunResult>((resolve) => {
+        let timedOut = false
+        let settled = false
+        const isWindows = process.platform === 'win32'
+
+        const child = spawn(command, {
+            cwd: options.cwd,
+            env: options.env ?? process.env,
+            shell: options.shell ?? true,
+            // Own process group on POSIX so the whole tree can be killed on timeout
+            detached: !isWindows,
+            windowsHide: true,
+            // No stdin: commands waiting for input fail fast instead of hanging until the timeout
+            stdio: ['ignore', 'pipe', 'pipe'],
+        })
+
+        const finish = (exitCode: number | null, signal: string | null, error?: string) => {
+            if (settled) return
+            settled = true
+            clearTimeout(timer)
+            const out = stdout.toString()
+            const err = stderr.toString()
+            resolve({
+                stdout: out,
+                stderr: err,
+                exitCode,
+                signal,
+                timedOut,
+                droppedBytes: { stdout: stdout.dropped, stderr: stderr.dropped },
+                startedAt,
+                endedAt: Date.now(),
+                error,
+            })
+        }
+
+        const timer = setTimeout(() => {
+            timedOut = true
+            killProcessTree(child.pid, isWindows, () => child.kill('SIGKILL'))
+        }, options.timeoutMs)
+
+        child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk))
+        child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk))
+        child.on('error', (err) => finish(null, null, err.message))
+        // 'close' fires after the stdio streams are drained
+        child.on('close', (code, signal) => finish(code, signal))
+    })
+}
+
+function killProcessTree(pid: number | undefined, isWindows: boolean, fallback: () => void) {
+    if (pid === undefined) return
+    try {
+        if (isWindows) {
+            spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true, stdio: 'ignore' })
+        } else {
+            process.kill(-pid, 'SIGKILL')
+        }
+    } catch {
+        fallback()
+    }
+}
@@ -0,0 +1,14 @@
+// Extension log: lines go to the Relief Pilot output channel created in activate().
+// Before activation (and in unit tests) they fall back to the console.
+import * as vscode from 'vscode'
+
+let channel: vscode.OutputChannel | undefined
+
+export function initLog(outputChannel: vscode.OutputChannel) {
+    channel = outputChannel
+}
+
+export function log(message: string) {
+    if (channel) channel.appendLine(`[${new Date().toISOString()}] ${message}`)
+    else console.log(message)
+}
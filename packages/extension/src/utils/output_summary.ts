@@ -0,0 +1,79 @@
+// Opt-in summaries of long command output (`summarizeFor` of execute_command and get_terminal_output).
+// The output goes through a configurable chat model and prompt that keep only failures, stack traces and the final summary.
+import * as vscode from 'vscode'
+import { redact } from './redaction'
+import { prepareContentWithinBudget } from './token_budget'
+
+// Placeholders replaced in reliefpilot.outputSummaryPrompt
+const COMMAND_PLACEHOLDER = '__OUTPUT_SUMMARY_COMMAND__'
+const FOCUS_PLACEHOLDER = '__OUTPUT_SUMMARY_FOCUS__'
+
+export type OutputSummary = {
+    text: string
+    modelId: string
+    // The output did not fit the model's input budget; only its end was summarized
+    truncated: boolean
+}
+
+/** Outputs shorter than reliefpilot.outputSummaryMinChars are returned as is; summarizing them costs more than it saves. */
+export function getOutputSummaryMinChars(): number {
+    const n = vscode.workspace.getConfiguration('reliefpilot').get<number>('outputSummaryMinChars', 4000)
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 4000
+}
+
+// Falls back to the ai_fetch_url model so the feature works without extra setup
+function getSummaryModelId(): string | undefined {
+    const cfg = vscode.workspace.getConfiguration('reliefpilot')
+    const own = cfg.get<string>('outputSummaryModel', '')?.trim()
+    return own || cfg.get<string>('AiFetchUrlModel')?.trim() || undefined
+}
+
+/**
+ * Extract what matters for `focus` (e.g. "failing tests") from the output of `command`.
+ * Throws when language models are unavailable or not configured.
+ */
+export async function summarizeCommandOutput(
+    output: string,
+    command: string,
+    focus: string,
+    token?: vscode.CancellationToken,
+): Promise<OutputSummary> {
+    if (!vscode.lm) {
+        throw new Error('Language model APIs are unavailable in this VS Code instance.')
+    }
+    const modelId = getSummaryModelId()
+    if (!modelId) {
+        throw new Error('Missing configuration: reliefpilot.outputSummaryModel')
+    }
+    const promptTemplate = vscode.workspace.getConfiguration('reliefpilot').get<string>('outputSummaryPrompt', '')
+    if (!promptTemplate || promptTemplate.trim().length === 0) {
+        throw new Error('Missing configuration: reliefpilot.outputSummaryPrompt')
+    }
+    const model = (await vscode.lm.selectChatModels({ id: modelId }))[0]
+    if (!model) {
+        throw new Error(`Chat model "${modelId}" is not available.`)
+    }
+
+    // Secrets are removed before anything reaches the model; budgeting runs on the redacted text
+    const systemPrompt = promptTemplate
+        .replaceAll(COMMAND_PLACEHOLDER, redact(command).text)
+        .replaceAll(FOCUS_PLACEHOLDER, focus)
+    // Failures and the final summary are at the end of test and build output
+    const prepared = await prepareContentWithinBudget(redact(output).text, systemPrompt, model, 'end')
+    const messages = [
+        vscode.LanguageModelChatMessage.User(systemPrompt),
+        vscode.LanguageModelChatMessage.User(prepared.text),
+    ]
+    const response = await model.sendRequest(messages, {}, token)
+    let text = ''
+    for await (const fragment of response.text) {
+        text += fragment
+    }
+    return { text: text.trim(), modelId, truncated: prepared.truncated }
+}
+
+/** Tool result text for a summary; `rawNote` tells the agent where the full output remains available. */
+export function formatOutputSummary(summary: OutputSummary, focus: string, rawChars: number, rawNote: string): string {
+    const truncated = summary.truncated ? '; only the end of the output fit the model input' : ''
+    return `Output summarized for "${focus}" by ${summary.modelId} (${rawChars} characters${truncated}). ${rawNote}\n\n${summary.text || '(empty summary)'}`
+}
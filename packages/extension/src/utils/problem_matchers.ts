@@ -0,0 +1,190 @@
+// Problem matchers for execute_command output (tsc, eslint, pytest, go and user-defined ones).
+// Pattern properties mirror VS Code task problem matchers: `regexp` plus 1-based capture group indexes.
+// Pure parsing over captured text so matchers can be unit-tested without VS Code.
+import * as path from 'path'
+import { stripAnsi } from '../integrations/terminal/ansiUtils'
+
+export type ProblemSeverity = 'error' | 'warning' | 'info'
+
+export type ProblemMatcherConfig = {
+    name: string
+    // Applied to every output line
+    regexp: string
+    // Optional: a line matching this regexp sets the file (group 1) for the following `regexp` matches (eslint "stylish")
+    fileRegexp?: string
+    // Capture group indexes; `file` is required unless fileRegexp is set
+    file?: number
+    line: number
+    column?: number
+    endLine?: number
+    endColumn?: number
+    severity?: number
+    code?: number
+    message: number
+    // Used when there is no severity group or it is not recognized
+    defaultSeverity?: ProblemSeverity
+}
+
+export type ParsedProblem = {
+    // Absolute path
+    file: string
+    // 1-based like compiler output
+    line: number
+    column: number
+    endLine?: number
+    endColumn?: number
+    severity: ProblemSeverity
+    message: string
+    code?: string
+    // Matcher name
+    source: string
+}
+
+export const BUILT_IN_PROBLEM_MATCHERS: Record<string, ProblemMatcherConfig[]> = {
+    tsc: [
+        // src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+        { name: 'tsc', regexp: '^(.+?)\\((\\d+),(\\d+)\\): (error|warning|message) (TS\\d+): (.*)$', file: 1, line: 2, column: 3, severity: 4, code: 5, message: 6 },
+        // src/a.ts:12:5 - error TS2322: ... (--pretty)
+        { name: 'tsc', regexp: '^(.+?):(\\d+):(\\d+) - (error|warning|message) (TS\\d+): (.*)$', file: 1, line: 2, column: 3, severity: 4, code: 5, message: 6 },
+    ],
+    eslint: [
+        // Default "stylish" formatter: an absolute file path line followed by "  12:5  error  Message  rule-id"
+        {
+            name: 'eslint',
+            fileRegexp: '^((?:/|[A-Za-z]:[\\\\/]).+)$',
+            regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning)\\s+(.+?)(?:\\s{2,}(\\S+))?$',
+            line: 1, column: 2, severity: 3, message: 4, code: 5,
+        },
+        // "unix" formatter: src/a.js:12:5: Message [Error/rule-id]
+        { name: 'eslint', regexp: '^(.+?):(\\d+):(\\d+): (.*) \\[(Error|Warning)(?:/(.+))?\\]$', file: 1, line: 2, column: 3, message: 4, severity: 5, code: 6 },
+    ],
+    pytest: [
+        // tests/test_app.py:12: AssertionError (short traceback location lines)
+        { name: 'pytest', regexp: '^(.+?\\.py):(\\d+): (.+)$', file: 1, line: 2, message: 3 },
+    ],
+    go: [
+        // ./main.go:12:5: undefined: foo (go build / go vet), "    foo_test.go:12: message" (go test)
+        { name: 'go', regexp: '^\\s*(?:\\./)?(.+?\\.go):(\\d+)(?::(\\d+))?: (.+)$', file: 1, line: 2, column: 3, message: 4 },
+    ],
+}
+
+// Keeps a runaway build log from flooding the Problems panel
+export const MAX_PROBLEMS_PER_RUN = 1000
+
+type CompiledMatcher = {
+    config: ProblemMatcherConfig
+    regexp: RegExp
+    fileRegexp?: RegExp
+}
+
+/**
+ * Resolve `reliefpilot.problemMatchers` entries: strings name built-in matchers, objects are custom matchers.
+ * Unknown names and invalid regexes are reported in `errors` and skipped.
+ */
+export function resolveProblemMatchers(entries: unknown[]): { matchers: ProblemMatcherConfig[]; errors: string[] } {
+    const matchers: ProblemMatcherConfig[] = []
+    const errors: string[] = []
+    for (const entry of entries) {
+        if (typeof entry === 'string') {
+            const builtIn = BUILT_IN_PROBLEM_MATCHERS[entry]
+            if (builtIn) matchers.push(...builtIn)
+            else errors.push(`Unknown built-in problem matcher "${entry}"`)
+            continue
+        }
+        const config = entry as Partial<ProblemMatcherConfig> | null
+        if (!config || typeof config !== 'object' || typeof config.regexp !== 'string'
+            || typeof config.line !== 'number' || typeof config.message !== 'number'
+            || (typeof config.file !== 'number' && typeof config.fileRegexp !== 'string')) {
+            errors.push('Problem matcher objects need "regexp", "line", "message" and either "file" or "fileRegexp"')
+            continue
+        }
+        try {
+            new RegExp(config.regexp)
+            if (config.fileRegexp) new RegExp(config.fileRegexp)
+        } catch (err) {
+            errors.push(`Invalid problem matcher regexp: ${err instanceof Error ? err.message : String(err)}`)
+            continue
+        }
+        matchers.push({ ...config, name: typeof config.name === 'string' && config.name ? config.name : 'custom' } as ProblemMatcherConfig)
+    }
+    return { matchers, errors }
+}
+
+function toSeverity(raw: string | undefined, fallback: ProblemSeverity): ProblemSeverity {
+    const s = (raw ?? '').toLowerCase()
+    if (s.startsWith('err') || s === 'fatal') return 'error'
+    if (s.startsWith('warn')) return 'warning'
+    if (s.startsWith('info') || s === 'message' || s === 'note' || s === 'hint') return 'info'
+    return fallback
+}
+
+function toNumber(raw: string | undefined): number | undefined {
+    if (raw === undefined) return undefined
+    const n = parseInt(raw, 10)
+    return Number.isFinite(n) && n > 0 ? n : undefined
+}
+
+/**
+ * Parse command output into problems. File paths are resolved against cwd; problems for which
+ * fileExists returns false are dropped (guards against matching unrelated `name:12: text` lines).
+ */
+export function parseProblems(
+    output: string,
+    cwd: string,
+    matchers: ProblemMatcherConfig[],
+    fileExists: (file: string) => boolean = () => true,
+): ParsedProblem[] {
+    const compiled: CompiledMatcher[] = matchers.map((config) => ({
+        config,
+        regexp: new RegExp(config.regexp),
+        fileRegexp: config.fileRegexp ? new RegExp(config.fileRegexp) : undefined,
+    }))
+    // File announced by each fileRegexp matcher, by matcher index
+    const currentFile = new Map<number, string>()
+    const problems: ParsedProblem[] = []
+    const seen = new Set<string>()
+    const existing = new Map<string, boolean>()
+
+    for (const rawLine of stripAnsi(output).split(/\r?\n/)) {
+        if (problems.length >= MAX_PROBLEMS_PER_RUN) break
+        const line = rawLine.replace(/\s+$/, '')
+        if (!line) continue
+        for (let i = 0; i < compiled.length; i++) {
+            const { config, regexp, fileRegexp } = compiled[i]
+            const m = regexp.exec(line)
+            if (!m) {
+                const f = fileRegexp?.exec(line)
+                if (f?.[1]) currentFile.set(i, f[1].trim())
+                continue
+            }
+            const fileText = config.file !== undefined ? m[config.file] : currentFile.get(i)
+            const lineNumber = toNumber(m[config.line])
+            const message = m[config.message]?.trim()
+            if (!fileText || lineNumber === undefined || !message) continue
+
+            const file = path.resolve(cwd, fileText.trim())
+            if (!existing.has(file)) existing.set(file, fileExists(file))
+            if (!existing.get(file)) continue
+
+            const problem: ParsedProblem = {
+                file,
+                line: lineNumber,
+                column: toNumber(config.column !== undefined ? m[config.column] : undefined) ?? 1,
+                endLine: toNumber(config.endLine !== undefined ? m[config.endLine] : undefined),
+                endColumn: toNumber(config.endColumn !== undefined ? m[config.endColumn] : undefined),
+                severity: toSeverity(config.severity !== undefined ? m[config.severity] : undefined, config.defaultSeverity ?? 'error'),
+                message,
+                code: config.code !== undefined ? m[config.code] || undefined : undefined,
+                source: config.name,
+            }
+            const key = `${problem.file}:${problem.line}:${problem.column}:${problem.message}`
+            if (!seen.has(key)) {
+                seen.add(key)
+                problems.push(problem)
+            }
+            // First matching matcher wins for a line
+            break
+        }
+    }
+    return problems
+}
@@ -0,0 +1,132 @@
+// Secret redaction shared by tool results and every session/history store persisted in workspace state.
+// Built-in detectors cover common credential formats; `reliefpilot.redactionPatterns` adds user-defined regexes.
+// redactSecrets is pure so the detectors can be unit-tested without VS Code.
+import * as vscode from 'vscode'
+import { log } from './log'
+
+export type RedactionResult = {
+    text: string
+    // Number of replaced secrets
+    count: number
+}
+
+type Detector = {
+    kind: string
+    pattern: RegExp
+    // Replacement for a match; defaults to the `[REDACTED:kind]` marker for the whole match
+    replace?: (match: string, ...groups: string[]) => string
+}
+
+const marker = (kind: string) => `[REDACTED:${kind}]`
+
+// Order matters: whole private key blocks first so their base64 body is not matched piecemeal
+const BUILT_IN_DETECTORS: Detector[] = [
+    {
+        kind: 'private-key',
+        pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    },
+    { kind: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+    { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+    {
+        kind: 'aws-secret-key',
+        pattern: /(aws_?secret_?access_?key["']?\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        replace: (_m, prefix) => `${prefix}${marker('aws-secret-key')}`,
+    },
+    { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+    {
+        // .env / shell / YAML style assignments whose key names a secret: API_KEY=..., export DB_PASSWORD="...", token: ...
+        kind: 'env-secret',
+        pattern: /^([ \t]*(?:export[ \t]+)?(?:[A-Za-z0-9]+[_.-])*(?:SECRET|TOKEN|PASSWORD|PASSWD|PASSPHRASE|API[_-]?KEY|ACCESS[_-]?KEY|PRIVATE[_-]?KEY|AUTH[_-]?TOKEN|CREDENTIALS?)(?:[_.-][A-Za-z0-9]+)*[ \t]*[=:][ \t]*)(["']?)([^\s"']{4,})\2/gim,
+        replace: (match, prefix, quote, value) => {
+            // Variable references and values redacted by an earlier detector stay as they are
+            if (/^\$|^\[REDACTED/.test(value)) return match
+            return `${prefix}${quote}${marker('env-secret')}${quote}`
+        },
+    },
+]
+
+/**
+ * Replace secrets in text with `[REDACTED:kind]` markers.
+ * customPatterns (user-defined) are applied after the built-in detectors; each match is replaced as a whole.
+ */
+export function redactSecrets(text: string, customPatterns: RegExp[] = []): RedactionResult {
+    if (!text) return { text, count: 0 }
+    let count = 0
+    let out = text
+    const detectors: Detector[] = [
+        ...BUILT_IN_DETECTORS,
+        ...customPatterns.map((pattern) => ({ kind: 'custom', pattern: withGlobalFlag(pattern) })),
+    ]
+    for (const detector of detectors) {
+        out = out.replace(detector.pattern, (match: string, ...groups: string[]) => {
+            if (match.length === 0) return match
+            const replaced = detector.replace ? detector.replace(match, ...groups) : marker(detector.kind)
+            if (replaced !== match) count++
+            return replaced
+        })
+    }
+    return { text: out, count }
+}
+
+function withGlobalFlag(pattern: RegExp): RegExp {
+    return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g')
+}
+
+export function isRedactionEnabled(): boolean {
+    return vscode.workspace.getConfiguration('reliefpilot').get<boolean>('redactSecrets', true)
+}
+
+/** User-defined patterns from `reliefpilot.redactionPatterns`; invalid regexes are skipped. */
+export function getCustomRedactionPatterns(): RegExp[] {
+    const raw = vscode.workspace.getConfiguration('reliefpilot').get<unknown>('redactionPatterns', [])
+    if (!Array.isArray(raw)) return []
+    const patterns: RegExp[] = []
+    for (const source of raw) {
+        if (typeof source !== 'string' || source.length === 0) continue
+        try {
+            patterns.push(new RegExp(source, 'g'))
+        } catch {
+            log(`Ignoring invalid reliefpilot.redactionPatterns entry: ${source}`)
+        }
+    }
+    return patterns
+}
+
+/** Redact with the current settings; returns the text unchanged when redaction is disabled. */
+export function redact(text: string): RedactionResult {
+    if (!isRedactionEnabled()) return { text, count: 0 }
+    return redactSecrets(text, getCustomRedactionPatterns())
+}
+
+/** Shorthand for stores that only need the redacted text (e.g. session serialize()). */
+export function redactForStorage<T extends string | undefined>(text: T): T {
+    if (!text) return text
+    return redact(text).text as T
+}
+
+/**
+ * Wrap a language model tool so every text part of its result is redacted.
+ * When something was redacted, a trailing part tells the model how many secrets were removed.
+ */
+export function withSecretRedaction<T>(tool: vscode.LanguageModelTool<T>): vscode.LanguageModelTool<T> {
+    return {
+        prepareInvocation: tool.prepareInvocation?.bind(tool),
+        async invoke(options, token) {
+            const result = await tool.invoke(options, token)
+            if (!result || !isRedactionEnabled()) return result
+            const patterns = getCustomRedactionPatterns()
+            let total = 0
+            const content = result.content.map((part): vscode.LanguageModelTextPart | vscode.LanguageModelPromptTsxPart => {
+                if (!(part instanceof vscode.LanguageModelTextPart)) return part as vscode.LanguageModelPromptTsxPart
+                const redacted = redactSecrets(part.value, patterns)
+                total += redacted.count
+                return redacted.count > 0 ? new vscode.LanguageModelTextPart(redacted.text) : part
+            })
+            if (total === 0) return result
+            content.push(new vscode.LanguageModelTextPart(
+                `[Relief Pilot redacted ${total} secret${total === 1 ? '' : 's'} from this result]`,
+            ))
+            return new vscode.LanguageModelToolResult(content)
+        },
+    }
+}
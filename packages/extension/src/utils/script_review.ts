@@ -0,0 +1,289 @@
+// Webview confirmation for multi-step commands (long `&&` chains, multi-line scripts).
+// Reuses the ask_report webview stack (ask_report.css, markdown-deps.js with highlight.js): every step can be
+// enabled/disabled and edited, shows its risk classification, and the resulting script is previewed before approval.
+import * as vscode from 'vscode'
+import { env } from './env'
+import { joinScriptSteps, ScriptStep } from './script_steps'
+import { analyzeShellCommand } from './shell_command_analyzer'
+
+export type ScriptReviewOptions = {
+    title: string
+    steps: ScriptStep[]
+    cwd: string
+    // Shown above the steps (e.g. the classifier disagreeing with destructiveFlag=false)
+    detail?: string
+}
+
+export type ScriptReviewResult = {
+    decision: 'Approve' | 'Deny'
+    // Script rebuilt from the enabled (possibly edited) steps
+    command: string
+    feedback?: string
+}
+
+type ReviewedStep = { text: string; enabled: boolean }
+
+function classify(text: string): string[] {
+    try {
+        return analyzeShellCommand(text).reasons
+    } catch {
+        return []
+    }
+}
+
+export async function reviewCommandScript(opts: ScriptReviewOptions): Promise<ScriptReviewResult> {
+    const extensionUri = env.extensionUri
+    const panel = vscode.window.createWebviewPanel(
+        'reliefpilot.scriptReview',
+        'Relief Pilot: Review Script',
+        { viewColumn: vscode.ViewColumn.Active, preserveFocus: false },
+        { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')] },
+    )
+    try { panel.iconPath = vscode.Uri.joinPath(extensionUri, 'icon.png') } catch { }
+
+    const cssUri = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'ask_report.css'))
+    const hljsCssUri = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'highlight.github.css'))
+    const markdownDepsUri = panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'media', 'markdown-deps.js'))
+    const nonce = Math.random().toString(36).slice(2)
+    const csp = [
+        "default-src 'none'",
+        `img-src ${panel.webview.cspSource} blob: data:`,
+        `style-src ${panel.webview.cspSource} 'unsafe-inline'`,
+        `script-src 'nonce-${nonce}'`,
+    ].join('; ')
+
+    panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+    <head>
+        <meta charset="UTF-8" />
+        <meta http-equiv="Content-Security-Policy" content="${csp}" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <link rel="stylesheet" href="${cssUri}" />
+        <link rel="stylesheet" href="${hljsCssUri}" />
+        <title>Relief Pilot: Review Script</title>
+        <style>
+            .review__meta { margin: 0 0 0.5rem; opacity: 0.85; }
+            .review__detail { margin: 0 0 0.75rem; color: var(--vscode-editorWarning-foreground); }
+            .step { display: grid; grid-template-columns: auto auto 1fr; gap: 0.5rem; align-items: start; padding: 0.4rem 0; border-bottom: 1px solid var(--vscode-panel-border, rgba(127,127,127,0.25)); }
+            .step.disabled textarea { opacity: 0.5; text-decoration: line-through; }
+            .step__index { opacity: 0.7; min-width: 1.5em; text-align: right; padding-top: 0.3rem; }
+            .step textarea, #feedback { display: block; width: 100%; box-sizing: border-box; resize: vertical; font-family: var(--vscode-editor-font-family, monospace); }
+            .step__separator { font-family: var(--vscode-editor-font-family, monospace); opacity: 0.7; font-size: 0.9em; }
+            .risk { font-size: 0.85em; margin-top: 0.2rem; }
+            .risk.destructive { color: var(--vscode-errorForeground); }
+            .risk.readonly { opacity: 0.7; }
+            .section-title { font-size: 12px; opacity: .8; margin: 1rem 0 0.4rem; text-transform: uppercase; letter-spacing: .08em; }
+            .markdown pre { margin: 0; }
+        </style>
+    </head>
+    <body>
+        <main class="askreport__main">
+            <h3 id="title"></h3>
+            <p class="review__meta">Working directory: <code id="cwd"></code></p>
+            <p class="review__detail" id="detail"></p>
+            <section id="steps" aria-label="Script steps"></section>
+            <p class="section-title">Script to run</p>
+            <section class="markdown"><pre><code id="preview" class="language-bash"></code></pre></section>
+            <p class="section-title">Feedback for the agent (optional)</p>
+            <textarea id="feedback" rows="2" placeholder="Add context for the agent…"></textarea>
+        </main>
+        <footer class="askreport__footer">
+            <div class="actions">
+                <button id="approveBtn" class="btn primary">Approve</button>
+                <button id="denyBtn" class="btn">Deny</button>
+            </div>
+        </footer>
+        <script nonce="${nonce}" src="${markdownDepsUri}"></script>
+        <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            /** @type {{ text: string; separator?: string; enabled: boolean; risk: string[] }[]} */
+            let steps = [];
+            const el = {
+                title: document.getElementById('title'),
+                cwd: document.getElementById('cwd'),
+                detail: document.getElementById('detail'),
+                steps: document.getElementById('steps'),
+                preview: document.getElementById('preview'),
+                feedback: document.getElementById('feedback'),
+                approve: document.getElementById('approveBtn'),
+                deny: document.getElementById('denyBtn'),
+            };
+
+            function separatorLabel(sep) {
+                if (sep === '\\n') return '⏎ newline';
+                return sep || '';
+            }
+
+            // Mirrors joinScriptSteps: a kept step is joined with the separator written right before it
+            function joined() {
+                let out = '';
+                steps.forEach((s, i) => {
+                    if (!s.enabled || !s.text.trim()) return;
+                    if (out) {
+                        const sep = steps[i - 1].separator;
+                        out += sep === '\\n' ? '\\n' : sep === ';' || !sep ? '; ' : ' ' + sep + ' ';
+                    }
+                    out += s.text.trim();
+                });
+                return out;
+            }
+
+            function renderPreview() {
+                const script = joined();
+                el.preview.textContent = script || '(no steps enabled)';
+                try {
+                    if (window.hljs && script) {
+                        el.preview.innerHTML = window.hljs.highlight(script, { language: 'bash' }).value;
+                        el.preview.classList.add('hljs');
+                    }
+                } catch {}
+                el.approve.disabled = !script;
+            }
+
+            function renderRisk(node, risk) {
+                node.className = 'risk ' + (risk.length ? 'destructive' : 'readonly');
+                node.textContent = risk.length ? '⚠ ' + risk.join('; ') : 'No destructive operation recognized';
+            }
+
+            function renderSteps() {
+                el.steps.textContent = '';
+                steps.forEach((step, index) => {
+                    const row = document.createElement('div');
+                    row.className = 'step' + (step.enabled ? '' : ' disabled');
+                    const toggle = document.createElement('input');
+                    toggle.type = 'checkbox';
+                    toggle.checked = step.enabled;
+                    toggle.title = 'Run this step';
+                    const num = document.createElement('span');
+                    num.className = 'step__index';
+                    num.textContent = String(index + 1);
+                    const body = document.createElement('div');
+                    const input = document.createElement('textarea');
+                    input.value = step.text;
+                    input.rows = Math.min(12, step.text.split('\\n').length);
+                    const risk = document.createElement('div');
+                    renderRisk(risk, step.risk);
+                    risk.dataset.index = String(index);
+                    body.appendChild(input);
+                    body.appendChild(risk);
+                    if (step.separator && index < steps.length - 1) {
+                        const sep = document.createElement('div');
+                        sep.className = 'step__separator';
+                        sep.textContent = separatorLabel(step.separator);
+                        body.appendChild(sep);
+                    }
+                    toggle.addEventListener('change', () => {
+                        step.enabled = toggle.checked;
+                        row.className = 'step' + (step.enabled ? '' : ' disabled');
+                        renderPreview();
+                    });
+                    let timer;
+                    input.addEventListener('input', () => {
+                        step.text = input.value;
+                        renderPreview();
+                        clearTimeout(timer);
+                        timer = setTimeout(() => vscode.postMessage({ type: 'classify', index, text: step.text }), 300);
+                    });
+                    row.appendChild(toggle);
+                    row.appendChild(num);
+                    row.appendChild(body);
+                    el.steps.appendChild(row);
+                });
+                renderPreview();
+            }
+
+            el.approve.addEventListener('click', () => {
+                vscode.postMessage({ type: 'approve', steps: steps.map(s => ({ text: s.text, enabled: s.enabled })), feedback: el.feedback.value });
+            });
+            el.deny.addEventListener('click', () => {
+                vscode.postMessage({ type: 'deny', feedback: el.feedback.value });
+            });
+
+            window.addEventListener('message', (e) => {
+                const msg = e.data || {};
+                if (msg.type === 'init') {
+                    const p = msg.payload || {};
+                    el.title.textContent = p.title || 'Review script';
+                    el.cwd.textContent = p.cwd || '';
+                    el.detail.textContent = p.detail || '';
+                    el.detail.style.display = p.detail ? '' : 'none';
+                    steps = (p.steps || []).map(s => ({ ...s, enabled: true }));
+                    renderSteps();
+                } else if (msg.type === 'risk') {
+                    const step = steps[msg.index];
+                    if (!step) return;
+                    step.risk = msg.risk || [];
+                    const node = el.steps.querySelector('.risk[data-index="' + msg.index + '"]');
+                    if (node) renderRisk(node, step.risk);
+                }
+            });
+        </script>
+    </body>
+</html>`
+
+    return await new Promise<ScriptReviewResult>((resolve) => {
+        let settled = false
+        const original = joinScriptSteps(opts.steps)
+        const finalize = (res: ScriptReviewResult) => {
+            if (settled) return
+            settled = true
+            try { panel.dispose() } catch { /* noop */ }
+            resolve(res)
+        }
+
+        const disposables: vscode.Disposable[] = []
+        disposables.push(
+            panel.webview.onDidReceiveMessage((msg: any) => {
+                if (!msg || typeof msg !== 'object') return
+                const feedback = typeof msg.feedback === 'string' && msg.feedback.trim() ? msg.feedback.trim() : undefined
+                switch (msg.type) {
+                    case 'classify': {
+                        if (typeof msg.index !== 'number' || typeof msg.text !== 'string') return
+                        void panel.webview.postMessage({ type: 'risk', index: msg.index, risk: classify(msg.text) })
+                        return
+                    }
+                    case 'approve': {
+                        const reviewed: ReviewedStep[] = Array.isArray(msg.steps) ? msg.steps : []
+                        // Separators come from the original script; only text and enabled state are taken from the webview
+                        const command = joinScriptSteps(opts.steps.map((step, i) => ({
+                            ...step,
+                            text: typeof reviewed[i]?.text === 'string' ? reviewed[i].text : step.text,
+                            enabled: reviewed[i]?.enabled !== false,
+                        })))
+                        finalize({ decision: 'Approve', command, feedback })
+                        return
+                    }
+                    case 'deny': {
+                        finalize({ decision: 'Deny', command: original, feedback })
+                        return
+                    }
+                    default:
+                        return
+                }
+            }),
+        )
+
+        // Closing the panel counts as Deny without feedback
+        disposables.push(
+            panel.onDidDispose(() => {
+                if (!settled) {
+                    settled = true
+                    resolve({ decision: 'Deny', command: original })
+                }
+                disposables.forEach((d) => {
+                    try { d.dispose() } catch { /* noop */ }
+                })
+            }),
+        )
+
+        void panel.webview.postMessage({
+            type: 'init',
+            payload: {
+                title: opts.title,
+                cwd: opts.cwd,
+                detail: opts.detail,
+                steps: opts.steps.map((step) => ({ text: step.text, separator: step.separator, risk: classify(step.text) })),
+            },
+        })
+    })
+}
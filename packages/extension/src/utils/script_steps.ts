@@ -0,0 +1,220 @@
+// Splits a command line or multi-line shell script into top-level steps for the script review webview.
+// Steps are separated by `&&`, `||`, `;` and newlines outside quotes, substitutions, subshells,
+// compound commands (if/case/for/while/until, `{ ... }`) and here-documents; pipelines stay in one step.
+// Joining the (possibly edited or disabled) steps back produces the script that will actually run.
+
+export type ScriptSeparator = '&&' | '||' | ';' | '\n'
+
+export type ScriptStep = {
+    // Step text as written (trimmed)
+    text: string
+    // Separator that followed the step in the original script; undefined for the last step
+    separator?: ScriptSeparator
+}
+
+const OPENERS = new Set(['if', 'case', 'for', 'while', 'until', 'select', '{'])
+const CLOSERS = new Set(['fi', 'esac', 'done', '}'])
+// Words after which the next word is again in command position
+const COMMAND_PREFIXES = new Set(['then', 'do', 'else', 'elif', '!', 'time', ...OPENERS])
+
+export function splitScriptSteps(script: string): ScriptStep[] {
+    const steps: ScriptStep[] = []
+    let current = ''
+    let blockDepth = 0
+    let parenDepth = 0
+    let commandPosition = true
+    let word = ''
+    const heredocs: Array<{ delimiter: string; stripTabs: boolean }> = []
+
+    const endWord = () => {
+        if (!word) return
+        if (commandPosition && OPENERS.has(word)) blockDepth++
+        else if (commandPosition && CLOSERS.has(word)) blockDepth = Math.max(0, blockDepth - 1)
+        commandPosition = COMMAND_PREFIXES.has(word) && commandPosition
+        word = ''
+    }
+    const split = (separator: ScriptSeparator) => {
+        endWord()
+        const text = current.trim()
+        if (text) {
+            steps.push({ text, separator })
+        } else if (steps.length > 0 && separator !== '\n') {
+            // `a;;`-like leftovers: keep the stronger separator on the previous step
+            steps[steps.length - 1].separator = separator
+        }
+        current = ''
+        commandPosition = true
+    }
+
+    let i = 0
+    while (i < script.length) {
+        const ch = script[i]
+        const next = script[i + 1]
+
+        if (ch === '\\' && next !== undefined) {
+            current += ch + next
+            if (next !== '\n') word += next
+            i += 2
+            continue
+        }
+        if (ch === "'" || ch === '"' || ch === '`') {
+            const end = findQuoteEnd(script, i)
+            const quoted = script.slice(i, end)
+            current += quoted
+            word += quoted
+            i = end
+            continue
+        }
+        if (ch === '$' && next === '(') {
+            const end = findParenEnd(script, i + 1)
+            const sub = script.slice(i, end)
+            current += sub
+            word += sub
+            i = end
+            continue
+        }
+        if (ch === '#' && word === '') {
+            // Comment to end of line
+            const end = script.indexOf('\n', i)
+            const stop = end === -1 ? script.length : end
+            current += script.slice(i, stop)
+            i = stop
+            continue
+        }
+        if (ch === '<' && next === '<' && script[i + 2] !== '<') {
+            const heredoc = readHeredocDelimiter(script, i + 2)
+            if (heredoc) {
+                heredocs.push({ delimiter: heredoc.delimiter, stripTabs: heredoc.stripTabs })
+                current += script.slice(i, heredoc.end)
+                endWord()
+                commandPosition = false
+                i = heredoc.end
+                continue
+            }
+        }
+        if (ch === '\n' && heredocs.length > 0) {
+            // Here-document bodies belong to the step that opened them
+            let pos = i
+            for (const doc of heredocs.splice(0)) {
+                pos = findHeredocEnd(script, pos + 1, doc.delimiter, doc.stripTabs)
+            }
+            current += script.slice(i, pos)
+            // Continue right before the newline that ends the terminator line (if any)
+            i = pos
+            endWord()
+            continue
+        }
+        if (ch === '(') {
+            endWord()
+            parenDepth++
+            current += ch
+            commandPosition = true
+            i++
+            continue
+        }
+        if (ch === ')') {
+            endWord()
+            parenDepth = Math.max(0, parenDepth - 1)
+            current += ch
+            i++
+            continue
+        }
+        // A closing keyword right before a separator (`fi;`, `done\n`) must end its block first
+        if (ch === '&' || ch === '|' || ch === ';' || ch === '\n') endWord()
+        const atTopLevel = blockDepth === 0 && parenDepth === 0
+        if (atTopLevel && ch === '&' && next === '&') { split('&&'); i += 2; continue }
+        if (atTopLevel && ch === '|' && next === '|') { split('||'); i += 2; continue }
+        if (atTopLevel && ch === ';' && next !== ';') { split(';'); i++; continue }
+        if (atTopLevel && ch === '\n') { split('\n'); i++; continue }
+
+        if (/\s/.test(ch) || ch === ';' || ch === '&' || ch === '|') {
+            endWord()
+            if (ch === ';' || ch === '&' || ch === '|' || ch === '\n') commandPosition = true
+            current += ch
+            i++
+            continue
+        }
+        word += ch
+        current += ch
+        i++
+    }
+    endWord()
+    const text = current.trim()
+    if (text) {
+        steps.push({ text })
+    } else if (steps.length > 0) {
+        delete steps[steps.length - 1].separator
+    }
+    return steps
+}
+
+/**
+ * Rebuild a script from steps, skipping disabled ones. Each kept step is joined with the separator
+ * written right before it, so disabling `b` in `a && b || c` yields `a || c`.
+ */
+export function joinScriptSteps(steps: Array<ScriptStep & { enabled?: boolean }>): string {
+    let out = ''
+    steps.forEach((step, index) => {
+        if (step.enabled === false || step.text.trim().length === 0) return
+        if (out) {
+            const separator = steps[index - 1].separator ?? ';'
+            out += separator === '\n' ? '\n' : separator === ';' ? '; ' : ` ${separator} `
+        }
+        out += step.text.trim()
+    })
+    return out
+}
+
+function findQuoteEnd(script: string, start: number): number {
+    const quote = script[start]
+    let i = start + 1
+    while (i < script.length) {
+        if (script[i] === '\\' && quote !== "'") { i += 2; continue }
+        if (script[i] === quote) return i + 1
+        i++
+    }
+    return script.length
+}
+
+// `start` points at the opening parenthesis
+function findParenEnd(script: string, start: number): number {
+    let depth = 0
+    let i = start
+    while (i < script.length) {
+        const ch = script[i]
+        if (ch === '\\') { i += 2; continue }
+        if (ch === "'" || ch === '"' || ch === '`') { i = findQuoteEnd(script, i); continue }
+        if (ch === '(') depth++
+        if (ch === ')') {
+            depth--
+            if (depth === 0) return i + 1
+        }
+        i++
+    }
+    return script.length
+}
+
+function readHeredocDelimiter(script: string, start: number): { delimiter: string; stripTabs: boolean; end: number } | undefined {
+    let i = start
+    const stripTabs = script[i] === '-'
+    if (stripTabs) i++
+    while (script[i] === ' ' || script[i] === '\t') i++
+    const match = /^(?:'([^']*)'|"([^"]*)"|\\?([A-Za-z0-9_.-]+))/.exec(script.slice(i))
+    if (!match) return undefined
+    return { delimiter: match[1] ?? match[2] ?? match[3], stripTabs, end: i + match[0].length }
+}
+
+// Returns the index of the newline that ends the terminator line (or the script length)
+function findHeredocEnd(script: string, bodyStart: number, delimiter: string, stripTabs: boolean): number {
+    let pos = bodyStart
+    while (pos < script.length) {
+        const nl = script.indexOf('\n', pos)
+        const lineEnd = nl === -1 ? script.length : nl
+        let line = script.slice(pos, lineEnd)
+        if (stripTabs) line = line.replace(/^\t+/, '')
+        if (line === delimiter) return lineEnd
+        if (nl === -1) return script.length
+        pos = nl + 1
+    }
+    return script.length
+}
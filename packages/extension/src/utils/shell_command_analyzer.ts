@@ -0,0 +1,540 @@
+// Static analyzer for shell command lines used to second-guess the agent's destructiveFlag.
+// It tokenizes POSIX-like shell syntax (quotes, escapes, `&&`/`||`/`;`/`|` chains, redirections,
+// `$(...)`/backtick/process substitutions and `( ... )` subshells) into simple command segments
+// and flags segments that are known to modify files, repositories, packages or processes.
+// The analysis is conservative by design: it only reports what it can recognize and never executes anything.
+import * as path from 'path'
+
+export type ShellRedirect = {
+    op: string
+    target: string
+}
+
+export type ShellSegment = {
+    // Raw text of the simple command as written by the agent
+    text: string
+    // Unquoted words (command name followed by arguments)
+    words: string[]
+    redirects: ShellRedirect[]
+    // Operator that connected this segment to the previous one (`|`, `&&`, `;`...)
+    precededBy?: string
+    // True when the segment comes from a `$(...)`, backtick or `<(...)` substitution
+    nested: boolean
+}
+
+export type ShellCommandAnalysis = {
+    segments: ShellSegment[]
+    destructive: boolean
+    // Human-readable explanations, one per finding
+    reasons: string[]
+}
+
+type Token =
+    | { kind: 'word'; value: string; start: number; end: number }
+    | { kind: 'op'; value: string; start: number; end: number }
+    | { kind: 'redirect'; value: string; start: number; end: number }
+
+const CONTROL_OPERATORS = ['&&', '||', ';;', '|&', ';', '|', '&', '\n', '(', ')']
+const REDIRECT_OPERATORS = ['&>>', '&>', '>>', '>|', '>&', '<<<', '<<', '<&', '<>', '>', '<']
+const WRITE_REDIRECTS: ReadonlySet<string> = new Set(['>', '>>', '>|', '&>', '&>>', '<>'])
+const SAFE_REDIRECT_TARGETS: ReadonlySet<string> = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty', 'NUL'])
+
+// Prefix commands that run their arguments as another command
+const WRAPPERS: ReadonlySet<string> = new Set(['sudo', 'doas', 'env', 'nohup', 'time', 'nice', 'ionice', 'command', 'exec', 'xargs', 'timeout', 'watch', 'stdbuf', 'npx', 'bunx'])
+// Wrapper options that consume the following word (`xargs -I {} rm {}`, `timeout -s KILL 5 cmd`)
+const WRAPPER_OPTIONS_WITH_VALUE: Record<string, ReadonlySet<string>> = {
+    sudo: new Set(['-u', '--user', '-g', '--group', '-h', '--host', '-p', '--prompt', '-C', '--close-from', '-D', '--chdir', '-r', '--role', '-t', '--type', '-U', '--other-user', '-T', '--command-timeout']),
+    doas: new Set(['-u', '-C']),
+    env: new Set(['-u', '--unset', '-C', '--chdir']),
+    nice: new Set(['-n', '--adjustment']),
+    ionice: new Set(['-c', '--class', '-n', '--classdata', '-p', '--pid', '-P', '--pgid', '-u', '--uid']),
+    time: new Set(['-f', '--format', '-o', '--output']),
+    exec: new Set(['-a']),
+    xargs: new Set(['-I', '-n', '--max-args', '-P', '--max-procs', '-L', '--max-lines', '-s', '--max-chars', '-d', '--delimiter', '-E', '-a', '--arg-file']),
+    timeout: new Set(['-s', '--signal', '-k', '--kill-after']),
+    watch: new Set(['-n', '--interval']),
+    stdbuf: new Set(['-i', '--input', '-o', '--output', '-e', '--error']),
+    npx: new Set(['-p', '--package', '--cache', '--userconfig']),
+    bunx: new Set(['-p', '--package']),
+}
+// Wrappers taking positional arguments before the command (`timeout 5 cmd`)
+const WRAPPER_POSITIONALS: Record<string, number> = { timeout: 1 }
+const PRIVILEGED_WRAPPERS: ReadonlySet<string> = new Set(['sudo', 'doas'])
+const SHELLS: ReadonlySet<string> = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'pwsh', 'powershell'])
+
+// Interpreter flags that take a program as an argument, keyed by interpreter (version suffix dropped)
+const INLINE_CODE_FLAGS: Record<string, ReadonlySet<string>> = {
+    node: new Set(['-e', '--eval', '-p', '--print']),
+    python: new Set(['-c']),
+    perl: new Set(['-e', '-E']),
+    ruby: new Set(['-e']),
+    php: new Set(['-r']),
+    deno: new Set(['eval']),
+    bun: new Set(['-e', '--eval']),
+    osascript: new Set(['-e']),
+}
+
+// `make` targets that delete build output or install/uninstall files
+const MUTATING_MAKE_TARGETS: ReadonlySet<string> = new Set(['clean', 'distclean', 'mrproper', 'clobber', 'realclean', 'install', 'uninstall'])
+
+// Commands that always modify state
+const MUTATING_COMMANDS: ReadonlySet<string> = new Set([
+    'rm', 'rmdir', 'unlink', 'shred', 'mv', 'cp', 'dd', 'truncate', 'ln', 'mkdir', 'touch', 'install',
+    'chmod', 'chown', 'chgrp', 'chattr', 'setfacl', 'kill', 'pkill', 'killall', 'shutdown', 'reboot', 'halt',
+    'poweroff', 'mount', 'umount', 'fdisk', 'parted', 'crontab', 'useradd', 'userdel', 'usermod', 'passwd',
+    'rsync', 'scp', 'patch', 'del', 'erase', 'rd', 'Remove-Item', 'Move-Item', 'Set-Content', 'Stop-Process',
+    'rimraf', 'del-cli', 'trash',
+])
+
+// Sub-commands that modify state, keyed by tool
+const MUTATING_SUBCOMMANDS: Record<string, ReadonlySet<string>> = {
+    git: new Set([
+        'reset', 'push', 'checkout', 'switch', 'restore', 'clean', 'rebase', 'merge', 'commit', 'rm', 'mv',
+        'cherry-pick', 'revert', 'pull', 'am', 'apply', 'filter-branch', 'filter-repo', 'gc', 'prune', 'init',
+        'clone', 'add', 'update-ref', 'replace', 'notes', 'submodule', 'worktree',
+    ]),
+    npm: new Set(['publish', 'unpublish', 'deprecate', 'install', 'i', 'ci', 'add', 'uninstall', 'remove', 'rm', 'un', 'update', 'up', 'upgrade', 'link', 'unlink', 'dedupe', 'prune', 'version', 'init', 'exec', 'x']),
+    pnpm: new Set(['publish', 'install', 'i', 'add', 'remove', 'rm', 'uninstall', 'update', 'up', 'upgrade', 'link', 'unlink', 'prune', 'dedupe', 'dlx', 'exec', 'init', 'import']),
+    yarn: new Set(['publish', 'install', 'add', 'remove', 'upgrade', 'up', 'link', 'unlink', 'dlx', 'exec', 'init', 'version']),
+    bun: new Set(['publish', 'install', 'i', 'add', 'remove', 'rm', 'update', 'link', 'unlink', 'x', 'init', 'create']),
+    pip: new Set(['install', 'uninstall', 'download']),
+    pip3: new Set(['install', 'uninstall', 'download']),
+    cargo: new Set(['install', 'uninstall', 'publish', 'yank', 'add', 'remove', 'update', 'new', 'init', 'fix']),
+    go: new Set(['install', 'get', 'mod', 'generate', 'clean']),
+    docker: new Set(['rm', 'rmi', 'kill', 'stop', 'prune', 'system', 'volume', 'network', 'push', 'run', 'exec', 'compose', 'build']),
+    kubectl: new Set(['delete', 'apply', 'replace', 'patch', 'edit', 'scale', 'rollout', 'create', 'drain', 'cordon', 'exec']),
+    brew: new Set(['install', 'uninstall', 'remove', 'upgrade', 'update', 'cleanup', 'link', 'unlink', 'tap', 'untap']),
+    apt: new Set(['install', 'remove', 'purge', 'upgrade', 'autoremove', 'dist-upgrade']),
+    'apt-get': new Set(['install', 'remove', 'purge', 'upgrade', 'autoremove', 'dist-upgrade']),
+}
+
+// `git <sub>` read-only variants that would otherwise be caught above
+const READ_ONLY_GIT_FLAGS: Record<string, ReadonlySet<string>> = {
+    clean: new Set(['-n', '--dry-run']),
+    push: new Set(['-n', '--dry-run']),
+    'submodule': new Set(['status', 'summary']),
+    'worktree': new Set(['list']),
+    'notes': new Set(['list', 'show']),
+}
+
+/** Analyze a command line and report whether it is likely to modify state. */
+export function analyzeShellCommand(command: string): ShellCommandAnalysis {
+    const segments = parseShellSegments(command)
+    const reasons: string[] = []
+    segments.forEach((segment) => {
+        for (const reason of classifySegment(segment)) {
+            if (!reasons.includes(reason)) reasons.push(reason)
+        }
+    })
+    return { segments, destructive: reasons.length > 0, reasons }
+}
+
+/** Simple command segments of a command line (including commands nested in substitutions). */
+export function parseShellSegments(command: string, nested = false): ShellSegment[] {
+    const { tokens, substitutions } = tokenize(command)
+    const segments: ShellSegment[] = []
+    let current: Token[] = []
+    let precededBy: string | undefined
+
+    const flush = (op?: string) => {
+        if (current.length > 0) {
+            const segment = buildSegment(command, current, precededBy, nested)
+            if (segment) segments.push(segment)
+        }
+        current = []
+        if (op !== undefined) precededBy = op
+    }
+
+    for (const token of tokens) {
+        if (token.kind === 'op') {
+            flush(token.value === '(' || token.value === ')' ? precededBy : token.value)
+            continue
+        }
+        current.push(token)
+    }
+    flush()
+
+    for (const inner of substitutions) {
+        segments.push(...parseShellSegments(inner, true))
+    }
+    return segments
+}
+
+function buildSegment(command: string, tokens: Token[], precededBy: string | undefined, nested: boolean): ShellSegment | undefined {
+    const words: string[] = []
+    const redirects: ShellRedirect[] = []
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i]
+        if (token.kind === 'redirect') {
+            const next = tokens[i + 1]
+            const target = next && next.kind === 'word' ? next.value : ''
+            if (next && next.kind === 'word') i++
+            redirects.push({ op: token.value.replace(/^\d+/, ''), target })
+            continue
+        }
+        words.push(token.value)
+    }
+    if (words.length === 0 && redirects.length === 0) return undefined
+    const text = command.slice(tokens[0].start, tokens[tokens.length - 1].end).trim()
+    return { text, words, redirects, precededBy, nested }
+}
+
+function tokenize(command: string): { tokens: Token[]; substitutions: string[] } {
+    const tokens: Token[] = []
+    const substitutions: string[] = []
+    let i = 0
+
+    while (i < command.length) {
+        const ch = command[i]
+        if (ch === ' ' || ch === '\t' || ch === '\r') {
+            i++
+            continue
+        }
+        // Comments run to the end of the line
+        if (ch === '#') {
+            while (i < command.length && command[i] !== '\n') i++
+            continue
+        }
+        // Line continuation
+        if (ch === '\\' && command[i + 1] === '\n') {
+            i += 2
+            continue
+        }
+        // Process substitution <(...) / >(...)
+        if ((ch === '<' || ch === '>') && command[i + 1] === '(') {
+            const end = findClosingParen(command, i + 2)
+            substitutions.push(command.slice(i + 2, end))
+            tokens.push({ kind: 'word', value: command.slice(i, end + 1), start: i, end: end + 1 })
+            i = end + 1
+            continue
+        }
+        const redirect = matchRedirect(command, i)
+        if (redirect) {
+            tokens.push({ kind: 'redirect', value: redirect, start: i, end: i + redirect.length })
+            i += redirect.length
+            continue
+        }
+        const op = CONTROL_OPERATORS.find((o) => command.startsWith(o, i))
+        if (op) {
+            tokens.push({ kind: 'op', value: op, start: i, end: i + op.length })
+            i += op.length
+            continue
+        }
+        const start = i
+        const word = readWord(command, i, substitutions)
+        i = word.end
+        tokens.push({ kind: 'word', value: word.value, start, end: i })
+    }
+    return { tokens, substitutions }
+}
+
+// Redirection operator at position i, including an optional leading fd number (e.g. `2>>`)
+function matchRedirect(command: string, i: number): string | undefined {
+    let j = i
+    while (j < command.length && /\d/.test(command[j])) j++
+    // Digits only count as an fd when directly followed by a redirection
+    const op = REDIRECT_OPERATORS.find((o) => command.startsWith(o, j))
+    if (!op) return undefined
+    if (j > i && op.startsWith('&')) return undefined
+    return command.slice(i, j + op.length)
+}
+
+function readWord(command: string, i: number, substitutions: string[]): { value: string; end: number } {
+    let value = ''
+    while (i < command.length) {
+        const ch = command[i]
+        if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') break
+        if (CONTROL_OPERATORS.includes(ch) || ch === '<' || ch === '>') break
+        if (ch === '\\') {
+            value += command[i + 1] ?? ''
+            i += 2
+            continue
+        }
+        if (ch === "'") {
+            const end = command.indexOf("'", i + 1)
+            const close = end === -1 ? command.length : end
+            value += command.slice(i + 1, close)
+            i = close + 1
+            continue
+        }
+        if (ch === '"') {
+            i++
+            while (i < command.length && command[i] !== '"') {
+                if (command[i] === '\\' && i + 1 < command.length) {
+                    value += command[i + 1]
+                    i += 2
+                    continue
+                }
+                if (command[i] === '$' && command[i + 1] === '(') {
+                    const end = findClosingParen(command, i + 2)
+                    substitutions.push(command.slice(i + 2, end))
+                    value += command.slice(i, end + 1)
+                    i = end + 1
+                    continue
+                }
+                if (command[i] === '`') {
+                    const end = findClosingBacktick(command, i + 1)
+                    substitutions.push(command.slice(i + 1, end))
+                    value += command.slice(i, end + 1)
+                    i = end + 1
+                    continue
+                }
+                value += command[i]
+                i++
+            }
+            i++
+            continue
+        }
+        if (ch === '$' && command[i + 1] === '(') {
+            const end = findClosingParen(command, i + 2)
+            substitutions.push(command.slice(i + 2, end))
+            value += command.slice(i, end + 1)
+            i = end + 1
+            continue
+        }
+        if (ch === '`') {
+            const end = findClosingBacktick(command, i + 1)
+            substitutions.push(command.slice(i + 1, end))
+            value += command.slice(i, end + 1)
+            i = end + 1
+            continue
+        }
+        value += ch
+        i++
+    }
+    return { value, end: i }
+}
+
+// Index of the `)` closing a substitution whose body starts at `start` (quote-aware)
+function findClosingParen(command: string, start: number): number {
+    let depth = 1
+    let quote: string | undefined
+    for (let i = start; i < command.length; i++) {
+        const ch = command[i]
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++
+            else if (ch === quote) quote = undefined
+            continue
+        }
+        if (ch === '\\') {
+            i++
+        } else if (ch === '"' || ch === "'") {
+            quote = ch
+        } else if (ch === '(') {
+            depth++
+        } else if (ch === ')') {
+            depth--
+            if (depth === 0) return i
+        }
+    }
+    return command.length
+}
+
+function findClosingBacktick(command: string, start: number): number {
+    for (let i = start; i < command.length; i++) {
+        if (command[i] === '\\') {
+            i++
+            continue
+        }
+        if (command[i] === '`') return i
+    }
+    return command.length
+}
+
+/**
+ * Effective command words of a segment: leading `VAR=value` assignments and wrapper commands
+ * (`sudo`, `env`, `timeout`...) with their options are dropped, so `sudo FOO=1 rm -rf x` yields `rm -rf x`.
+ */
+export function stripCommandWrappers(segmentWords: string[]): { words: string[]; wrappers: string[] } {
+    let words = segmentWords.slice(leadingAssignments(segmentWords))
+    const wrappers: string[] = []
+    while (words.length > 0 && WRAPPERS.has(baseName(words[0]))) {
+        const wrapper = baseName(words[0])
+        // `command -v rm` only looks the name up
+        if (wrapper === 'command' && isCommandLookup(words.slice(1))) break
+        wrappers.push(wrapper)
+        words = words.slice(1)
+        // Drop wrapper options (with their values) and env assignments (`env -i FOO=1 cmd`)
+        const withValue = WRAPPER_OPTIONS_WITH_VALUE[wrapper]
+        while (words.length > 0 && (words[0].startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0]))) {
+            if (words[0] === '--') {
+                words = words.slice(1)
+                break
+            }
+            words = words.slice(withValue?.has(words[0]) ? 2 : 1)
+        }
+        words = words.slice(WRAPPER_POSITIONALS[wrapper] ?? 0)
+    }
+    return { words, wrappers }
+}
+
+// `command -v`/`-V` (also combined with `-p`) prints how a name resolves instead of running it
+function isCommandLookup(args: string[]): boolean {
+    for (const arg of args) {
+        if (arg === '--' || !arg.startsWith('-')) return false
+        if (/^-[pvV]+$/.test(arg) && /[vV]/.test(arg)) return true
+    }
+    return false
+}
+
+/** Redirections of a segment that write to a file (`/dev/null` and the standard streams excluded). */
+export function fileWriteRedirects(segment: ShellSegment): ShellRedirect[] {
+    return segment.redirects.filter((r) => WRITE_REDIRECTS.has(r.op) && !SAFE_REDIRECT_TARGETS.has(r.target))
+}
+
+function classifySegment(segment: ShellSegment): string[] {
+    const reasons: string[] = []
+
+    for (const redirect of fileWriteRedirects(segment)) {
+        reasons.push(`writes to file "${redirect.target || '?'}" via ${redirect.op} redirection`)
+    }
+
+    const { words, wrappers } = stripCommandWrappers(segment.words)
+    for (const wrapper of wrappers) {
+        if (PRIVILEGED_WRAPPERS.has(wrapper)) reasons.push(`runs with elevated privileges (${wrapper})`)
+    }
+    if (words.length === 0) return reasons
+
+    const exe = baseName(words[0])
+    const args = words.slice(1)
+
+    if (exe === 'eval' || exe === 'source' || exe === '.') {
+        reasons.push(`\`${exe}\` runs code that cannot be analyzed statically`)
+        return reasons
+    }
+
+    const inlineFlags = INLINE_CODE_FLAGS[exe.replace(/[\d.]+$/, '')]
+    const inlineFlag = inlineFlags && args.find((a) => inlineFlags.has(a))
+    if (inlineFlag) {
+        reasons.push(`\`${exe} ${inlineFlag}\` runs inline code that cannot be analyzed statically`)
+        return reasons
+    }
+
+    if (SHELLS.has(exe)) {
+        const flagIdx = args.findIndex((a) => a === '-c' || a === '-Command' || a === '-lc')
+        if (flagIdx !== -1 && args[flagIdx + 1] !== undefined) {
+            const inner = analyzeShellCommand(args[flagIdx + 1])
+            reasons.push(...inner.reasons.map((r) => `${exe} -c: ${r}`))
+        } else if (segment.precededBy === '|' || segment.precededBy === '|&') {
+            reasons.push(`pipes input into the \`${exe}\` interpreter`)
+        } else if (args.length > 0) {
+            reasons.push(`runs script "${args[args.length - 1]}" with ${exe}`)
+        }
+        return reasons
+    }
+
+    if (MUTATING_COMMANDS.has(exe)) {
+        reasons.push(`\`${exe}\` modifies files or processes`)
+        return reasons
+    }
+
+    if (exe === 'tee') {
+        const files = args.filter((a) => !a.startsWith('-') && !SAFE_REDIRECT_TARGETS.has(a))
+        if (files.length > 0) reasons.push(`\`tee\` writes to ${files.map((f) => `"${f}"`).join(', ')}`)
+        return reasons
+    }
+
+    if ((exe === 'sed' || exe === 'perl' || exe === 'ruby') && args.some((a) => /^-[a-zA-Z]*i/.test(a) || a.startsWith('--in-place'))) {
+        reasons.push(`\`${exe} -i\` edits files in place`)
+        return reasons
+    }
+
+    if (exe === 'make' || exe === 'gmake') {
+        // `-j` takes an optional job count, hence the numeric check instead of a value option
+        const targets = args.filter((a, idx) => !a.startsWith('-') && !a.includes('=') && !/^\d+$/.test(a) && !MAKE_OPTIONS_WITH_VALUE.has(args[idx - 1]))
+        const mutating = targets.filter((t) => MUTATING_MAKE_TARGETS.has(t))
+        if (mutating.length > 0) reasons.push(`\`make ${mutating.join(' ')}\` deletes build output or installs files`)
+        return reasons
+    }
+
+    if (exe === 'find' && args.some((a) => a === '-delete' || a === '-exec' || a === '-execdir' || a === '-ok' || a === '-fprint')) {
+        reasons.push('`find` deletes files or executes commands on matches')
+        return reasons
+    }
+
+    const subcommands = MUTATING_SUBCOMMANDS[exe]
+    if (subcommands) {
+        // First non-option argument is the subcommand (skips `git -C dir`, `npm --prefix x` style globals)
+        const subIdx = findSubcommandIndex(exe, args)
+        const sub = subIdx === -1 ? undefined : args[subIdx]
+        if (exe === 'git' && sub === 'submodule' && args.includes('foreach')) {
+            // `git submodule foreach <cmd>` runs <cmd> in every submodule
+            const inner = args.slice(args.indexOf('foreach') + 1).filter((a) => a !== '--recursive' && a !== '-q' && a !== '--quiet')
+            const analysis = analyzeShellCommand(inner.join(' '))
+            reasons.push(...analysis.reasons.map((r) => `git submodule foreach: ${r}`))
+        } else if (sub && subcommands.has(sub)) {
+            const rest = args.slice(subIdx + 1)
+            const readOnly = exe === 'git' && READ_ONLY_GIT_FLAGS[sub] && rest.some((a) => READ_ONLY_GIT_FLAGS[sub].has(a))
+            if (!readOnly) reasons.push(`\`${exe} ${sub}\` modifies the repository, packages or environment`)
+        } else if (exe === 'git' && sub && isMutatingGitVariant(sub, args.slice(subIdx + 1))) {
+            reasons.push(`\`git ${sub}\` with the given options modifies the repository`)
+        }
+    }
+
+    return reasons
+}
+
+function isMutatingGitVariant(sub: string, rest: string[]): boolean {
+    switch (sub) {
+        case 'branch':
+            return rest.some((a) => ['-d', '-D', '--delete', '-m', '-M', '--move', '-c', '-C', '-f', '--force', '--set-upstream-to', '-u'].includes(a))
+                || rest.some((a) => !a.startsWith('-'))
+        case 'tag':
+            return rest.some((a) => ['-d', '--delete', '-f', '--force', '-a', '-s'].includes(a)) || rest.some((a) => !a.startsWith('-'))
+        case 'stash':
+            return rest.length === 0 || !['list', 'show'].includes(rest[0])
+        case 'remote':
+            return rest.some((a) => ['add', 'remove', 'rm', 'rename', 'set-url', 'prune'].includes(a))
+        case 'config':
+            return rest.some((a) => ['--unset', '--unset-all', '--add', '--replace-all', '--remove-section', '--rename-section'].includes(a))
+                || rest.filter((a) => !a.startsWith('-')).length >= 2
+        case 'reflog':
+            return rest.some((a) => a === 'expire' || a === 'delete')
+        default:
+            return false
+    }
+}
+
+// Options taking a value before the subcommand
+const GLOBAL_OPTIONS_WITH_VALUE: Record<string, ReadonlySet<string>> = {
+    git: new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace']),
+    npm: new Set(['--prefix', '-w', '--workspace']),
+    pnpm: new Set(['-C', '--dir', '--filter', '-F']),
+    yarn: new Set(['--cwd']),
+    docker: new Set(['-H', '--host', '--context', '-c']),
+    kubectl: new Set(['-n', '--namespace', '--context', '--kubeconfig']),
+}
+
+const MAKE_OPTIONS_WITH_VALUE: ReadonlySet<string> = new Set(['-C', '--directory', '-f', '--file', '--makefile', '-I', '--include-dir', '-o', '--old-file', '-W', '--what-if'])
+
+/**
+ * Index of the subcommand in `args` for tools with value-taking global options
+ * (`git -C dir push` → 2); -1 for other executables or when there is none.
+ */
+export function findToolSubcommandIndex(executable: string, args: string[]): number {
+    const exe = baseName(executable)
+    return GLOBAL_OPTIONS_WITH_VALUE[exe] ? findSubcommandIndex(exe, args) : -1
+}
+
+function findSubcommandIndex(exe: string, args: string[]): number {
+    const withValue = GLOBAL_OPTIONS_WITH_VALUE[exe]
+    for (let i = 0; i < args.length; i++) {
+        const a = args[i]
+        if (a.startsWith('-')) {
+            if (withValue?.has(a)) i++
+            continue
+        }
+        return i
+    }
+    return -1
+}
+
+function leadingAssignments(words: string[]): number {
+    let n = 0
+    while (n < words.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[n])) n++
+    return n
+}
+
+function baseName(word: string): string {
+    return path.basename(word.replace(/\\/g, '/')).replace(/\.(exe|cmd|bat)$/i, '')
+}
@@ -0,0 +1,125 @@
+// Shell and environment selection for execute_command (`shell`, `env`, `envPreset` parameters).
+// Presets come from `reliefpilot.envPresets` so a workspace can pin variables like CI=1 for every teammate.
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+export const SHELL_NAMES = ['bash', 'zsh', 'sh', 'pwsh'] as const
+
+export type ShellName = typeof SHELL_NAMES[number]
+
+export type CommandEnvironment = {
+    shell?: ShellName
+    // Absolute path of the resolved shell executable
+    shellPath?: string
+    envPreset?: string
+    // Preset variables merged with the per-command env (per-command values win)
+    env: Record<string, string>
+    // Names set by the agent's per-command env (not vetted by a workspace preset)
+    commandEnv: string[]
+}
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Variables that make shells, loaders, interpreters or git run code or pick other executables
+const CODE_LOADING_ENV: ReadonlySet<string> = new Set([
+    'PATH', 'BASH_ENV', 'ENV', 'ZDOTDIR', 'PROMPT_COMMAND', 'PS4', 'SHELLOPTS', 'BASHOPTS', 'IFS',
+    'LD_PRELOAD', 'LD_LIBRARY_PATH', 'LD_AUDIT', 'DYLD_INSERT_LIBRARIES', 'DYLD_LIBRARY_PATH',
+    'NODE_OPTIONS', 'NODE_PATH', 'PYTHONSTARTUP', 'PYTHONPATH', 'PERL5OPT', 'PERL5LIB', 'RUBYOPT', 'RUBYLIB',
+    'GIT_PAGER', 'PAGER', 'GIT_EXTERNAL_DIFF', 'GIT_SSH', 'GIT_SSH_COMMAND', 'GIT_EDITOR', 'EDITOR', 'VISUAL',
+    'GIT_ASKPASS', 'SSH_ASKPASS', 'GIT_EXEC_PATH', 'GIT_CONFIG_GLOBAL', 'GIT_CONFIG_SYSTEM', 'GIT_CONFIG_PARAMETERS',
+])
+
+/** Whether a variable can make the command run other code (`LD_PRELOAD`, `NODE_OPTIONS`, `GIT_CONFIG_KEY_0`...). */
+export function isCodeLoadingEnv(name: string): boolean {
+    return CODE_LOADING_ENV.has(name) || /^GIT_CONFIG_(KEY|VALUE)_\d+$/.test(name)
+}
+
+/** Locate an executable on PATH (PATHEXT-aware on Windows). */
+export function findExecutable(
+    name: string,
+    envPath: string = process.env.PATH ?? '',
+    platform: NodeJS.Platform = process.platform,
+): string | undefined {
+    const extensions = platform === 'win32'
+        ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';').filter(Boolean)
+        : ['']
+    for (const dir of envPath.split(platform === 'win32' ? ';' : ':')) {
+        if (!dir) continue
+        for (const ext of extensions) {
+            const candidate = path.join(dir, name + ext.toLowerCase())
+            try {
+                if (fs.statSync(candidate).isFile()) return candidate
+            } catch {
+                // not in this directory
+            }
+        }
+    }
+    return undefined
+}
+
+/** Workspace/user presets: `{ "ci": { "CI": "1" }, "test": { "NODE_ENV": "test" } }`. Invalid entries are skipped. */
+export function getEnvPresets(): Record<string, Record<string, string>> {
+    const raw = vscode.workspace.getConfiguration('reliefpilot').get<unknown>('envPresets', {})
+    const presets: Record<string, Record<string, string>> = {}
+    if (!raw || typeof raw !== 'object') return presets
+    for (const [name, vars] of Object.entries(raw as Record<string, unknown>)) {
+        if (!vars || typeof vars !== 'object') continue
+        presets[name] = {}
+        for (const [key, value] of Object.entries(vars as Record<string, unknown>)) {
+            if (ENV_NAME.test(key) && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
+                presets[name][key] = String(value)
+            }
+        }
+    }
+    return presets
+}
+
+/**
+ * Resolve the shell, preset and per-command variables of an execute_command call.
+ * Throws for shells that are not installed, unknown presets and invalid variable names.
+ */
+export function resolveCommandEnvironment(options: { shell?: ShellName; env?: Record<string, string>; envPreset?: string }): CommandEnvironment {
+    const env: Record<string, string> = {}
+    if (options.envPreset) {
+        const presets = getEnvPresets()
+        const preset = presets[options.envPreset]
+        if (!preset) {
+            const known = Object.keys(presets)
+            throw new Error(
+                `Unknown envPreset "${options.envPreset}". ` +
+                (known.length > 0 ? `Defined presets: ${known.join(', ')}.` : 'No presets are defined in reliefpilot.envPresets.'),
+            )
+        }
+        Object.assign(env, preset)
+    }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+        if (!ENV_NAME.test(key)) throw new Error(`Invalid environment variable name "${key}".`)
+        env[key] = value
+    }
+    let shellPath: string | undefined
+    if (options.shell) {
+        shellPath = findExecutable(options.shell)
+        if (!shellPath) throw new Error(`Shell "${options.shell}" is not installed (not found on PATH).`)
+    }
+    return { shell: options.shell, shellPath, envPreset: options.envPreset, env, commandEnv: Object.keys(options.env ?? {}) }
+}
+
+/** One-line summary for the confirmation UI and tool results; undefined for the default shell and environment. */
+export function describeCommandEnvironment(environment: CommandEnvironment): string | undefined {
+    const parts: string[] = []
+    if (environment.shell) parts.push(`Shell: ${environment.shell}`)
+    const vars = Object.entries(environment.env).map(([k, v]) => `${k}=${v}`)
+    if (vars.length > 0) parts.push(`Env${environment.envPreset ? ` (preset ${environment.envPreset})` : ''}: ${vars.join(' ')}`)
+    else if (environment.envPreset) parts.push(`Env preset ${environment.envPreset} (empty)`)
+    const codeLoading = environment.commandEnv.filter(isCodeLoadingEnv)
+    if (codeLoading.length > 0) parts.push(`⚠ can load or run other code: ${codeLoading.join(', ')}`)
+    return parts.length > 0 ? parts.join(' · ') : undefined
+}
+
+/** Stable key: terminals are only reused for commands with the same shell and environment. */
+export function commandEnvironmentKey(environment: Pick<CommandEnvironment, 'shellPath' | 'env'>): string {
+    if (!environment.shellPath && Object.keys(environment.env).length === 0) return ''
+    const vars = Object.keys(environment.env).sort().map((k) => [k, environment.env[k]])
+    return JSON.stringify([environment.shellPath ?? '', vars])
+}
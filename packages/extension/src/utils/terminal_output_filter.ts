@@ -0,0 +1,128 @@
+// Line selection for get_terminal_output: progress-line collapsing, grep with context and head/tail/range views.
+// Pure functions over already captured lines so they can be unit-tested without a terminal.
+
+export type OutputView = 'tail' | 'head' | 'range'
+
+export type OutputSelection = {
+    view: OutputView
+    // Line budget for head/tail views
+    maxLines: number
+    // 1-based inclusive bounds for the range view (applied after grep)
+    startLine?: number
+    endLine?: number
+    grep?: RegExp
+    // Lines of context around each grep match
+    context?: number
+    collapseProgress?: boolean
+}
+
+export type SelectedOutput = {
+    lines: string[]
+    // Lines available after collapsing and grep, before the view was applied
+    totalLines: number
+    // 1-based position of the first returned line within totalLines (0 when nothing is returned)
+    firstLine: number
+    collapsedLines: number
+    matches?: number
+}
+
+// Percentages, bracketed bars, block characters or braille spinners
+const PROGRESS_HINT = /\d+(?:\.\d+)?\s*%|\[[=#>\-.\s]{4,}\]|[█▓▒░■□]{2,}|[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]/
+
+/**
+ * Collapse runs of consecutive progress lines that differ only in their numbers
+ * (e.g. "Downloading 10%" ... "Downloading 90%") into the last line of the run.
+ */
+export function collapseRepeatedProgressLines(lines: string[]): { lines: string[]; collapsed: number } {
+    const out: string[] = []
+    let collapsed = 0
+    let previousKey: string | undefined
+    for (const line of lines) {
+        const key = PROGRESS_HINT.test(line) ? progressKey(line) : undefined
+        if (key !== undefined && key === previousKey) {
+            out[out.length - 1] = line
+            collapsed++
+        } else {
+            out.push(line)
+        }
+        previousKey = key
+    }
+    return { lines: out, collapsed }
+}
+
+function progressKey(line: string): string {
+    // Bars change length as they fill, so they are normalized together with the numbers
+    return line
+        .replace(/\[[=#>\-.\s]*\]/g, '[]')
+        .replace(/[█▓▒░■□]+/g, '#')
+        .replace(/[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]/g, '*')
+        .replace(/\d+(?:\.\d+)?/g, '0')
+        .trim()
+}
+
+/**
+ * grep-style filtering: matching lines are prefixed with `N:`, context lines with `N-`
+ * (1-based line numbers); with context, non-adjacent groups are separated by `--`.
+ */
+export function grepLines(lines: string[], pattern: RegExp, context = 0): { lines: string[]; matches: number } {
+    const keep = new Array<boolean>(lines.length).fill(false)
+    const isMatch = new Array<boolean>(lines.length).fill(false)
+    let matches = 0
+    lines.forEach((line, i) => {
+        if (!pattern.test(line)) return
+        matches++
+        isMatch[i] = true
+        for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) keep[j] = true
+    })
+
+    const out: string[] = []
+    let last = -1
+    keep.forEach((k, i) => {
+        if (!k) return
+        if (context > 0 && last !== -1 && i > last + 1) out.push('--')
+        out.push(`${i + 1}${isMatch[i] ? ':' : '-'}${lines[i]}`)
+        last = i
+    })
+    return { lines: out, matches }
+}
+
+export function selectOutputLines(lines: string[], selection: OutputSelection): SelectedOutput {
+    let working = lines
+    let collapsedLines = 0
+    if (selection.collapseProgress !== false) {
+        const collapsed = collapseRepeatedProgressLines(working)
+        working = collapsed.lines
+        collapsedLines = collapsed.collapsed
+    }
+
+    let matches: number | undefined
+    if (selection.grep) {
+        const grepped = grepLines(working, selection.grep, Math.max(0, selection.context ?? 0))
+        working = grepped.lines
+        matches = grepped.matches
+    }
+
+    const total = working.length
+    const maxLines = Math.max(1, Math.trunc(selection.maxLines))
+    let start: number
+    let end: number
+    if (selection.view === 'head') {
+        start = 0
+        end = Math.min(total, maxLines)
+    } else if (selection.view === 'range') {
+        start = Math.max(0, (selection.startLine ?? 1) - 1)
+        end = Math.min(total, selection.endLine ?? start + maxLines)
+    } else {
+        start = Math.max(0, total - maxLines)
+        end = total
+    }
+    const selected = start < end ? working.slice(start, end) : []
+
+    return {
+        lines: selected,
+        totalLines: total,
+        firstLine: selected.length > 0 ? start + 1 : 0,
+        collapsedLines,
+        matches,
+    }
+}
@@ -0,0 +1,89 @@
+// Token budgeting for content sent to chat models (ai_fetch_url extraction, command output summaries).
+// Evidence:
+// - VS Code docs expose maxInputTokens and show a provideTokenCount heuristic (≈ length/4) in the Chat Provider guide.
+// - OpenAI guidance recommends model tokenizers (e.g., tiktoken/cl100k) for GPT families.
+// Approach:
+// 1) Try GPT tokenizer when model id suggests GPT/OpenAI (optional, via eval('require') to avoid hard dependency).
+// 2) Fallback to heuristic Math.ceil(length/4) per VS Code sample.
+// 3) Binary-search truncation ensures content fits token budget.
+// 4) Reserve small overhead to account for message wrapper tokens.
+
+// Average characters per token (heuristic used in VS Code samples)
+export const APPROX_CHARS_PER_TOKEN = 4
+// Safety cushion to avoid hitting the hard cap exactly
+const SAFETY_OVERHEAD_TOKENS = 32
+
+// Which end of the content survives truncation: documents keep their start, command output its end
+export type TruncationKeep = 'start' | 'end'
+
+export async function estimateTokens(text: string, modelId?: string): Promise<number> {
+    const cleaned = text ?? ''
+    if (!cleaned) return 0
+    try {
+        if (modelId) {
+            // Optional precise tokenizer for GPT-family models
+            const req: any = (0, eval)('require')
+            const mod = req?.('gpt-tokenizer')
+            const encode: undefined | ((t: string) => number[]) = mod?.encode
+            if (encode) {
+                return encode(cleaned).length
+            }
+        }
+    } catch {
+        // ignore and fall back
+    }
+    // Heuristic fallback per docs
+    return Math.ceil(cleaned.length / APPROX_CHARS_PER_TOKEN)
+}
+
+export async function truncateToTokenBudget(
+    original: string,
+    budgetTokens: number,
+    modelId?: string,
+    keep: TruncationKeep = 'start',
+): Promise<{ text: string; truncated: boolean; tokenCount: number }> {
+    if (budgetTokens <= 0) return { text: '', truncated: true, tokenCount: 0 }
+    const fullTokens = await estimateTokens(original, modelId)
+    if (fullTokens <= budgetTokens) return { text: original, truncated: false, tokenCount: fullTokens }
+    const take = (n: number) => keep === 'start' ? original.slice(0, n) : original.slice(original.length - n)
+    let lo = 0, hi = original.length
+    let best = ''
+    let bestTokens = 0
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1
+        const slice = take(mid)
+        const t = await estimateTokens(slice, modelId)
+        if (t <= budgetTokens) {
+            best = slice; bestTokens = t; lo = mid + 1
+        } else {
+            hi = mid - 1
+        }
+    }
+    const marker = keep === 'start'
+        ? '\n\n[Content truncated to fit token budget]'
+        : '[Earlier content truncated to fit token budget]\n\n'
+    const markerTokens = await estimateTokens(marker, modelId)
+    if (bestTokens + markerTokens <= budgetTokens) {
+        best = keep === 'start' ? best + marker : marker + best
+        bestTokens += markerTokens
+    }
+    return { text: best, truncated: true, tokenCount: bestTokens }
+}
+
+export async function prepareContentWithinBudget(
+    content: string,
+    systemPrompt: string,
+    model: { id: string; maxInputTokens?: number },
+    keep: TruncationKeep = 'start',
+): Promise<{ text: string; truncated: boolean; usedTokens: number; budget: number }> {
+    const maxInput = typeof model.maxInputTokens === 'number' && isFinite(model.maxInputTokens) ? model.maxInputTokens : 0
+    if (maxInput <= 0) return { text: content, truncated: false, usedTokens: 0, budget: 0 }
+    const systemTokens = await estimateTokens(systemPrompt, model.id)
+    const contentBudget = Math.max(0, maxInput - systemTokens - SAFETY_OVERHEAD_TOKENS)
+    const contentTokens = await estimateTokens(content, model.id)
+    if (contentTokens <= contentBudget) {
+        return { text: content, truncated: false, usedTokens: contentTokens + systemTokens, budget: contentBudget }
+    }
+    const truncated = await truncateToTokenBudget(content, contentBudget, model.id, keep)
+    return { text: truncated.text, truncated: true, usedTokens: truncated.tokenCount + systemTokens, budget: contentBudget }
+}